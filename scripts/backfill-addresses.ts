@@ -0,0 +1,93 @@
+/**
+ * Complete the addresses of stored places with the imported administrative boundaries
+ * Run after scripts/import-boundaries.ts: places missing a city, state, country or time zone get
+ * them by reverse geocoding, and display addresses formatted from the components are formatted again.
+ *
+ * Usage: bun scripts/backfill-addresses.ts [--dry-run] [--batch-size 500]
+ */
+import mongoose, { type AnyBulkWriteOperation } from 'mongoose';
+import { parseArgs } from 'util';
+import { getReverseGeocoder } from '../server/Service/ReverseGeocoder';
+import getPlaceModel from '../server/Model/Place';
+import type { PlaceDocument } from '../types';
+import { logger } from '../server/logger';
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '500' }
+  }
+});
+
+const dryRun = values['dry-run'];
+const batchSize = parseInt(values['batch-size'], 10);
+
+const geocoder = getReverseGeocoder();
+const PlaceModel = getPlaceModel();
+
+const report = {
+  dryRun,
+  processed: 0,
+  updated: 0
+};
+
+let batch: PlaceDocument[] = [];
+
+const flush = async () => {
+  const completed = await geocoder.complete(batch);
+  const ops: AnyBulkWriteOperation<PlaceDocument>[] = [];
+
+  completed.forEach((place, index) => {
+    // Unchanged places are returned as is
+    if (place === batch[index]) return;
+
+    ops.push({
+      updateOne: {
+        filter: { _id: place._id },
+        update: { $set: { address: place.address, addressComponents: place.addressComponents, country: place.country, timezone: place.timezone } },
+        // Not a change of the place itself
+        timestamps: false
+      }
+    });
+  });
+
+  report.updated += ops.length;
+  if (!dryRun && ops.length > 0) {
+    await PlaceModel.bulkWrite(ops, { ordered: false });
+  }
+
+  batch = [];
+  logger.info(`Completed the address of ${report.updated} of ${report.processed} places`);
+};
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+
+  const places = PlaceModel.find({
+    $or: [
+      { 'addressComponents.city': { $exists: false } },
+      { 'addressComponents.state': { $exists: false } },
+      { 'addressComponents.country': { $exists: false } },
+      { timezone: { $exists: false } }
+    ]
+  }).select('address addressComponents country timezone coordinates').lean<PlaceDocument[]>().cursor();
+
+  for await (const place of places) {
+    report.processed++;
+    batch.push(place);
+
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Address backfill failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
@@ -0,0 +1,92 @@
+/**
+ * Recount the check-ins of stored places for `sort=popularity`
+ * Places checked in before check-ins were counted have no count; places whose count is current are skipped.
+ * Flagged check-ins are left out, like when counting new ones.
+ *
+ * Usage: bun scripts/count-checkins.ts [--dry-run] [--batch-size 500]
+ */
+import mongoose, { type AnyBulkWriteOperation } from 'mongoose';
+import { parseArgs } from 'util';
+import getPlaceModel from '../server/Model/Place';
+import getCheckinModel from '../server/Model/Checkin';
+import type { PlaceDocument } from '../types';
+import { logger } from '../server/logger';
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '500' }
+  }
+});
+
+const dryRun = values['dry-run'];
+const batchSize = parseInt(values['batch-size'], 10);
+
+const PlaceModel = getPlaceModel();
+const CheckinModel = getCheckinModel();
+
+const report = {
+  dryRun,
+  processed: 0,
+  updated: 0,
+  checkins: 0
+};
+
+let placeOps: AnyBulkWriteOperation<PlaceDocument>[] = [];
+
+const flush = async () => {
+  if (!dryRun && placeOps.length > 0) {
+    await PlaceModel.bulkWrite(placeOps, { ordered: false });
+  }
+
+  placeOps = [];
+  logger.info(`Recounted ${report.updated} of ${report.processed} places`);
+};
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+
+  const counts = new Map<string, number>();
+  const groups = await CheckinModel.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    // Check-ins from before fraud detection have no flags
+    { $match: { 'flags.0': { $exists: false } } },
+    { $group: { _id: '$place', count: { $sum: 1 } } }
+  ]);
+  for (const { _id, count } of groups) {
+    counts.set(String(_id), count);
+    report.checkins += count;
+  }
+
+  const places = PlaceModel.find().select('checkinCount').lean<PlaceDocument[]>().cursor();
+
+  for await (const place of places) {
+    report.processed++;
+
+    const checkinCount = counts.get(String(place._id)) ?? 0;
+    if (place.checkinCount === checkinCount) continue;
+
+    report.updated++;
+    placeOps.push({
+      updateOne: {
+        filter: { _id: place._id },
+        // Not a change of the place itself
+        update: { $set: { checkinCount } },
+        timestamps: false
+      }
+    });
+
+    if (placeOps.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Check-in counting failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
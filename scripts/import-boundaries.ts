@@ -0,0 +1,125 @@
+/**
+ * Import administrative boundaries used for offline reverse geocoding from a GeoJSON FeatureCollection
+ * Features need a Polygon or MultiPolygon geometry and OSM boundary properties: `name`,
+ * `admin_level`, for countries `ISO3166-1:alpha2`, and optionally `timezone`. Exports of OSM boundary relations
+ * (e.g. osmtogeojson or osm-boundaries.com) have them. Re-importing updates boundaries by OSM element.
+ *
+ * Usage: bun scripts/import-boundaries.ts <file> [--max-level 8] [--batch-size 100]
+ */
+import mongoose, { type AnyBulkWriteOperation } from 'mongoose';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream';
+import { parseArgs } from 'util';
+import parserStream from 'stream-json';
+import pick from 'stream-json/filters/pick.js';
+import streamArray from 'stream-json/streamers/stream-array.js';
+import getAdminBoundaryModel from '../server/Model/AdminBoundary';
+import { canonicalName, localizedNames } from '../server/Service/OsmTags';
+import { isValidTimezone } from '../server/Service/OpeningHours';
+import type { GeoJSONFeature } from '../server/Service/PlaceParsers';
+import type { AdminBoundaryDocument } from '../types';
+import { logger } from '../server/logger';
+
+const { values, positionals } = parseArgs({
+  args: Bun.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    'max-level': { type: 'string', default: '8' },
+    'batch-size': { type: 'string', default: '100' }
+  }
+});
+
+const [filePath] = positionals;
+
+if (!filePath) {
+  console.error('Usage: bun scripts/import-boundaries.ts <file> [--max-level 8] [--batch-size 100]');
+  process.exit(1);
+}
+
+const maxLevel = parseInt(values['max-level'], 10);
+const batchSize = parseInt(values['batch-size'], 10);
+
+// OSM element reference as written by osmtogeojson, e.g. `relation/7444`
+const OSM_REFERENCE = /^(node|way|relation)\/(\d+)$/;
+
+const BoundaryModel = getAdminBoundaryModel();
+
+const report = {
+  processed: 0,
+  imported: 0,
+  rejected: 0
+};
+
+let ops: AnyBulkWriteOperation<AdminBoundaryDocument>[] = [];
+
+const flush = async () => {
+  if (ops.length === 0) return;
+
+  await BoundaryModel.bulkWrite(ops, { ordered: false });
+  ops = [];
+  logger.info(`Imported ${report.imported} of ${report.processed} boundaries`);
+};
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+  // Lookups need the 2dsphere index
+  await BoundaryModel.createIndexes();
+
+  const features = pipeline(
+    createReadStream(filePath),
+    parserStream(),
+    pick.asStream({ filter: 'features' }),
+    streamArray.asStream(),
+    // Errors surface through the iteration below
+    () => {}
+  );
+
+  for await (const { value: feature } of features as AsyncIterable<{ value: GeoJSONFeature }>) {
+    report.processed++;
+
+    const properties = feature?.properties ?? {};
+    const name = canonicalName(properties);
+    const adminLevel = parseInt(properties.admin_level, 10);
+    const geometry = feature?.geometry;
+
+    if (!name || !(adminLevel >= 1 && adminLevel <= maxLevel) ||
+      (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon')) {
+      report.rejected++;
+      continue;
+    }
+
+    const osmReference = OSM_REFERENCE.exec(String(properties['@id'] ?? feature.id ?? ''));
+    const countryCode = properties['ISO3166-1:alpha2'] || properties['ISO3166-1'];
+    const boundary = {
+      name,
+      names: localizedNames(properties),
+      adminLevel,
+      ...(countryCode && { countryCode: String(countryCode).toUpperCase() }),
+      ...(properties.timezone && isValidTimezone(properties.timezone) && { timezone: properties.timezone }),
+      geometry: geometry as AdminBoundaryDocument['geometry'],
+      ...(osmReference && { osmType: osmReference[1] as AdminBoundaryDocument['osmType'], osmId: Number(osmReference[2]) })
+    };
+
+    ops.push({
+      updateOne: {
+        filter: osmReference ? { osmType: boundary.osmType, osmId: boundary.osmId } : { name, adminLevel },
+        update: { $set: boundary },
+        upsert: true
+      }
+    });
+    report.imported++;
+
+    if (ops.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Boundary import failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
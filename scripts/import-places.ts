@@ -0,0 +1,47 @@
+/**
+ * Bulk import places from a GeoJSON FeatureCollection or an OSM XML extract
+ *
+ * Usage: bun scripts/import-places.ts <file> [--format geojson|osm] [--source overpass|geojson|nominatim] [--batch-size 500]
+ */
+import mongoose from 'mongoose';
+import { parseArgs } from 'util';
+import PlaceImporter, { type ImportFormat } from '../server/Service/PlaceImporter';
+import getPlaceModel from '../server/Model/Place';
+import type { ProviderSource } from '../types';
+import { logger } from '../server/logger';
+
+const { values, positionals } = parseArgs({
+  args: Bun.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    format: { type: 'string' },
+    source: { type: 'string' },
+    'batch-size': { type: 'string' }
+  }
+});
+
+const [filePath] = positionals;
+
+if (!filePath) {
+  console.error('Usage: bun scripts/import-places.ts <file> [--format geojson|osm] [--source overpass|geojson|nominatim] [--batch-size 500]');
+  process.exit(1);
+}
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+  // Upserts match places on the unique name/coordinates index, make sure it exists first
+  await getPlaceModel().createIndexes();
+
+  const report = await PlaceImporter.importFile(filePath, {
+    format: values.format as ImportFormat | undefined,
+    source: values.source as ProviderSource | undefined,
+    batchSize: values['batch-size'] ? parseInt(values['batch-size'], 10) : undefined
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Import failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
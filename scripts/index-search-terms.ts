@@ -0,0 +1,79 @@
+/**
+ * Index the names of stored places for GET /places/search and GET /places/autocomplete
+ * Places written before search existed have no search terms; places whose terms are current are skipped.
+ *
+ * Usage: bun scripts/index-search-terms.ts [--dry-run] [--batch-size 500]
+ */
+import mongoose, { type AnyBulkWriteOperation } from 'mongoose';
+import { parseArgs } from 'util';
+import getPlaceModel from '../server/Model/Place';
+import { searchTermsOf } from '../server/Service/PlaceSearch';
+import type { PlaceDocument } from '../types';
+import { logger } from '../server/logger';
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '500' }
+  }
+});
+
+const dryRun = values['dry-run'];
+const batchSize = parseInt(values['batch-size'], 10);
+
+const PlaceModel = getPlaceModel();
+
+const report = {
+  dryRun,
+  processed: 0,
+  updated: 0
+};
+
+let placeOps: AnyBulkWriteOperation<PlaceDocument>[] = [];
+
+const flush = async () => {
+  if (!dryRun && placeOps.length > 0) {
+    await PlaceModel.bulkWrite(placeOps, { ordered: false });
+  }
+
+  placeOps = [];
+  logger.info(`Indexed ${report.updated} of ${report.processed} places`);
+};
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+
+  const places = PlaceModel.find().select('name names +nameTokens').lean<PlaceDocument[]>().cursor();
+
+  for await (const place of places) {
+    report.processed++;
+
+    const terms = searchTermsOf(place.name, place.names);
+    // Trigrams derive from the tokens
+    if (terms.nameTokens.join(' ') === place.nameTokens?.join(' ')) continue;
+
+    report.updated++;
+    placeOps.push({
+      updateOne: {
+        filter: { _id: place._id },
+        // Not a change of the place itself
+        update: { $set: terms },
+        timestamps: false
+      }
+    });
+
+    if (placeOps.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Search indexing failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
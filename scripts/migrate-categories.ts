@@ -0,0 +1,101 @@
+/**
+ * Recategorize stored places with the category taxonomy (server/data/categories.json)
+ * Places keep a category of the taxonomy and get its path; legacy categories holding raw OSM tag
+ * values are mapped to the matching category. Check-ins are updated to their place's new category.
+ *
+ * Usage: bun scripts/migrate-categories.ts [--dry-run] [--batch-size 500]
+ */
+import mongoose, { type AnyBulkWriteOperation } from 'mongoose';
+import { parseArgs } from 'util';
+import { getCategoryTaxonomy } from '../server/Service/CategoryTaxonomy';
+import getPlaceModel from '../server/Model/Place';
+import getCheckinModel from '../server/Model/Checkin';
+import type { PlaceDocument, CheckinDocument } from '../types';
+import { logger } from '../server/logger';
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '500' }
+  }
+});
+
+const dryRun = values['dry-run'];
+const batchSize = parseInt(values['batch-size'], 10);
+
+const taxonomy = getCategoryTaxonomy();
+const PlaceModel = getPlaceModel();
+const CheckinModel = getCheckinModel();
+
+const report = {
+  dryRun,
+  processed: 0,
+  updated: 0,
+  checkinsUpdated: 0,
+  // Number of places per `old -> new` category change
+  changes: {} as Record<string, number>
+};
+
+let placeOps: AnyBulkWriteOperation<PlaceDocument>[] = [];
+let checkinOps: AnyBulkWriteOperation<CheckinDocument>[] = [];
+
+const flush = async () => {
+  if (!dryRun && placeOps.length > 0) {
+    await PlaceModel.bulkWrite(placeOps, { ordered: false });
+    const result = await CheckinModel.bulkWrite(checkinOps, { ordered: false });
+    report.checkinsUpdated += result.modifiedCount;
+  }
+
+  placeOps = [];
+  checkinOps = [];
+  logger.info(`Recategorized ${report.updated} of ${report.processed} places`);
+};
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/checkinmate');
+
+  const places = PlaceModel.find().select('category categoryPath').lean<PlaceDocument[]>().cursor();
+
+  for await (const place of places) {
+    report.processed++;
+
+    const { category, categoryPath } = taxonomy.resolve(place.category);
+    if (category === place.category && categoryPath.join('/') === place.categoryPath?.join('/')) continue;
+
+    report.updated++;
+    if (category !== place.category) {
+      const change = `${place.category} -> ${category}`;
+      report.changes[change] = (report.changes[change] ?? 0) + 1;
+    }
+
+    placeOps.push({
+      updateOne: {
+        filter: { _id: place._id },
+        // Not a change of the place itself
+        update: { $set: { category, categoryPath } },
+        timestamps: false
+      }
+    });
+    checkinOps.push({
+      updateMany: {
+        filter: { place: place._id, category: { $ne: category } },
+        update: { $set: { category } },
+        timestamps: false
+      }
+    });
+
+    if (placeOps.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  console.log(JSON.stringify(report, null, 2));
+} catch (error) {
+  logger.error('Category migration failed:', error);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
@@ -0,0 +1,111 @@
+import pino from 'pino';
+import util from 'util';
+import { Model } from 'mongoose';
+import TokenService from '../Service/TokenService';
+import type { UserDocument, ElysiaContext, ApiResponse } from '../../types';
+import type { RegisterInput, LoginInput } from '../schemas/validation';
+
+type AuthPayload = { user: UserDocument; token: string };
+
+export class AuthController {
+  public userModel: Model<UserDocument>;
+  public logger: pino.Logger;
+
+  constructor(userModel: Model<UserDocument>, logger: pino.Logger) {
+    this.userModel = userModel;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a new account and issue its first token
+   */
+  public async register(context: ElysiaContext): Promise<ApiResponse<AuthPayload>> {
+    const { username, email, password } = context.body as RegisterInput;
+
+    try {
+      this.logger.info(`Registering user: ${username}`);
+
+      const existing = await this.userModel.exists({ $or: [{ email }, { username }] });
+      if (existing) {
+        context.set.status = 409;
+        return {
+          error: 'Conflict',
+          message: 'An account with this email or username already exists',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const passwordHash = await Bun.password.hash(password);
+      const user = await this.userModel.create({ username, email, passwordHash });
+      const token = await TokenService.sign({ id: String(user._id), username: user.username });
+
+      context.set.status = 201;
+      return {
+        data: { user: user.toJSON() as UserDocument, token },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error registering user: ${util.inspect(error)}`);
+      throw new Error('Failed to register user');
+    }
+  }
+
+  /**
+   * Exchange email and password for a token
+   */
+  public async login(context: ElysiaContext): Promise<ApiResponse<AuthPayload>> {
+    const { email, password } = context.body as LoginInput;
+
+    try {
+      const user = await this.userModel.findOne({ email }).select('+passwordHash');
+      const isValid = user ? await Bun.password.verify(password, user.passwordHash) : false;
+
+      if (!user || !isValid) {
+        this.logger.warn(`Failed login attempt for ${email}`);
+        context.set.status = 401;
+        return {
+          error: 'Unauthorized',
+          message: 'Invalid email or password',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const token = await TokenService.sign({ id: String(user._id), username: user.username });
+
+      return {
+        data: { user: user.toJSON() as UserDocument, token },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error logging in: ${util.inspect(error)}`);
+      throw new Error('Failed to log in');
+    }
+  }
+
+  /**
+   * Get the account of the authenticated caller
+   */
+  public async me(context: ElysiaContext): Promise<ApiResponse<UserDocument | null>> {
+    try {
+      const user = await this.userModel.findById(context.currentUser?.id);
+
+      if (!user) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'User not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        data: user.toJSON() as UserDocument,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching current user: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch current user');
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import pino from 'pino';
+import util from 'util';
+import { Model } from 'mongoose';
+import type BadgeService from '../Service/BadgeService';
+import type {
+  UserDocument,
+  UserBadgeDocument,
+  Badge,
+  ElysiaContext,
+  ApiResponse
+} from '../../types';
+
+export class BadgeController {
+  public userBadgeModel: Model<UserBadgeDocument>;
+  public userModel: Model<UserDocument>;
+  public badgeService: BadgeService;
+  public logger: pino.Logger;
+
+  constructor(
+    userBadgeModel: Model<UserBadgeDocument>,
+    userModel: Model<UserDocument>,
+    badgeService: BadgeService,
+    logger: pino.Logger
+  ) {
+    this.userBadgeModel = userBadgeModel;
+    this.userModel = userModel;
+    this.badgeService = badgeService;
+    this.logger = logger;
+  }
+
+  /**
+   * List every badge that can be earned
+   */
+  public async getBadges(_context: ElysiaContext): Promise<ApiResponse<Badge[]>> {
+    return {
+      data: this.badgeService.rules.map(({ id, name, description, icon }) => ({ id, name, description, icon })),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Get the badges a user holds, most recently awarded first
+   * Badges whose rule has since been removed from the definitions are omitted
+   */
+  public async getUserBadges(context: ElysiaContext): Promise<ApiResponse<Badge[] | null>> {
+    try {
+      const { id: userId } = context.params;
+
+      this.logger.info(`Fetching badges of user ${userId}`);
+
+      const userExists = await this.userModel.exists({ _id: userId });
+      if (!userExists) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'User not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const userBadges = await this.userBadgeModel
+        .find({ user: userId })
+        .sort({ awardedAt: -1 })
+        .lean<UserBadgeDocument[]>();
+
+      const badges = userBadges.flatMap(({ badgeId, awardedAt }): Badge[] => {
+        const rule = this.badgeService.getRule(badgeId);
+        if (!rule) return [];
+
+        const { id, name, description, icon } = rule;
+        return [{ id, name, description, icon, awardedAt }];
+      });
+
+      return {
+        data: badges,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching user badges: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch badges');
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import pino from 'pino';
+import type { CategoryTaxonomy, LocalizedCategory } from '../Service/CategoryTaxonomy';
+import type { ElysiaContext, ApiResponse } from '../../types';
+import type { CategoryQueryInput } from '../schemas/validation';
+
+export class CategoryController {
+  public taxonomy: CategoryTaxonomy;
+  public logger: pino.Logger;
+
+  constructor(taxonomy: CategoryTaxonomy, logger: pino.Logger) {
+    this.taxonomy = taxonomy;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the category tree, labelled in the requested locale
+   */
+  public async getCategories(context: ElysiaContext): Promise<ApiResponse<LocalizedCategory[]>> {
+    const { locale = 'en' } = context.query as CategoryQueryInput;
+
+    this.logger.debug(`Listing categories: locale=${locale}`);
+
+    return {
+      data: this.taxonomy.localized(locale),
+      timestamp: new Date().toISOString()
+    };
+  }
+}
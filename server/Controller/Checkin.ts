@@ -0,0 +1,356 @@
+import pino from 'pino';
+import util from 'util';
+import { Model, Types, type FilterQuery } from 'mongoose';
+import { calculateDistance, recencyCursorConditions, toRecencyPage } from '../utils';
+import FraudDetectionService from '../Service/FraudDetectionService';
+import type BadgeService from '../Service/BadgeService';
+import type {
+  PlaceDocument,
+  CheckinDocument,
+  UserDocument,
+  ElysiaContext,
+  ApiResponse,
+  CheckinCreateResponse,
+  Badge,
+  FraudAssessment,
+  CursorPaginatedResponse
+} from '../../types';
+import type {
+  CheckinCreateInput,
+  CheckinTimelineQueryInput,
+  FlaggedCheckinQueryInput
+} from '../schemas/validation';
+
+/**
+ * Parse the maximum check-in distance in meters, e.g. `200`
+ * Throws on values that are not a positive number: compared with NaN, every distance would be accepted.
+ */
+export const parseMaxCheckinDistance = (value: string): number => {
+  const distance = Number(value);
+  if (!value.trim() || !Number.isFinite(distance) || distance <= 0) {
+    throw new Error(`Invalid check-in distance "${value}", expected a positive number of meters`);
+  }
+
+  return distance;
+};
+
+// Maximum distance in meters between the caller and the place for a check-in to be accepted
+export const DEFAULT_MAX_CHECKIN_DISTANCE = parseMaxCheckinDistance(process.env.CHECKIN_MAX_DISTANCE || '200');
+
+export class CheckinController {
+  public checkinModel: Model<CheckinDocument>;
+  public placeModel: Model<PlaceDocument>;
+  public logger: pino.Logger;
+  public maxDistance: number;
+  public badgeService?: BadgeService;
+
+  constructor(
+    checkinModel: Model<CheckinDocument>,
+    placeModel: Model<PlaceDocument>,
+    logger: pino.Logger,
+    maxDistance: number = DEFAULT_MAX_CHECKIN_DISTANCE,
+    badgeService?: BadgeService
+  ) {
+    this.checkinModel = checkinModel;
+    this.placeModel = placeModel;
+    this.logger = logger;
+    this.maxDistance = maxDistance;
+    this.badgeService = badgeService;
+  }
+
+  /**
+   * Create a check-in at a place for the authenticated user
+   * The caller's reported position must be within `maxDistance` meters of the place
+   * The response lists the badges newly awarded for this check-in
+   */
+  public async createCheckin(context: ElysiaContext): Promise<CheckinCreateResponse> {
+    const { placeId, lat, lon, message } = context.body as CheckinCreateInput;
+
+    try {
+      this.logger.info(`Check-in attempt: user=${context.currentUser?.id}, place=${placeId}, lat=${lat}, lon=${lon}`);
+
+      const place = await this.placeModel.findById(placeId).lean<PlaceDocument>();
+
+      if (!place) {
+        this.logger.warn(`Check-in rejected, place not found: ${placeId}`);
+        context.set.status = 404;
+        return {
+          error: 'Not Found',
+          message: 'Place not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const [placeLon, placeLat] = place.coordinates.coordinates;
+      const distance = calculateDistance(lat, lon, placeLat, placeLon);
+
+      if (distance > this.maxDistance) {
+        this.logger.warn(`Check-in rejected, ${Math.round(distance)}m away from place ${placeId}`);
+        context.set.status = 422;
+        return {
+          error: 'Check-in Rejected',
+          message: `You are ${Math.round(distance)}m away from this place; check-ins must be made within ${this.maxDistance}m`,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const candidate = {
+        user: context.currentUser?.id,
+        place: place._id,
+        category: place.category,
+        coordinates: { type: 'Point' as const, coordinates: [lon, lat] },
+        distance,
+        message,
+        createdAt: new Date()
+      };
+
+      const assessment = await this.assessCheckin(candidate);
+
+      if (FraudDetectionService.shouldReject(assessment)) {
+        this.logger.warn(`Check-in rejected for user ${candidate.user}: ${assessment.flags.join(', ')}`);
+        context.set.status = 422;
+        return {
+          error: 'Check-in Rejected',
+          message: 'This check-in is inconsistent with your previous check-ins',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const checkin = await this.checkinModel.create({ ...candidate, ...assessment });
+
+      if (assessment.flags.length > 0) {
+        this.logger.warn(`Flagged check-in ${checkin._id}: ${assessment.flags.join(', ')} (score ${assessment.fraudScore})`);
+      } else {
+        await this.countCheckin(place._id);
+      }
+
+      this.logger.debug(`Created check-in ${checkin._id} at ${place.name}`);
+
+      const badges = await this.awardBadges(String(candidate.user), place.category, assessment);
+
+      context.set.status = 201;
+      return {
+        data: checkin.toJSON() as CheckinDocument,
+        badges,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error creating check-in: ${util.inspect(error)}`);
+      throw new Error('Failed to create check-in');
+    }
+  }
+
+  /**
+   * Get a check-in by its MongoDB BSON ID, with the place populated
+   * Like on timelines, only administrators see the anti-spoofing assessment, and only the user and
+   * administrators the check-in coordinates.
+   */
+  public async getCheckinById(context: ElysiaContext): Promise<ApiResponse<CheckinDocument | null>> {
+    try {
+      const { id } = context.params;
+
+      this.logger.info(`Fetching check-in by ID: ${id}`);
+
+      const isAdmin = context.currentUser?.role === 'admin';
+
+      let query = this.checkinModel
+        .findById(id)
+        .populate('place', 'name category coordinates address')
+        .populate('user', 'username');
+
+      if (!isAdmin) {
+        query = query.select('-fraudScore -flags');
+      }
+
+      const checkin = await query.lean<CheckinDocument>();
+
+      if (!checkin) {
+        this.logger.warn(`Check-in not found for ID: ${id}`);
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'Check-in not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      // The owner is only known once the check-in is loaded
+      const owner = checkin.user as UserDocument | null;
+      if (!isAdmin && context.currentUser?.id !== String(owner?._id)) {
+        const { coordinates, ...visible } = checkin;
+        return {
+          data: visible as CheckinDocument,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        data: checkin,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching check-in by ID: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch check-in');
+    }
+  }
+
+  /**
+   * Get a user's check-ins in reverse-chronological order
+   * Paginated with an opaque cursor and filterable by date range and category. Only administrators
+   * see the anti-spoofing assessment, and only the user and administrators the check-in coordinates.
+   * @param context - Elysia context; `params.id` selects the user, defaulting to the caller
+   */
+  public async getUserCheckins(context: ElysiaContext): Promise<CursorPaginatedResponse<CheckinDocument> | ApiResponse<null>> {
+    try {
+      const userId = context.params.id || context.currentUser?.id;
+      const { cursor, limit = 20, from, to, category } = context.query as CheckinTimelineQueryInput;
+
+      this.logger.info(`Fetching check-in timeline: user=${userId}, cursor=${cursor ?? 'none'}, limit=${limit}`);
+
+      const filter: FilterQuery<CheckinDocument> = { user: new Types.ObjectId(userId) };
+
+      if (from || to) {
+        filter.createdAt = {
+          ...(from && { $gte: from }),
+          ...(to && { $lte: to })
+        };
+      }
+
+      if (category) {
+        filter.category = category;
+      }
+
+      const isAdmin = context.currentUser?.role === 'admin';
+      const isOwner = context.currentUser?.id === String(userId);
+      const hiddenFields = isAdmin ? undefined : `-fraudScore -flags${isOwner ? '' : ' -coordinates'}`;
+
+      return await this.paginateByRecency(context, filter, cursor, limit, undefined, hiddenFields);
+    } catch (error) {
+      this.logger.error(`Error fetching check-in timeline: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch check-ins');
+    }
+  }
+
+  /**
+   * Get check-ins flagged by the anti-spoofing checks, newest first
+   * Intended for administrators reviewing suspicious activity
+   */
+  public async getFlaggedCheckins(context: ElysiaContext): Promise<CursorPaginatedResponse<CheckinDocument> | ApiResponse<null>> {
+    try {
+      const { cursor, limit = 20, flag, minScore } = context.query as FlaggedCheckinQueryInput;
+
+      this.logger.info(`Fetching flagged check-ins: flag=${flag ?? 'any'}, minScore=${minScore ?? 0}`);
+
+      const filter: FilterQuery<CheckinDocument> = flag
+        ? { flags: flag }
+        : { 'flags.0': { $exists: true } };
+
+      if (minScore !== undefined) {
+        filter.fraudScore = { $gte: minScore };
+      }
+
+      return await this.paginateByRecency(context, filter, cursor, limit, 'username');
+    } catch (error) {
+      this.logger.error(`Error fetching flagged check-ins: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch flagged check-ins');
+    }
+  }
+
+  /**
+   * Award the badges earned by a new check-in
+   * Flagged check-ins never count towards badges, and a failure here must not fail the check-in
+   */
+  private async awardBadges(userId: string, category: string, assessment: FraudAssessment): Promise<Badge[]> {
+    if (!this.badgeService || assessment.flags.length > 0) return [];
+
+    try {
+      const rules = await this.badgeService.evaluate(userId, category);
+      return rules.map(({ id, name, description, icon }) => ({ id, name, description, icon }));
+    } catch (error) {
+      this.logger.error(`Error awarding badges to user ${userId}: ${util.inspect(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Increment the denormalized checkinCount of a place, ranking places by popularity
+   * Flagged check-ins are left out, like for badges.
+   */
+  private async countCheckin(placeId: Types.ObjectId): Promise<void> {
+    try {
+      // updatedAt tracks freshness of the place data itself, not of its check-ins
+      await this.placeModel.updateOne({ _id: placeId }, { $inc: { checkinCount: 1 } }, { timestamps: false });
+    } catch (error) {
+      this.logger.error(`Error counting check-in at place ${placeId}: ${util.inspect(error)}`);
+    }
+  }
+
+  /**
+   * Assess a check-in against the user's previous check-ins
+   */
+  private async assessCheckin(candidate: { user?: string; place: Types.ObjectId; coordinates: { coordinates: number[] }; createdAt: Date }) {
+    const windowStart = new Date(candidate.createdAt.getTime() - FraudDetectionService.RAPID_FIRE_WINDOW);
+
+    const [previous, recent] = await Promise.all([
+      this.checkinModel
+        .findOne({ user: candidate.user })
+        .sort({ createdAt: -1 })
+        .lean<CheckinDocument>(),
+      this.checkinModel
+        .find({ user: candidate.user, createdAt: { $gte: windowStart } })
+        .lean<CheckinDocument[]>()
+    ]);
+
+    return FraudDetectionService.assess(candidate, previous, recent);
+  }
+
+  /**
+   * Run a reverse-chronological, cursor-paginated check-in query
+   * @param userFields - Fields of the user to populate, if any
+   * @param fields - Projection of the check-ins, e.g. `-coordinates`, all fields by default
+   */
+  private async paginateByRecency(
+    context: ElysiaContext,
+    filter: FilterQuery<CheckinDocument>,
+    cursor: string | undefined,
+    limit: number,
+    userFields?: string,
+    fields?: string
+  ): Promise<CursorPaginatedResponse<CheckinDocument> | ApiResponse<null>> {
+    if (cursor) {
+      const conditions = recencyCursorConditions(cursor);
+
+      if (!conditions) {
+        context.set.status = 400;
+        return {
+          data: null,
+          error: 'Validation Error',
+          message: 'Invalid cursor',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      filter.$or = conditions;
+    }
+
+    // Fetch one extra check-in to know whether another page exists
+    let query = this.checkinModel
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('place', 'name category coordinates');
+
+    if (userFields) {
+      query = query.populate('user', userFields);
+    }
+
+    if (fields) {
+      query = query.select(fields);
+    }
+
+    const checkins = await query.lean<CheckinDocument[]>();
+
+    return toRecencyPage(checkins, limit);
+  }
+}
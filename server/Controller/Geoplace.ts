@@ -1,13 +1,33 @@
 import { LRUCache } from 'lru-cache';
-import OverpassService from '../Service/OverpassService';
-import { calculateDistance } from '../utils';
+import type { PlaceProvider, ProviderHealth } from '../Service/PlaceProvider';
+import { getCategoryTaxonomy, type CategoryTaxonomy } from '../Service/CategoryTaxonomy';
+import { getReverseGeocoder, type ReverseGeocoder } from '../Service/ReverseGeocoder';
+import { openingStateAt, timezoneOf } from '../Service/OpeningHours';
+import { getPlaceSearch, searchTermsOf, type PlaceSearch } from '../Service/PlaceSearch';
+import { comparePlaces, sortPositionOf, sortValueExpression, sortValueOf, type PlaceSort, type ValueSort } from '../Service/PlaceSort';
+import {
+  boundingBoxRing,
+  calculateDistance,
+  compareByValue,
+  decodeDistanceCursor,
+  formatAddress,
+  isDuplicateKeyError,
+  parseAcceptLanguage,
+  pickLocalizedName,
+  toDistancePage,
+  type DistanceCursor,
+  type NearbyBound
+} from '../utils';
 import pino from 'pino';
 import util from 'util';
 import type { 
   PlaceDocument as MongoPlaceDocument, 
   ElysiaContext, 
   ApiResponse, 
+  ApiError,
   PaginatedResponse,
+  DistancePaginatedResponse,
+  AreaResponse,
   PlaceDocumentApiResponse,
   PlaceModel,
   CacheService,
@@ -16,75 +36,229 @@ import type {
 import type { 
   PlaceQueryInput, 
   PaginationInput,
-  PlaceDocument
+  PlaceDocument,
+  PlaceCreateInput,
+  PlaceUpdateInput,
+  PlaceLanguageQueryInput,
+  PlaceSearchQueryInput,
+  PlaceAreaQueryInput,
+  BoundingBoxQueryInput,
+  GeoJSONArea
 } from '../schemas/validation';
-import { Types, Model } from 'mongoose';
+import { Types, Model, type FilterQuery, type PipelineStage } from 'mongoose';
+
+// Optional filters of the radius search, applied to both MongoDB and provider results
+type PlaceFilters = Pick<PlaceQueryInput, 'minRating'> & {
+  // Only places open at this time
+  openAt?: Date;
+  // Category IDs expanded with their descendants
+  categories?: string[];
+  excludeCategories?: string[];
+  sources?: NonNullable<PlaceQueryInput['source']>;
+};
+
+// Places within the radius checked against opening hours, which MongoDB cannot evaluate
+const MAX_OPENING_HOURS_CANDIDATES = 1000;
+
+// $geoNear measures distances on a sphere of the equatorial radius, calculateDistance on one of the mean radius;
+// MongoDB distances are scaled so places from MongoDB and providers sort the same way
+const MONGO_EARTH_RADIUS = 6378100;
+const DISTANCE_MULTIPLIER = 6371e3 / MONGO_EARTH_RADIUS;
+
+// Search index fields are never part of responses, `select: false` doesn't apply to aggregations
+const WITHOUT_SEARCH_TERMS: PipelineStage.Project = { $project: { nameTokens: 0, nameTrigrams: 0 } };
+
+// Language of place names when neither `lang` nor Accept-Language has a match, before the canonical name
+export const DEFAULT_NAME_LANGUAGE = process.env.DEFAULT_NAME_LANGUAGE || 'en';
 
 export class GeoPlaceController {
   private placeModel: Model<MongoPlaceDocument>;
-  public cache: LRUCache<string, MongoPlaceDocument[]>;
+  public cache: LRUCache<string, DistancePaginatedResponse<MongoPlaceDocument>>;
   public logger: pino.Logger;
+  public providers: PlaceProvider[];
+  public taxonomy: CategoryTaxonomy;
+  public geocoder: ReverseGeocoder;
+  public placeSearch: PlaceSearch;
   
-  constructor(placeModel: Model<MongoPlaceDocument>, cache: LRUCache<string, MongoPlaceDocument[]>, logger: pino.Logger) {
+  constructor(
+    placeModel: Model<MongoPlaceDocument>,
+    cache: LRUCache<string, DistancePaginatedResponse<MongoPlaceDocument>>,
+    logger: pino.Logger,
+    providers: PlaceProvider[] = [],
+    taxonomy: CategoryTaxonomy = getCategoryTaxonomy(),
+    geocoder: ReverseGeocoder = getReverseGeocoder(),
+    placeSearch: PlaceSearch = getPlaceSearch()
+  ) {
     this.placeModel = placeModel;
     this.cache = cache;
     this.logger = logger;
+    this.providers = providers;
+    this.taxonomy = taxonomy;
+    this.geocoder = geocoder;
+    this.placeSearch = placeSearch;
   }
 
   /**
-   * Get places based on geographical coordinates
-   * Enhanced with Zod validation and Elysia context
+   * Get places based on geographical coordinates, nearest first or in the order of `sort`
+   * MongoDB and provider places are merged on every page into one list ordered by the sort value, distance
+   * then ID, paginated with cursors on that order so pages never repeat places.
    */
-  public async getPlaces(context: ElysiaContext): Promise<PaginatedResponse<PlaceDocument>> {
+  public async getPlaces(context: ElysiaContext): Promise<DistancePaginatedResponse<PlaceDocument> | ApiResponse<null>> {
     try {
       const query = context.query as unknown as PlaceQueryInput;
-      const { lat, lon, radius, page = 1, limit = 10, cache: useCache = true } = query;
+      const { lat, lon, radius, cursor, limit = 10, cache: useCache = true, openNow, openAt, categories, excludeCategories, sort = 'distance' } = query;
 
-      this.logger.info(`Searching places: lat=${lat}, lon=${lon}, radius=${radius}`);
+      const unknownCategory = [...(categories ?? []), ...(excludeCategories ?? [])].find(id => !this.taxonomy.pathOf(id));
+      if (unknownCategory) return this.unknownCategory(context, unknownCategory);
 
-      const cacheKey = this.generateCacheKey(lat, lon, radius, page, limit);
-
-      // Check cache first if enabled
-      if (this.cache.has(cacheKey) && useCache) {
-        const cachedData = this.cache.get(cacheKey)!;
-        this.logger.debug(`Cache hit for key: ${cacheKey}`);
+      const after = cursor ? decodeDistanceCursor(cursor) : undefined;
+      // Cursors of distance pages have no sort value, those of other orders always have one
+      if (after === null || (after && (after.value === undefined) !== (sort === 'distance'))) {
+        context.set.status = 400;
         return {
-          page,
-          limit,
-          results: cachedData,
-          total: cachedData.length
+          data: null,
+          error: 'Validation Error',
+          message: 'Invalid cursor',
+          timestamp: new Date().toISOString()
         };
       }
 
-      const mongoData = await this.getMongoDBData(lat, lon, radius, page, limit);
-      this.logger.debug(`MongoDB returned ${mongoData.length} places`);
-      this.logger.debug(`MongoDB data: ${util.inspect(mongoData)}`);
-      // If we don't have enough data from MongoDB, combine with Overpass API
-      if (mongoData.length < limit) {
-        const combinedData = await this.getCombinedData(mongoData, lat, lon, radius, limit);
-        
-        if (useCache) {
-          this.cache.set(cacheKey, combinedData);
-          this.logger.debug(`Cached ${combinedData.length} places with key: ${cacheKey}`);
-        }
+      const filters: PlaceFilters = {
+        ...this.filtersOf(query),
+        ...((openAt || openNow) && { openAt: openAt ?? new Date() })
+      };
 
-        return {
-          page,
-          limit,
-          results: combinedData,
-          total: combinedData.length
-        };
+      this.logger.info(`Searching places: lat=${lat}, lon=${lon}, radius=${radius}, sort=${sort}`);
+
+      const cacheKey = this.generateCacheKey(lat, lon, radius, cursor, limit, filters, sort);
+      const languages = this.languagesOf(context);
+
+      // Check cache first if enabled, cached pages keep their total and canonical names
+      const cachedPage = useCache && this.cache.has(cacheKey) ? this.cache.get(cacheKey) : undefined;
+      if (cachedPage) {
+        this.logger.debug(`Cache hit for key: ${cacheKey}`);
+        return this.presentPage(cachedPage, languages);
       }
 
+      const { places, stored } = await this.getMergedData(lat, lon, radius, limit, filters, sort, after);
+      // Counted once providers stored the places of the radius
+      const total = await this.countPlaces(lat, lon, radius, filters);
+
+      const valueOf = sort === 'distance' ? undefined : (place: MongoPlaceDocument) => sortValueOf(place, sort);
+      const page = toDistancePage(places, limit, total, after, valueOf, stored ? { stored } : undefined);
+
+      if (useCache) {
+        this.cache.set(cacheKey, page);
+        this.logger.debug(`Cached ${page.results.length} places with key: ${cacheKey}`);
+      }
+
+      return this.presentPage(page, languages);
+    } catch (error) {
+      // Providers being down is not the same as an area without places
+      if ((error as ApiError).statusCode === 503) {
+        return this.providersUnavailable(context, error as Error);
+      }
+
+      this.logger.error(`API Error in getPlaces: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch places');
+    }
+  }
+
+  /**
+   * Get places inside a bounding box, for map viewports
+   */
+  public async getPlacesInBoundingBox(context: ElysiaContext): Promise<AreaResponse<PlaceDocument> | ApiResponse<null>> {
+    const { minLat, minLon, maxLat, maxLon, ...query } = context.query as unknown as BoundingBoxQueryInput;
+    const bounds = { minLat, minLon, maxLat, maxLon };
+
+    this.logger.info(`Searching places in bounding box ${minLat},${minLon},${maxLat},${maxLon}`);
+
+    return await this.getPlacesInArea(
+      context,
+      query,
+      { type: 'Polygon', coordinates: [boundingBoxRing(bounds)] },
+      this.providers.filter(provider => provider.queryBoundingBox),
+      provider => provider.queryBoundingBox!(bounds, query.limit + 1)
+    );
+  }
+
+  /**
+   * Get places inside a GeoJSON Polygon or MultiPolygon
+   */
+  public async getPlacesWithin(context: ElysiaContext): Promise<AreaResponse<PlaceDocument> | ApiResponse<null>> {
+    const query = context.query as unknown as PlaceAreaQueryInput;
+    const area = context.body as GeoJSONArea;
+
+    this.logger.info(`Searching places within a ${area.type}`);
+
+    return await this.getPlacesInArea(
+      context,
+      query,
+      area,
+      this.providers.filter(provider => provider.queryPolygon),
+      provider => provider.queryPolygon!(area, query.limit + 1)
+    );
+  }
+
+  /**
+   * Places of an area from MongoDB and the providers supporting area queries
+   * Providers are queried first so the tiles of the area they never fetched are stored before MongoDB
+   * is searched; while they fail, MongoDB places are still served.
+   * Results are not ordered nor paginated: areas are capped in size, and `truncated` tells clients to zoom in.
+   */
+  private async getPlacesInArea(
+    context: ElysiaContext,
+    query: PlaceAreaQueryInput,
+    area: GeoJSONArea,
+    providers: PlaceProvider[],
+    queryProvider: (provider: PlaceProvider) => Promise<MongoPlaceDocument[]>
+  ): Promise<AreaResponse<PlaceDocument> | ApiResponse<null>> {
+    try {
+      const { limit, categories, excludeCategories } = query;
+
+      const unknownCategory = [...(categories ?? []), ...(excludeCategories ?? [])].find(id => !this.taxonomy.pathOf(id));
+      if (unknownCategory) return this.unknownCategory(context, unknownCategory);
+
+      const filters = this.filtersOf(query);
+
+      let providerData: MongoPlaceDocument[] = [];
+      let providerError: Error | undefined;
+      try {
+        providerData = (await this.queryProviders(providers, filters, queryProvider))
+          .filter(place => this.matchesFilters(place, filters));
+      } catch (error) {
+        providerError = error as Error;
+      }
+
+      // One more than the limit tells whether the area holds more places
+      const mongoData = await this.placeModel.find({
+        coordinates: { $geoWithin: { $geometry: area } },
+        ...this.buildFilterQuery(filters)
+      }).limit(limit + 1).lean<MongoPlaceDocument[]>();
+
+      if (providerError) {
+        if (mongoData.length === 0) throw providerError;
+        this.logger.warn(`Serving MongoDB places of a ${area.type} while providers are failing: ${util.inspect(providerError)}`);
+      }
+
+      const places = [...mongoData, ...providerData]
+        .filter(this.isValidPlace)
+        .filter(this.removeDuplicates);
+
+      const languages = this.languagesOf(context);
+
       return {
-        page,
         limit,
-        results: mongoData,
-        total: mongoData.length
+        truncated: places.length > limit,
+        results: places.slice(0, limit).map(place => this.present(place, languages))
       };
     } catch (error) {
-      this.logger.error(`API Error in getPlaces: ${util.inspect(error)}`);
-      throw new Error('Failed to fetch places');
+      if ((error as ApiError).statusCode === 503) {
+        return this.providersUnavailable(context, error as Error);
+      }
+
+      this.logger.error(`Error fetching places in area: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch places in area');
     }
   }
 
@@ -121,17 +295,21 @@ export class GeoPlaceController {
 
   /**
    * Health check endpoint
-   * Enhanced with detailed system status
+   * Enhanced with detailed system status, including the upstream endpoints of providers that track them
    */
-  public async healthCheck(_context: ElysiaContext): Promise<ApiResponse<{ status: string; timestamp: string; services: Record<string, boolean> }>> {
+  public async healthCheck(_context: ElysiaContext): Promise<ApiResponse<{ status: string; timestamp: string; services: Record<string, boolean>; providers?: Record<string, ProviderHealth> }>> {
     try {
       const timestamp = new Date().toISOString();
       const [dbConnected, cacheStatus] = await Promise.all([
         this.checkDatabaseConnection(),
         this.checkCacheStatus()
       ]);
+      const providers: Record<string, ProviderHealth> = Object.fromEntries(
+        this.providers.flatMap(provider => provider.health ? [[provider.name, provider.health()]] : [])
+      );
+      const providersHealthy = Object.values(providers).every(health => health.healthy);
       
-      const overallStatus = dbConnected && cacheStatus ? 'OK' : 'DEGRADED';
+      const overallStatus = dbConnected && cacheStatus && providersHealthy ? 'OK' : 'DEGRADED';
       
       this.logger.info(`Health check completed: ${overallStatus}`);
       
@@ -141,8 +319,10 @@ export class GeoPlaceController {
           timestamp,
           services: {
             database: dbConnected,
-            cache: cacheStatus
-          }
+            cache: cacheStatus,
+            ...Object.fromEntries(Object.entries(providers).map(([name, health]) => [name, health.healthy]))
+          },
+          providers
         },
         timestamp: new Date().toISOString()
       };
@@ -183,56 +363,329 @@ export class GeoPlaceController {
     }
   }
 
-  private generateCacheKey(lat: number, lon: number, radius: number, page: number, limit: number): string {
-    return `places:${lat.toFixed(6)}:${lon.toFixed(6)}:${radius}:${page}:${limit}`;
+  private generateCacheKey(
+    lat: number,
+    lon: number,
+    radius: number,
+    cursor: string | undefined,
+    limit: number,
+    filters: PlaceFilters,
+    sort: PlaceSort
+  ): string {
+    // Open places are cached by the minute
+    const openAt = filters.openAt ? Math.floor(filters.openAt.getTime() / 60000) : '';
+    const list = (values?: string[]) => values ? [...values].sort().join(',') : '';
+    return `places:${lat.toFixed(6)}:${lon.toFixed(6)}:${radius}:${sort}:${cursor ?? ''}:${limit}:${filters.minRating ?? ''}:${openAt}:` +
+      `${list(filters.categories)}:${list(filters.excludeCategories)}:${list(filters.sources)}`;
+  }
+
+  /**
+   * Filters shared by the radius and area searches
+   */
+  private filtersOf({ minRating, categories, excludeCategories, source }: PlaceAreaQueryInput): PlaceFilters {
+    return {
+      minRating,
+      ...(categories && { categories: this.withDescendants(categories) }),
+      ...(excludeCategories && { excludeCategories: this.withDescendants(excludeCategories) }),
+      ...(source && { sources: source })
+    };
+  }
+
+  /**
+   * Translate search filters into a MongoDB query
+   */
+  private buildFilterQuery(filters: PlaceFilters): FilterQuery<MongoPlaceDocument> {
+    const query: FilterQuery<MongoPlaceDocument> = {};
+
+    if (filters.minRating !== undefined) {
+      query.ratingAverage = { $gte: filters.minRating };
+    }
+
+    // Places with unknown hours are never considered open, the hours themselves are checked in memory
+    if (filters.openAt) {
+      query.openingHours = { $exists: true };
+    }
+
+    if (filters.categories || filters.excludeCategories) {
+      query.category = {
+        ...(filters.categories && { $in: filters.categories }),
+        ...(filters.excludeCategories && { $nin: filters.excludeCategories })
+      };
+    }
+
+    if (filters.sources) {
+      query.source = { $in: filters.sources };
+    }
+
+    return query;
+  }
+
+  /**
+   * Categories and every category below them, so filtering on `food` includes cafes
+   */
+  private withDescendants(categories: string[]): string[] {
+    return [...new Set(categories.flatMap(category => this.taxonomy.descendantsOf(category)))];
   }
 
-  private async getMongoDBData(lat: number, lon: number, radius: number, page: number, limit: number): Promise<MongoPlaceDocument[]> {
+  /**
+   * In-memory counterpart of buildFilterQuery, for places that did not come from MongoDB
+   */
+  private matchesFilters(place: MongoPlaceDocument, filters: PlaceFilters): boolean {
+    if (filters.minRating !== undefined && (place.ratingAverage ?? 0) < filters.minRating) return false;
+    if (filters.categories && !filters.categories.includes(place.category)) return false;
+    if (filters.excludeCategories?.includes(place.category)) return false;
+    if (filters.sources && !filters.sources.includes(place.source)) return false;
+
+    return !filters.openAt || this.isOpenAt(place, filters.openAt);
+  }
+
+  private isOpenAt(place: MongoPlaceDocument, at: Date): boolean {
+    return Boolean(place.openingHours) && openingStateAt(place.openingHours!, at, timezoneOf(place)).open;
+  }
+
+  /**
+   * Stored places within the radius matching the filters, opening hours aside, so an estimate: provider
+   * places are included once stored, those that failed to be stored and closed places are not told apart
+   */
+  private async countPlaces(lat: number, lon: number, radius: number, filters: PlaceFilters): Promise<number> {
+    return await this.placeModel.countDocuments({
+      coordinates: { $geoWithin: { $centerSphere: [[lon, lat], radius / MONGO_EARTH_RADIUS] } },
+      ...this.buildFilterQuery(filters)
+    });
+  }
+
+  /**
+   * The first `limit + 1` MongoDB places of the order after the cursor, the extra one telling whether there are more
+   */
+  private async getMongoDBData(
+    lat: number,
+    lon: number,
+    radius: number,
+    limit: number,
+    filters: PlaceFilters,
+    sort: PlaceSort,
+    after?: DistanceCursor
+  ): Promise<MongoPlaceDocument[]> {
+    if (sort !== 'distance') {
+      return await this.getMongoDBDataByValue(lat, lon, radius, limit, filters, sort, after);
+    }
+
+    const geoNear: PipelineStage.GeoNear = {
+      $geoNear: {
+        near: { type: 'Point', coordinates: [lon, lat] },
+        distanceField: 'distance',
+        distanceMultiplier: DISTANCE_MULTIPLIER,
+        spherical: true,
+        maxDistance: radius,
+        // Unscaled, and a centimeter short so places at the cursor distance are matched below
+        ...(after && { minDistance: Math.max(after.distance / DISTANCE_MULTIPLIER - 0.01, 0) }),
+        query: this.buildFilterQuery(filters)
+      }
+    };
+    const afterCursor: PipelineStage[] = after ? [{
+      $match: {
+        // The place at the cursor may have come from a provider, with a slightly different distance
+        _id: { $ne: new Types.ObjectId(after.id) },
+        $or: [
+          { distance: { $gt: after.distance } },
+          { distance: after.distance, _id: { $gt: new Types.ObjectId(after.id) } }
+        ]
+      }
+    }] : [];
+
+    if (filters.openAt) {
+      // Paginate once closed places are filtered out
+      const candidates = await this.placeModel.aggregate<MongoPlaceDocument>([
+        geoNear,
+        ...afterCursor,
+        { $limit: MAX_OPENING_HOURS_CANDIDATES },
+        WITHOUT_SEARCH_TERMS
+      ]);
+      return candidates
+        .filter(place => this.isOpenAt(place, filters.openAt!))
+        .sort(comparePlaces(sort))
+        .slice(0, limit + 1);
+    }
+
     return await this.placeModel.aggregate<MongoPlaceDocument>([
+      geoNear,
+      ...afterCursor,
+      // $geoNear leaves places at the same distance in any order
+      { $sort: { distance: 1, _id: 1 } },
+      { $limit: limit + 1 },
+      WITHOUT_SEARCH_TERMS
+    ]);
+  }
+
+  /**
+   * getMongoDBData for orders ranking places by a value: every place within the radius gets its
+   * `sortValue` from sortValueExpression, then places are sorted by it, distance and ID
+   */
+  private async getMongoDBDataByValue(
+    lat: number,
+    lon: number,
+    radius: number,
+    limit: number,
+    filters: PlaceFilters,
+    sort: ValueSort,
+    after?: DistanceCursor
+  ): Promise<MongoPlaceDocument[]> {
+    const afterCursor: PipelineStage[] = after ? [{
+      $match: {
+        // The place at the cursor may have come from a provider, with a slightly different distance
+        _id: { $ne: new Types.ObjectId(after.id) },
+        $or: [
+          { sortValue: { $lt: after.value } },
+          { sortValue: after.value, distance: { $gt: after.distance } },
+          { sortValue: after.value, distance: after.distance, _id: { $gt: new Types.ObjectId(after.id) } }
+        ]
+      }
+    }] : [];
+
+    const candidates = await this.placeModel.aggregate<MongoPlaceDocument>([
       {
         $geoNear: {
           near: { type: 'Point', coordinates: [lon, lat] },
           distanceField: 'distance',
+          distanceMultiplier: DISTANCE_MULTIPLIER,
           spherical: true,
           maxDistance: radius,
-          query: {}
+          query: this.buildFilterQuery(filters)
         }
       },
-      { $skip: (page - 1) * limit },
-      { $limit: limit },
+      { $addFields: { sortValue: sortValueExpression(sort) } },
+      ...afterCursor,
+      { $sort: { sortValue: -1, distance: 1, _id: 1 } },
+      // Paginate once closed places are filtered out
+      { $limit: filters.openAt ? MAX_OPENING_HOURS_CANDIDATES : limit + 1 },
+      { $unset: 'sortValue' },
+      WITHOUT_SEARCH_TERMS
     ]);
+
+    if (!filters.openAt) return candidates;
+
+    return candidates
+      .filter(place => this.isOpenAt(place, filters.openAt!))
+      .slice(0, limit + 1);
   }
 
-  private async getCombinedData(
-    mongoData: MongoPlaceDocument[],
+  /**
+   * The `limit + 1` places after the cursor, from MongoDB and the place providers merged in one order
+   * Providers are queried before MongoDB is searched, so the places of the areas they never fetched are
+   * stored and ranked from the first page. Once they are, later pages only search MongoDB, `stored`
+   * telling so to the next cursor; while providers fail, MongoDB places are still served and providers
+   * are queried again on the next page.
+   */
+  private async getMergedData(
     lat: number,
     lon: number,
     radius: number,
-    limit: number
-  ): Promise<MongoPlaceDocument[]> {
-  const overpassData = await this.fetchAndProcessOverpassData(lat, lon, radius);
+    limit: number,
+    filters: PlaceFilters,
+    sort: PlaceSort,
+    after?: DistanceCursor
+  ): Promise<{ places: MongoPlaceDocument[]; stored: boolean }> {
+    if (after?.stored) {
+      const mongoData = await this.getMongoDBData(lat, lon, radius, limit, filters, sort, after);
+      return { places: this.getCombinedData(mongoData, [], limit, filters, sort, after), stored: true };
+    }
+
+    // Stored provider places are ranked by MongoDB, providers only add those that failed to be stored:
+    // the nearest ones after the cursor are enough, orders by value only rank the nearest ones
+    const bound = { limit: limit + 1, ...(sort === 'distance' && after && { minDistance: after.distance }) };
+
+    let providerData: MongoPlaceDocument[] = [];
+    let providerError: Error | undefined;
+    try {
+      providerData = await this.fetchProviderData(lat, lon, radius, filters, bound);
+    } catch (error) {
+      providerError = error as Error;
+    }
+
+    const mongoData = await this.getMongoDBData(lat, lon, radius, limit, filters, sort, after);
+    this.logger.debug(`MongoDB returned ${mongoData.length} places`);
+    this.logger.debug(`MongoDB data: ${util.inspect(mongoData)}`);
+
+    if (providerError) {
+      if (mongoData.length === 0) throw providerError;
+      this.logger.warn(`Serving MongoDB places while providers are failing: ${util.inspect(providerError)}`);
+    }
 
-  const combinedData = [...mongoData, ...overpassData]
+    return { places: this.getCombinedData(mongoData, providerData, limit, filters, sort, after), stored: !providerError };
+  }
+
+  /**
+   * MongoDB places merged with the provider places after the cursor, `limit + 1` at most
+   */
+  private getCombinedData(
+    mongoData: MongoPlaceDocument[],
+    providerData: MongoPlaceDocument[],
+    limit: number,
+    filters: PlaceFilters,
+    sort: PlaceSort,
+    after?: DistanceCursor
+  ): MongoPlaceDocument[] {
+  providerData = providerData
+    .filter(place => this.matchesFilters(place, filters))
+    .filter(place => !after || (String(place._id) !== after.id && compareByValue(sortPositionOf(place, sort), { ...after, _id: after.id }) > 0));
+
+  const combinedData = [...mongoData, ...providerData]
     .filter(this.isValidPlace)
     .filter(this.removeDuplicates)
-    .sort((a, b) => (a.distance || 0) - (b.distance || 0)) // Fixed sorting logic: nearest to farthest
-    .slice(0, limit);
+    .sort(comparePlaces(sort))
+    .slice(0, limit + 1);
 
   return combinedData;
 }
 
-private async fetchAndProcessOverpassData(lat: number, lon: number, radius: number): Promise<MongoPlaceDocument[]> {
-  const overpassData = await OverpassService.queryPlaces(lat, lon, radius);
-  return overpassData
+/**
+ * Places of every provider around a point within a bound, with their distance
+ */
+private async fetchProviderData(lat: number, lon: number, radius: number, filters: PlaceFilters, bound: NearbyBound): Promise<MongoPlaceDocument[]> {
+  const providerData = await this.queryProviders(this.providers, filters, provider => provider.queryPlaces(lat, lon, radius, bound));
+
+  return providerData.map(place => {
+    const [placeLon, placeLat] = place.coordinates.coordinates;
+    const distance = calculateDistance(lat, lon, placeLat, placeLon);
+    return { ...place, distance };
+  }) as MongoPlaceDocument[];
+}
+
+/**
+ * Query providers in parallel and merge their places, skipping providers left out by a source filter
+ * A failing provider is skipped, the search only fails when all of them do
+ */
+private async queryProviders(
+  providers: PlaceProvider[],
+  filters: PlaceFilters,
+  queryProvider: (provider: PlaceProvider) => Promise<MongoPlaceDocument[]>
+): Promise<MongoPlaceDocument[]> {
+  providers = providers.filter(provider => !filters.sources || filters.sources.includes(provider.name));
+  if (providers.length === 0) return [];
+
+  const results = await Promise.allSettled(providers.map(queryProvider));
+
+  const providerData: MongoPlaceDocument[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      providerData.push(...result.value);
+    } else {
+      this.logger.warn(`Place provider ${providers[index].name} failed: ${util.inspect(result.reason)}`);
+    }
+  });
+
+  if (results.every(result => result.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  return providerData
     .filter(place => place && place.coordinates && Array.isArray(place.coordinates.coordinates))
     .map(place => {
       // Ensure the place has an ObjectId
       if (!place._id) {
         place._id = new Types.ObjectId();
       }
-      const [placeLon, placeLat] = place.coordinates.coordinates;
-      const distance = calculateDistance(lat, lon, placeLat, placeLon);
-      return { ...place, distance };
+      return { ratingAverage: 0, ratingCount: 0, checkinCount: 0, ...place };
     }) as MongoPlaceDocument[];
 }
 
@@ -240,17 +693,102 @@ private isValidPlace(place: MongoPlaceDocument): string | boolean {
   return place && place.name && place.coordinates && Array.isArray(place.coordinates.coordinates) && place.coordinates.coordinates.length === 2;
 }
 
+  /**
+   * Keep the first of the places of a same OSM element, or sharing a name at the same position
+   * Names are compared before localization, on canonical and localized names, as places stored
+   * before localized names existed may hold a localized name as their canonical one.
+   */
   private removeDuplicates(place: MongoPlaceDocument, index: number, self: MongoPlaceDocument[]): boolean {
+    const namesOf = (p: MongoPlaceDocument) => [p.name, ...Object.values(p.names ?? {})];
+    const isSameElement = (p: MongoPlaceDocument) =>
+      p.osmId !== undefined && p.osmType === place.osmType && p.osmId === place.osmId;
+
     return index === self.findIndex(p => 
-      p && place && 
-      p.name === place.name && 
-      p.coordinates && place.coordinates &&
-      Array.isArray(p.coordinates.coordinates) && Array.isArray(place.coordinates.coordinates) &&
-      Math.abs(p.coordinates.coordinates[0] - place.coordinates.coordinates[0]) < 0.0001 &&
-      Math.abs(p.coordinates.coordinates[1] - place.coordinates.coordinates[1]) < 0.0001
+      p && place && (
+        isSameElement(p) || (
+          namesOf(p).some(name => namesOf(place).includes(name)) &&
+          p.coordinates && place.coordinates &&
+          Array.isArray(p.coordinates.coordinates) && Array.isArray(place.coordinates.coordinates) &&
+          Math.abs(p.coordinates.coordinates[0] - place.coordinates.coordinates[0]) < 0.0001 &&
+          Math.abs(p.coordinates.coordinates[1] - place.coordinates.coordinates[1]) < 0.0001
+        )
+      )
     );
   }
 
+  /**
+   * Preferred languages of the caller: the `lang` query parameter, Accept-Language, then DEFAULT_NAME_LANGUAGE
+   */
+  private languagesOf(context: ElysiaContext): string[] {
+    const { lang } = context.query as PlaceLanguageQueryInput;
+    return [...(lang ? [lang] : []), ...parseAcceptLanguage(context.headers['accept-language']), DEFAULT_NAME_LANGUAGE];
+  }
+
+  /**
+   * A place as returned by the API: localized, and with its opening state when its hours are known
+   */
+  private present<T extends MongoPlaceDocument | PlaceDocument>(place: T, languages: string[]): T {
+    const localized = this.localize(place, languages);
+    if (!place.openingHours) return localized;
+
+    const { open, nextChange } = openingStateAt(place.openingHours, new Date(), timezoneOf(place));
+    return { ...localized, openNow: open, nextChange: nextChange?.toISOString() ?? null };
+  }
+
+  private presentPage(page: DistancePaginatedResponse<MongoPlaceDocument>, languages: string[]): DistancePaginatedResponse<PlaceDocument> {
+    return { ...page, results: page.results.map(place => this.present(place, languages)) };
+  }
+
+  /**
+   * The place named in the best of the preferred languages, its `names` are kept
+   */
+  private localize<T extends Pick<PlaceDocument, 'name' | 'names'>>(place: T, languages: string[]): T {
+    return { ...place, name: pickLocalizedName(place.name, place.names, languages) };
+  }
+
+  /**
+   * Search stored places by name, around `lat` and `lon` when given
+   * Results are ranked by name match, accent-insensitive and tolerant to typos, and by distance
+   */
+  public async searchPlaces(context: ElysiaContext): Promise<ApiResponse<PlaceDocument[]>> {
+    try {
+      const { q, lat, lon, limit } = context.query as unknown as PlaceSearchQueryInput;
+
+      this.logger.info(`Searching places named "${q}"${lat !== undefined ? ` around ${lat},${lon}` : ''}`);
+
+      const results = await this.placeSearch.search(q, { lat, lon, limit });
+      const languages = this.languagesOf(context);
+
+      return {
+        data: results.map(place => this.present(place, languages)),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error searching places: ${util.inspect(error)}`);
+      throw new Error('Failed to search places');
+    }
+  }
+
+  /**
+   * Suggestions of places whose name words start with the words typed so far
+   */
+  public async autocompletePlaces(context: ElysiaContext): Promise<ApiResponse<PlaceDocument[]>> {
+    try {
+      const { q, lat, lon, limit } = context.query as unknown as PlaceSearchQueryInput;
+
+      const suggestions = await this.placeSearch.autocomplete(q, { lat, lon, limit });
+      const languages = this.languagesOf(context);
+
+      return {
+        data: suggestions.map(place => this.localize(place, languages)),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error autocompleting places: ${util.inspect(error)}`);
+      throw new Error('Failed to autocomplete places');
+    }
+  }
+
   /**
    * Get a specific place by its MongoDB BSON ID
    * @param context - Elysia context containing the ID parameter
@@ -280,7 +818,7 @@ private isValidPlace(place: MongoPlaceDocument): string | boolean {
       this.logger.debug(`Successfully retrieved place: ${place.name}`);
       
       return {
-        data: place as PlaceDocument,
+        data: this.present(place as PlaceDocument, this.languagesOf(context)),
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -288,4 +826,231 @@ private isValidPlace(place: MongoPlaceDocument): string | boolean {
       throw new Error('Failed to fetch place by ID');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the place of an OpenStreetMap element, e.g. to link from openstreetmap.org
+   * Responds 404 until the element was fetched from a provider or imported
+   */
+  public async getPlaceByOsmId(context: ElysiaContext): Promise<ApiResponse<PlaceDocument | null>> {
+    try {
+      const { type, id } = context.params;
+
+      this.logger.info(`Fetching place of OSM element ${type}/${id}`);
+
+      const place = await this.placeModel.findOne({ osmType: type, osmId: Number(id) }).lean<PlaceDocument>();
+
+      if (!place) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: `No place for OSM element ${type}/${id}`,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        data: this.present(place, this.languagesOf(context)),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching place by OSM element: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch place by OSM element');
+    }
+  }
+
+  /**
+   * Create a user-contributed place (source 'mongodb') owned by the caller
+   * City, state and country missing from its address are filled by reverse geocoding.
+   * Responds 400 for categories missing from the taxonomy, and 409 when a place with the
+   * same name already exists at the same coordinates
+   */
+  public async createPlace(context: ElysiaContext): Promise<ApiResponse<PlaceDocument | null>> {
+    const placeInput = context.body as PlaceCreateInput;
+
+    try {
+      this.logger.info(`Creating place "${placeInput.name}" for user ${context.currentUser?.id}`);
+
+      const categoryPath = this.taxonomy.pathOf(placeInput.category);
+      if (!categoryPath) return this.unknownCategory(context, placeInput.category);
+
+      const addressComponents = {
+        ...(placeInput.country && { country: placeInput.country }),
+        ...placeInput.addressComponents
+      };
+      const [addressed] = await this.geocoder.complete([{
+        ...placeInput,
+        addressComponents,
+        // Without a display address, format one from the components
+        address: placeInput.address === 'Unknown address' ? formatAddress(addressComponents) : placeInput.address
+      }]);
+
+      const place = await this.placeModel.create({
+        ...addressed,
+        ...searchTermsOf(addressed.name, addressed.names),
+        categoryPath,
+        source: 'mongodb',
+        createdBy: context.currentUser?.id
+      });
+
+      // Search results may now be missing this place
+      this.cache.clear();
+
+      context.set.status = 201;
+      return {
+        data: place.toJSON() as PlaceDocument,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (isDuplicateKeyError(error, 'unique_place_name_coords')) {
+        return this.placeConflict(context);
+      }
+
+      this.logger.error(`Error creating place: ${util.inspect(error)}`);
+      throw new Error('Failed to create place');
+    }
+  }
+
+  /**
+   * Update a user-contributed place
+   * Only its author or an administrator may update it, Overpass places are read-only
+   */
+  public async updatePlace(context: ElysiaContext): Promise<ApiResponse<PlaceDocument | null>> {
+    const { id } = context.params;
+    const update = context.body as PlaceUpdateInput;
+
+    try {
+      this.logger.info(`Updating place ${id} for user ${context.currentUser?.id}`);
+
+      const categoryPath = update.category !== undefined ? this.taxonomy.pathOf(update.category) : undefined;
+      if (update.category !== undefined && !categoryPath) return this.unknownCategory(context, update.category);
+
+      const denied = await this.checkPlaceWriteAccess(context, id);
+      if (denied) return denied;
+
+      const place = await this.placeModel.findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            ...update,
+            ...(categoryPath && { categoryPath }),
+            ...(update.addressComponents && update.address === undefined && { address: formatAddress(update.addressComponents) }),
+            updatedAt: new Date()
+          }
+        },
+        { new: true, runValidators: true }
+      );
+
+      // Search terms cover both the canonical and the localized names, only one of which may have changed
+      if (place && (update.name !== undefined || update.names !== undefined)) {
+        await this.placeModel.updateOne({ _id: place._id }, { $set: searchTermsOf(place.name, place.names) }, { timestamps: false });
+      }
+
+      this.cache.clear();
+
+      return {
+        data: place ? place.toJSON() as PlaceDocument : null,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (isDuplicateKeyError(error, 'unique_place_name_coords')) {
+        return this.placeConflict(context);
+      }
+
+      this.logger.error(`Error updating place: ${util.inspect(error)}`);
+      throw new Error('Failed to update place');
+    }
+  }
+
+  /**
+   * Delete a user-contributed place
+   * Only its author or an administrator may delete it, Overpass places are read-only
+   */
+  public async deletePlace(context: ElysiaContext): Promise<ApiResponse<null>> {
+    const { id } = context.params;
+
+    try {
+      this.logger.info(`Deleting place ${id} for user ${context.currentUser?.id}`);
+
+      const denied = await this.checkPlaceWriteAccess(context, id);
+      if (denied) return denied;
+
+      await this.placeModel.deleteOne({ _id: id });
+      this.cache.clear();
+
+      return {
+        data: null,
+        message: 'Place deleted',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error deleting place: ${util.inspect(error)}`);
+      throw new Error('Failed to delete place');
+    }
+  }
+
+  /**
+   * Ensure the caller may modify a place
+   * @returns An error response when the place is missing or not writable by the caller, undefined otherwise
+   */
+  private async checkPlaceWriteAccess(context: ElysiaContext, id: string): Promise<ApiResponse<null> | undefined> {
+    const place = await this.placeModel.findById(id).select('source createdBy').lean<MongoPlaceDocument>();
+
+    if (!place) {
+      context.set.status = 404;
+      return {
+        data: null,
+        error: 'Not Found',
+        message: 'Place not found',
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const isAuthor = place.createdBy !== undefined && String(place.createdBy) === context.currentUser?.id;
+    const isAdmin = context.currentUser?.role === 'admin';
+
+    if (place.source !== 'mongodb' || !(isAuthor || isAdmin)) {
+      context.set.status = 403;
+      return {
+        data: null,
+        error: 'Forbidden',
+        message: place.source !== 'mongodb'
+          ? 'Places imported from OpenStreetMap cannot be modified'
+          : 'Only the author of a place can modify it',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  private unknownCategory(context: ElysiaContext, category: string): ApiResponse<null> {
+    context.set.status = 400;
+    return {
+      data: null,
+      error: 'Validation Error',
+      message: `Unknown category "${category}", see GET /categories`,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private providersUnavailable(context: ElysiaContext, error: Error): ApiResponse<null> {
+    this.logger.warn(`Place providers unavailable: ${error.message}`);
+    context.set.status = 503;
+    return {
+      data: null,
+      error: 'Service Unavailable',
+      message: 'Place providers are unavailable, try again later',
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private placeConflict(context: ElysiaContext): ApiResponse<null> {
+    this.logger.warn('Place write collided with unique_place_name_coords');
+    context.set.status = 409;
+    return {
+      data: null,
+      error: 'Conflict',
+      message: 'A place with this name already exists at these coordinates',
+      timestamp: new Date().toISOString()
+    };
+  }
+}
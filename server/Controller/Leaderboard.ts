@@ -0,0 +1,165 @@
+import { LRUCache } from 'lru-cache';
+import pino from 'pino';
+import util from 'util';
+import { Model, Types, type FilterQuery } from 'mongoose';
+import type {
+  PlaceDocument,
+  UserDocument,
+  CheckinDocument,
+  LeaderboardEntry,
+  PlaceLeaderboard,
+  ElysiaContext,
+  ApiResponse
+} from '../../types';
+import type {
+  LeaderboardQueryInput,
+  LeaderboardPeriod,
+  PlaceLeaderboardQueryInput
+} from '../schemas/validation';
+
+// Rolling window in days over which the mayor of a place is computed
+export const MAYOR_WINDOW_DAYS = parseInt(process.env.MAYOR_WINDOW_DAYS || '60', 10);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Length of each leaderboard period, `all` has no lower bound
+const PERIOD_DAYS: Record<LeaderboardPeriod, number | null> = {
+  week: 7,
+  month: 30,
+  year: 365,
+  all: null
+};
+
+export class LeaderboardController {
+  public checkinModel: Model<CheckinDocument>;
+  public placeModel: Model<PlaceDocument>;
+  public userModel: Model<UserDocument>;
+  public cache: LRUCache<string, PlaceLeaderboard | LeaderboardEntry[]>;
+  public logger: pino.Logger;
+
+  constructor(
+    checkinModel: Model<CheckinDocument>,
+    placeModel: Model<PlaceDocument>,
+    userModel: Model<UserDocument>,
+    cache: LRUCache<string, PlaceLeaderboard | LeaderboardEntry[]>,
+    logger: pino.Logger
+  ) {
+    this.checkinModel = checkinModel;
+    this.placeModel = placeModel;
+    this.userModel = userModel;
+    this.cache = cache;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the mayor and top users of a place over the last MAYOR_WINDOW_DAYS days
+   */
+  public async getPlaceLeaderboard(context: ElysiaContext): Promise<ApiResponse<PlaceLeaderboard | null>> {
+    try {
+      const { id: placeId } = context.params;
+      const { limit = 10 } = context.query as PlaceLeaderboardQueryInput;
+      const cacheKey = `place:${placeId}:${limit}`;
+
+      const cached = this.cache.get(cacheKey) as PlaceLeaderboard | undefined;
+      if (cached) {
+        this.logger.debug(`Cache hit for key: ${cacheKey}`);
+        return { data: cached, timestamp: new Date().toISOString() };
+      }
+
+      this.logger.info(`Computing leaderboard of place ${placeId}, limit=${limit}`);
+
+      const placeExists = await this.placeModel.exists({ _id: placeId });
+      if (!placeExists) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'Place not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const leaderboard = await this.rankUsers({
+        place: new Types.ObjectId(placeId),
+        createdAt: { $gte: new Date(Date.now() - MAYOR_WINDOW_DAYS * DAY) }
+      }, limit);
+
+      const data: PlaceLeaderboard = {
+        mayor: leaderboard[0] ?? null,
+        windowDays: MAYOR_WINDOW_DAYS,
+        leaderboard
+      };
+
+      this.cache.set(cacheKey, data);
+
+      return { data, timestamp: new Date().toISOString() };
+    } catch (error) {
+      this.logger.error(`Error computing place leaderboard: ${util.inspect(error)}`);
+      throw new Error('Failed to compute place leaderboard');
+    }
+  }
+
+  /**
+   * Get the users with the most check-ins over a period, globally or in one category
+   */
+  public async getLeaderboard(context: ElysiaContext): Promise<ApiResponse<LeaderboardEntry[]>> {
+    try {
+      const { category, period = 'month', limit = 10 } = context.query as LeaderboardQueryInput;
+      const cacheKey = `global:${category ?? '*'}:${period}:${limit}`;
+
+      const cached = this.cache.get(cacheKey) as LeaderboardEntry[] | undefined;
+      if (cached) {
+        this.logger.debug(`Cache hit for key: ${cacheKey}`);
+        return { data: cached, timestamp: new Date().toISOString() };
+      }
+
+      this.logger.info(`Computing leaderboard: category=${category ?? 'all'}, period=${period}, limit=${limit}`);
+
+      const periodDays = PERIOD_DAYS[period];
+      const match: FilterQuery<CheckinDocument> = {
+        ...(category && { category }),
+        ...(periodDays !== null && { createdAt: { $gte: new Date(Date.now() - periodDays * DAY) } })
+      };
+
+      const leaderboard = await this.rankUsers(match, limit);
+      this.cache.set(cacheKey, leaderboard);
+
+      return { data: leaderboard, timestamp: new Date().toISOString() };
+    } catch (error) {
+      this.logger.error(`Error computing leaderboard: ${util.inspect(error)}`);
+      throw new Error('Failed to compute leaderboard');
+    }
+  }
+
+  /**
+   * Rank users by their number of matching check-ins
+   * Flagged check-ins never count; ties go to the user who checked in most recently
+   */
+  private async rankUsers(match: FilterQuery<CheckinDocument>, limit: number): Promise<LeaderboardEntry[]> {
+    const entries = await this.checkinModel.aggregate<Omit<LeaderboardEntry, 'rank'>>([
+      { $match: { ...match, 'flags.0': { $exists: false } } },
+      {
+        $group: {
+          _id: '$user',
+          checkinCount: { $sum: 1 },
+          lastCheckinAt: { $max: '$createdAt' }
+        }
+      },
+      { $sort: { checkinCount: -1, lastCheckinAt: -1, _id: 1 } },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: this.userModel.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'user',
+          pipeline: [{ $project: { username: 1 } }]
+        }
+      },
+      { $unwind: '$user' },
+      { $project: { _id: 0, user: 1, checkinCount: 1, lastCheckinAt: 1 } }
+    ]);
+
+    return entries.map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+}
@@ -0,0 +1,158 @@
+import { LRUCache } from 'lru-cache';
+import pino from 'pino';
+import util from 'util';
+import { Model, Types, type FilterQuery } from 'mongoose';
+import { recencyCursorConditions, toRecencyPage } from '../utils';
+import { PhotoUploadError, type PhotoService } from '../Service/PhotoService';
+import type {
+  PlaceDocument,
+  PlacePhotoDocument,
+  ElysiaContext,
+  ApiResponse,
+  CursorPaginatedResponse,
+  DistancePaginatedResponse
+} from '../../types';
+import type { PhotoQueryInput, PhotoUploadInput } from '../schemas/validation';
+
+// Thumbnail variant used as the cover photo on place results
+const COVER_VARIANT = 'medium';
+
+export class PhotoController {
+  public placePhotoModel: Model<PlacePhotoDocument>;
+  public placeModel: Model<PlaceDocument>;
+  public photoService: PhotoService;
+  public cache: LRUCache<string, DistancePaginatedResponse<PlaceDocument>>;
+  public logger: pino.Logger;
+
+  constructor(
+    placePhotoModel: Model<PlacePhotoDocument>,
+    placeModel: Model<PlaceDocument>,
+    photoService: PhotoService,
+    cache: LRUCache<string, DistancePaginatedResponse<PlaceDocument>>,
+    logger: pino.Logger
+  ) {
+    this.placePhotoModel = placePhotoModel;
+    this.placeModel = placeModel;
+    this.photoService = photoService;
+    this.cache = cache;
+    this.logger = logger;
+  }
+
+  /**
+   * Upload a photo of a place as the authenticated user
+   * The first photo of a place becomes its cover photo
+   */
+  public async uploadPhoto(context: ElysiaContext): Promise<ApiResponse<PlacePhotoDocument | null>> {
+    const { id: placeId } = context.params;
+    const { file, caption } = context.body as PhotoUploadInput;
+
+    try {
+      this.logger.info(`Uploading photo: place=${placeId}, user=${context.currentUser?.id}, type=${file.type}, size=${file.size}`);
+
+      const place = await this.placeModel.findById(placeId).select('coverPhotoUrl').lean<PlaceDocument>();
+      if (!place) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'Place not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const stored = await this.photoService.store(placeId, file);
+
+      const photo = await this.placePhotoModel.create({
+        ...stored,
+        place: placeId,
+        uploadedBy: context.currentUser?.id,
+        caption
+      }).catch(async error => {
+        await this.photoService.remove(stored);
+        throw error;
+      });
+
+      if (!place.coverPhotoUrl) {
+        await this.setCoverPhoto(placeId, stored.variants.find(variant => variant.name === COVER_VARIANT)?.url ?? stored.url);
+      }
+
+      context.set.status = 201;
+      return {
+        data: photo.toJSON() as PlacePhotoDocument,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof PhotoUploadError) {
+        context.set.status = error.statusCode;
+        return {
+          data: null,
+          error: error.statusCode === 413 ? 'Payload Too Large' : 'Unsupported Media Type',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      this.logger.error(`Error uploading photo: ${util.inspect(error)}`);
+      throw new Error('Failed to upload photo');
+    }
+  }
+
+  /**
+   * Get the photos of a place, newest first, paginated with an opaque cursor
+   */
+  public async getPhotos(context: ElysiaContext): Promise<CursorPaginatedResponse<PlacePhotoDocument> | ApiResponse<null>> {
+    try {
+      const { id: placeId } = context.params;
+      const { cursor, limit = 20 } = context.query as PhotoQueryInput;
+
+      this.logger.info(`Fetching photos: place=${placeId}, cursor=${cursor ?? 'none'}, limit=${limit}`);
+
+      const filter: FilterQuery<PlacePhotoDocument> = { place: new Types.ObjectId(placeId) };
+
+      if (cursor) {
+        const conditions = recencyCursorConditions(cursor);
+
+        if (!conditions) {
+          context.set.status = 400;
+          return {
+            data: null,
+            error: 'Validation Error',
+            message: 'Invalid cursor',
+            timestamp: new Date().toISOString()
+          };
+        }
+
+        filter.$or = conditions;
+      }
+
+      const photos = await this.placePhotoModel
+        .find(filter)
+        .select('-storageKey -variants.storageKey -__v')
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .populate('uploadedBy', 'username')
+        .lean<PlacePhotoDocument[]>();
+
+      return toRecencyPage(photos, limit);
+    } catch (error) {
+      this.logger.error(`Error fetching photos: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch photos');
+    }
+  }
+
+  /**
+   * Set the cover photo of a place unless another upload set it first
+   */
+  private async setCoverPhoto(placeId: string, url: string): Promise<void> {
+    const result = await this.placeModel.updateOne(
+      { _id: placeId, coverPhotoUrl: { $exists: false } },
+      { $set: { coverPhotoUrl: url } },
+      { timestamps: false }
+    );
+
+    if (result.modifiedCount > 0) {
+      // Cached place results would keep showing a blank card
+      this.cache.clear();
+    }
+  }
+}
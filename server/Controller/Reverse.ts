@@ -0,0 +1,47 @@
+import pino from 'pino';
+import util from 'util';
+import type { ReverseGeocoder, ReverseGeocodeResult } from '../Service/ReverseGeocoder';
+import type { ElysiaContext, ApiResponse } from '../../types';
+import type { ReverseQueryInput } from '../schemas/validation';
+
+export class ReverseController {
+  public geocoder: ReverseGeocoder;
+  public logger: pino.Logger;
+
+  constructor(geocoder: ReverseGeocoder, logger: pino.Logger) {
+    this.geocoder = geocoder;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the city, state and country of a position from the stored administrative boundaries
+   * Responds 404 when no stored boundary contains the position
+   */
+  public async reverse(context: ElysiaContext): Promise<ApiResponse<ReverseGeocodeResult | null>> {
+    const { lat, lon } = context.query as unknown as ReverseQueryInput;
+
+    try {
+      this.logger.info(`Reverse geocoding: lat=${lat}, lon=${lon}`);
+
+      const result = await this.geocoder.reverse(lat, lon);
+
+      if (result.boundaries.length === 0) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'No administrative area found at these coordinates',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error reverse geocoding: ${util.inspect(error)}`);
+      throw new Error('Failed to reverse geocode');
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import pino from 'pino';
+import util from 'util';
+import { Model, Types, type FilterQuery } from 'mongoose';
+import { recencyCursorConditions, toRecencyPage, isDuplicateKeyError } from '../utils';
+import type {
+  PlaceDocument,
+  ReviewDocument,
+  ElysiaContext,
+  ApiResponse,
+  CursorPaginatedResponse
+} from '../../types';
+import type { ReviewCreateInput, ReviewQueryInput } from '../schemas/validation';
+
+export class ReviewController {
+  public reviewModel: Model<ReviewDocument>;
+  public placeModel: Model<PlaceDocument>;
+  public logger: pino.Logger;
+
+  constructor(reviewModel: Model<ReviewDocument>, placeModel: Model<PlaceDocument>, logger: pino.Logger) {
+    this.reviewModel = reviewModel;
+    this.placeModel = placeModel;
+    this.logger = logger;
+  }
+
+  /**
+   * Review a place as the authenticated user
+   * Users can review a place once; the place's rating aggregates are refreshed afterwards
+   */
+  public async createReview(context: ElysiaContext): Promise<ApiResponse<ReviewDocument | null>> {
+    const { id: placeId } = context.params;
+    const { rating, text } = context.body as ReviewCreateInput;
+
+    try {
+      this.logger.info(`Reviewing place ${placeId}: user=${context.currentUser?.id}, rating=${rating}`);
+
+      const placeExists = await this.placeModel.exists({ _id: placeId });
+      if (!placeExists) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'Place not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const review = await this.reviewModel.create({
+        place: placeId,
+        user: context.currentUser?.id,
+        rating,
+        text
+      });
+
+      await this.refreshPlaceRating(placeId);
+
+      context.set.status = 201;
+      return {
+        data: review.toJSON() as ReviewDocument,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (isDuplicateKeyError(error, 'unique_review_place_user')) {
+        context.set.status = 409;
+        return {
+          data: null,
+          error: 'Conflict',
+          message: 'You have already reviewed this place',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      this.logger.error(`Error creating review: ${util.inspect(error)}`);
+      throw new Error('Failed to create review');
+    }
+  }
+
+  /**
+   * Get the reviews of a place, newest first, paginated with an opaque cursor
+   */
+  public async getReviews(context: ElysiaContext): Promise<CursorPaginatedResponse<ReviewDocument> | ApiResponse<null>> {
+    try {
+      const { id: placeId } = context.params;
+      const { cursor, limit = 20 } = context.query as ReviewQueryInput;
+
+      this.logger.info(`Fetching reviews: place=${placeId}, cursor=${cursor ?? 'none'}, limit=${limit}`);
+
+      const filter: FilterQuery<ReviewDocument> = { place: new Types.ObjectId(placeId) };
+
+      if (cursor) {
+        const conditions = recencyCursorConditions(cursor);
+
+        if (!conditions) {
+          context.set.status = 400;
+          return {
+            data: null,
+            error: 'Validation Error',
+            message: 'Invalid cursor',
+            timestamp: new Date().toISOString()
+          };
+        }
+
+        filter.$or = conditions;
+      }
+
+      const reviews = await this.reviewModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .populate('user', 'username')
+        .lean<ReviewDocument[]>();
+
+      return toRecencyPage(reviews, limit);
+    } catch (error) {
+      this.logger.error(`Error fetching reviews: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch reviews');
+    }
+  }
+
+  /**
+   * Recompute the denormalized ratingAverage/ratingCount of a place from its reviews
+   */
+  private async refreshPlaceRating(placeId: string): Promise<void> {
+    const [stats] = await this.reviewModel.aggregate<{ ratingAverage: number; ratingCount: number }>([
+      { $match: { place: new Types.ObjectId(placeId) } },
+      {
+        $group: {
+          _id: '$place',
+          ratingAverage: { $avg: '$rating' },
+          ratingCount: { $sum: 1 }
+        }
+      }
+    ]);
+
+    await this.placeModel.updateOne(
+      { _id: placeId },
+      {
+        $set: {
+          ratingAverage: stats ? Math.round(stats.ratingAverage * 100) / 100 : 0,
+          ratingCount: stats?.ratingCount ?? 0
+        }
+      },
+      // updatedAt tracks freshness of the place data itself, not of its reviews
+      { timestamps: false }
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import pino from 'pino';
+import util from 'util';
+import { Model, Types, type FilterQuery } from 'mongoose';
+import { recencyCursorConditions, toRecencyPage } from '../utils';
+import type {
+  UserDocument,
+  CheckinDocument,
+  FollowDocument,
+  FriendHere,
+  ElysiaContext,
+  ApiResponse,
+  CursorPaginatedResponse
+} from '../../types';
+import type { CursorPaginationInput } from '../schemas/validation';
+
+// How far back check-ins count for "friends here"
+export const FRIENDS_HERE_DAYS = parseInt(process.env.FRIENDS_HERE_DAYS || '30', 10);
+const FRIENDS_HERE_LIMIT = 50;
+
+export class SocialController {
+  public followModel: Model<FollowDocument>;
+  public checkinModel: Model<CheckinDocument>;
+  public userModel: Model<UserDocument>;
+  public logger: pino.Logger;
+
+  constructor(
+    followModel: Model<FollowDocument>,
+    checkinModel: Model<CheckinDocument>,
+    userModel: Model<UserDocument>,
+    logger: pino.Logger
+  ) {
+    this.followModel = followModel;
+    this.checkinModel = checkinModel;
+    this.userModel = userModel;
+    this.logger = logger;
+  }
+
+  /**
+   * Follow a user as the authenticated caller
+   * Following someone twice is a no-op
+   */
+  public async follow(context: ElysiaContext): Promise<ApiResponse<{ following: boolean } | null>> {
+    const { id: targetId } = context.params;
+    const followerId = context.currentUser?.id;
+
+    try {
+      if (targetId === followerId) {
+        context.set.status = 400;
+        return {
+          data: null,
+          error: 'Validation Error',
+          message: 'You cannot follow yourself',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const targetExists = await this.userModel.exists({ _id: targetId });
+      if (!targetExists) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'User not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const result = await this.followModel.updateOne(
+        { follower: followerId, following: targetId },
+        { $setOnInsert: { follower: followerId, following: targetId } },
+        { upsert: true }
+      );
+
+      this.logger.info(`User ${followerId} follows ${targetId}`);
+
+      context.set.status = result.upsertedCount > 0 ? 201 : 200;
+      return {
+        data: { following: true },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error following user: ${util.inspect(error)}`);
+      throw new Error('Failed to follow user');
+    }
+  }
+
+  /**
+   * Stop following a user
+   */
+  public async unfollow(context: ElysiaContext): Promise<ApiResponse<{ following: boolean } | null>> {
+    const { id: targetId } = context.params;
+    const followerId = context.currentUser?.id;
+
+    try {
+      const result = await this.followModel.deleteOne({ follower: followerId, following: targetId });
+
+      if (result.deletedCount === 0) {
+        context.set.status = 404;
+        return {
+          data: null,
+          error: 'Not Found',
+          message: 'You are not following this user',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      this.logger.info(`User ${followerId} unfollowed ${targetId}`);
+
+      return {
+        data: { following: false },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error unfollowing user: ${util.inspect(error)}`);
+      throw new Error('Failed to unfollow user');
+    }
+  }
+
+  /**
+   * Recent check-ins of everyone the caller follows, newest first, with places embedded
+   * Flagged check-ins are left out, like for badges, and followers see neither the check-in
+   * coordinates nor the anti-spoofing assessment.
+   */
+  public async getFeed(context: ElysiaContext): Promise<CursorPaginatedResponse<CheckinDocument> | ApiResponse<null>> {
+    try {
+      const { cursor, limit = 20 } = context.query as CursorPaginationInput;
+
+      this.logger.info(`Fetching feed: user=${context.currentUser?.id}, cursor=${cursor ?? 'none'}, limit=${limit}`);
+
+      const followingIds = await this.getFollowingIds(context.currentUser?.id);
+
+      if (followingIds.length === 0) {
+        return { limit, results: [], nextCursor: null, hasMore: false };
+      }
+
+      const filter: FilterQuery<CheckinDocument> = {
+        user: { $in: followingIds },
+        // Check-ins from before fraud detection have no flags
+        'flags.0': { $exists: false }
+      };
+
+      if (cursor) {
+        const conditions = recencyCursorConditions(cursor);
+
+        if (!conditions) {
+          context.set.status = 400;
+          return {
+            data: null,
+            error: 'Validation Error',
+            message: 'Invalid cursor',
+            timestamp: new Date().toISOString()
+          };
+        }
+
+        filter.$or = conditions;
+      }
+
+      const checkins = await this.checkinModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .populate('place', 'name category coordinates address')
+        .populate('user', 'username')
+        .select('-fraudScore -flags -coordinates')
+        .lean<CheckinDocument[]>();
+
+      return toRecencyPage(checkins, limit);
+    } catch (error) {
+      this.logger.error(`Error fetching feed: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch feed');
+    }
+  }
+
+  /**
+   * Followed users who checked in at a place during the last FRIENDS_HERE_DAYS days
+   */
+  public async getFriendsHere(context: ElysiaContext): Promise<ApiResponse<FriendHere[]>> {
+    try {
+      const { id: placeId } = context.params;
+      const since = new Date(Date.now() - FRIENDS_HERE_DAYS * 24 * 60 * 60 * 1000);
+
+      this.logger.info(`Fetching friends at place ${placeId} for user ${context.currentUser?.id}`);
+
+      const followingIds = await this.getFollowingIds(context.currentUser?.id);
+
+      if (followingIds.length === 0) {
+        return { data: [], timestamp: new Date().toISOString() };
+      }
+
+      const friends = await this.checkinModel.aggregate<FriendHere>([
+        {
+          $match: {
+            place: new Types.ObjectId(placeId),
+            user: { $in: followingIds },
+            createdAt: { $gte: since }
+          }
+        },
+        {
+          $group: {
+            _id: '$user',
+            checkinCount: { $sum: 1 },
+            lastCheckinAt: { $max: '$createdAt' }
+          }
+        },
+        { $sort: { lastCheckinAt: -1 } },
+        { $limit: FRIENDS_HERE_LIMIT },
+        {
+          $lookup: {
+            from: this.userModel.collection.name,
+            localField: '_id',
+            foreignField: '_id',
+            as: 'user',
+            pipeline: [{ $project: { username: 1 } }]
+          }
+        },
+        { $unwind: '$user' },
+        { $project: { _id: 0, user: 1, checkinCount: 1, lastCheckinAt: 1 } }
+      ]);
+
+      return {
+        data: friends,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching friends here: ${util.inspect(error)}`);
+      throw new Error('Failed to fetch friends here');
+    }
+  }
+
+  private async getFollowingIds(userId: string | undefined): Promise<Types.ObjectId[]> {
+    return await this.followModel.find({ follower: userId }).distinct('following') as Types.ObjectId[];
+  }
+}
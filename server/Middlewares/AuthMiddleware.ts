@@ -0,0 +1,74 @@
+import { Elysia } from 'elysia';
+import type { AuthUser } from '../../types';
+import TokenService from '../Service/TokenService';
+import getUserModel from '../Model/User';
+import { logger } from '../logger';
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+function extractBearerToken(authorization: string | undefined): string | null {
+  if (!authorization) return null;
+
+  const [scheme, token] = authorization.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
+
+/**
+ * Elysia plugin deriving `currentUser` from the bearer token
+ * Anonymous requests and invalid tokens derive `currentUser: null`;
+ * use `requireAuth` on routes that need an authenticated caller
+ */
+export const authPlugin = new Elysia({ name: 'auth' })
+  .derive({ as: 'scoped' }, async ({ headers }): Promise<{ currentUser: AuthUser | null }> => {
+    const token = extractBearerToken(headers['authorization']);
+    if (!token) {
+      return { currentUser: null };
+    }
+
+    const tokenUser = await TokenService.verify(token);
+    if (!tokenUser) {
+      return { currentUser: null };
+    }
+
+    try {
+      // Make sure the account still exists, tokens outlive deleted users
+      const user = await getUserModel().findById(tokenUser.id).lean();
+      return { currentUser: user ? { id: String(user._id), username: user.username, role: user.role ?? 'user' } : null };
+    } catch (error) {
+      logger.error('Failed to load authenticated user:', error);
+      return { currentUser: null };
+    }
+  });
+
+/**
+ * beforeHandle guard rejecting anonymous callers with 401
+ */
+export const requireAuth = ({ currentUser, set }: { currentUser: AuthUser | null; set: any }) => {
+  if (!currentUser) {
+    set.status = 401;
+    set.headers['WWW-Authenticate'] = 'Bearer';
+    return {
+      error: 'Unauthorized',
+      message: 'Authentication required',
+      timestamp: new Date().toISOString()
+    };
+  }
+};
+
+/**
+ * beforeHandle guard restricting a route to administrators
+ */
+export const requireAdmin = ({ currentUser, set }: { currentUser: AuthUser | null; set: any }) => {
+  const unauthenticated = requireAuth({ currentUser, set });
+  if (unauthenticated) return unauthenticated;
+
+  if (currentUser?.role !== 'admin') {
+    set.status = 403;
+    return {
+      error: 'Forbidden',
+      message: 'Administrator role required',
+      timestamp: new Date().toISOString()
+    };
+  }
+};
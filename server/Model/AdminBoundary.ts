@@ -0,0 +1,81 @@
+/**
+ * Administrative boundary model
+ * Countries, states and cities imported from OSM boundaries (scripts/import-boundaries.ts),
+ * used to reverse geocode coordinates without calling an external service
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { AdminBoundaryDocument, AdminBoundaryModel } from '../../types';
+
+const adminBoundarySchema = new Schema<AdminBoundaryDocument>({
+  name: {
+    type: String,
+    required: true
+  },
+  // Localized names keyed by language, from OSM `name:<language>` tags
+  names: {
+    type: Map,
+    of: String
+  },
+  adminLevel: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 11
+  },
+  countryCode: {
+    type: String,
+    uppercase: true
+  },
+  timezone: {
+    type: String
+  },
+  geometry: {
+    type: {
+      type: String,
+      enum: ['Polygon', 'MultiPolygon'],
+      required: true
+    },
+    coordinates: {
+      type: Schema.Types.Mixed,
+      required: true
+    }
+  },
+  osmType: {
+    type: String,
+    enum: ['node', 'way', 'relation']
+  },
+  osmId: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+adminBoundarySchema.index({ geometry: '2dsphere' });
+adminBoundarySchema.index(
+  { osmType: 1, osmId: 1 },
+  { unique: true, name: 'unique_boundary_osm_element', partialFilterExpression: { osmId: { $exists: true } } }
+);
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns AdminBoundaryModel
+ */
+export const getAdminBoundaryModel = (): AdminBoundaryModel => {
+  const modelExists = mongoose.modelNames().includes('AdminBoundary');
+  const model = modelExists
+    ? mongoose.model<AdminBoundaryDocument>('AdminBoundary')
+    : mongoose.model<AdminBoundaryDocument>('AdminBoundary', adminBoundarySchema);
+
+  return model as AdminBoundaryModel;
+};
+
+export default getAdminBoundaryModel;
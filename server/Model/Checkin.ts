@@ -0,0 +1,99 @@
+/**
+ * Check-in model
+ * Records a user's verified presence at a Place, together with the position they reported
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { CheckinDocument, CheckinModel } from '../../types';
+import { GeoJSONPointSchema } from '../schemas/validation';
+
+const checkinSchema = new Schema<CheckinDocument>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  place: {
+    type: Schema.Types.ObjectId,
+    ref: 'Place',
+    required: true,
+    index: true
+  },
+  // Category of the place at check-in time, denormalized for timeline filters
+  category: {
+    type: String,
+    required: true
+  },
+  coordinates: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      validate: {
+        validator: function(v: number[]) {
+          return GeoJSONPointSchema.shape.coordinates.safeParse(v).success;
+        },
+        message: 'Invalid coordinates: must be [longitude, latitude] within valid ranges'
+      }
+    }
+  },
+  // Distance in meters between the reported position and the place at check-in time
+  distance: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  message: {
+    type: String,
+    maxlength: 280
+  },
+  // Anti-spoofing assessment, see FraudDetectionService
+  fraudScore: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 1
+  },
+  flags: {
+    type: [String],
+    enum: ['impossible_travel', 'high_velocity', 'rapid_fire'],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+checkinSchema.index({ coordinates: '2dsphere' });
+checkinSchema.index({ place: 1, createdAt: -1 });
+checkinSchema.index({ user: 1, createdAt: -1, _id: -1 });
+checkinSchema.index({ user: 1, category: 1, createdAt: -1 });
+checkinSchema.index({ flags: 1, createdAt: -1 });
+// Per-category leaderboards
+checkinSchema.index({ category: 1, createdAt: -1 });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns CheckinModel
+ */
+export const getCheckinModel = (): CheckinModel => {
+  const modelExists = mongoose.modelNames().includes('Checkin');
+  const model = modelExists
+    ? mongoose.model<CheckinDocument>('Checkin')
+    : mongoose.model<CheckinDocument>('Checkin', checkinSchema);
+
+  return model as CheckinModel;
+};
+
+export default getCheckinModel;
@@ -0,0 +1,68 @@
+/**
+ * Coverage tile model
+ * One document per geohash tile fetched from a provider, including tiles without any place,
+ * so areas already fetched are not queried again while they are fresh
+ * Tiles also count how often they are queried and hold the lease of the instance refreshing them.
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { CoverageTileDocument, CoverageTileModel } from '../../types';
+
+const coverageTileSchema = new Schema<CoverageTileDocument>({
+  source: {
+    type: String,
+    enum: ['overpass', 'geojson', 'nominatim'],
+    required: true
+  },
+  geohash: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  fetchedAt: {
+    type: Date
+  },
+  placeCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  queryCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastQueriedAt: {
+    type: Date
+  },
+  refreshingUntil: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+coverageTileSchema.index({ source: 1, geohash: 1 }, { unique: true, name: 'unique_coverage_tile' });
+coverageTileSchema.index({ source: 1, queryCount: -1, lastQueriedAt: 1 }, { name: 'popular_coverage_tiles' });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns CoverageTileModel
+ */
+export const getCoverageTileModel = (): CoverageTileModel => {
+  const modelExists = mongoose.modelNames().includes('CoverageTile');
+  const model = modelExists
+    ? mongoose.model<CoverageTileDocument>('CoverageTile')
+    : mongoose.model<CoverageTileDocument>('CoverageTile', coverageTileSchema);
+
+  return model as CoverageTileModel;
+};
+
+export default getCoverageTileModel;
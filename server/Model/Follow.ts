@@ -0,0 +1,47 @@
+/**
+ * Follow model
+ * Directed relation: `follower` sees the check-ins of `following` in their feed
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { FollowDocument, FollowModel } from '../../types';
+
+const followSchema = new Schema<FollowDocument>({
+  follower: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  following: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+followSchema.index({ follower: 1, following: 1 }, { unique: true, name: 'unique_follow' });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns FollowModel
+ */
+export const getFollowModel = (): FollowModel => {
+  const modelExists = mongoose.modelNames().includes('Follow');
+  const model = modelExists
+    ? mongoose.model<FollowDocument>('Follow')
+    : mongoose.model<FollowDocument>('Follow', followSchema);
+
+  return model as FollowModel;
+};
+
+export default getFollowModel;
@@ -9,15 +9,44 @@ import { PlaceDocumentSchema, CoordinateSchema } from '../schemas/validation';
 
 // Enhanced schema with better validation and indexing
 const placeSchema = new Schema<PlaceDocument>({
+  // Canonical name, in the local language; unique with the coordinates
   name: { 
     type: String, 
     required: true,
     index: true 
   },
+  // Localized names keyed by language, e.g. `pt` or `ja`, from OSM `name:<language>` tags
+  names: {
+    type: Map,
+    of: String
+  },
+  // Normalized words of the canonical and localized names and their trigrams, see PlaceSearch
+  nameTokens: {
+    type: [String],
+    index: true,
+    select: false
+  },
+  nameTrigrams: {
+    type: [String],
+    index: true,
+    select: false
+  },
+  // Display address, formatted from addressComponents
   address: { 
     type: String,
     default: 'Unknown address' 
   },
+  // From OSM `addr:*` tags, gaps filled by reverse geocoding, see ReverseGeocoder
+  addressComponents: {
+    type: new Schema({
+      housenumber: String,
+      street: String,
+      city: String,
+      postcode: String,
+      state: String,
+      country: { type: String, uppercase: true }
+    }, { _id: false })
+  },
   coordinates: {
     type: {
       type: String,
@@ -41,17 +70,82 @@ const placeSchema = new Schema<PlaceDocument>({
       }
     }
   },
+  // Category ID from server/data/categories.json
   category: {
     type: String,
     required: true,
     index: true
   },
+  // The category and its ancestors, root first, to filter on parent categories
+  categoryPath: {
+    type: [String],
+    index: true
+  },
+  // ISO 3166-1 alpha-2 country code, from OSM `addr:country` when tagged
+  country: {
+    type: String,
+    uppercase: true
+  },
   source: { 
     type: String, 
-    enum: ['overpass', 'mongodb'], 
+    enum: ['overpass', 'mongodb', 'geojson', 'nominatim'],
     required: true,
     index: true
   },
+  // Identity of the OpenStreetMap element the place comes from, see https://www.openstreetmap.org/<osmType>/<osmId>
+  osmType: {
+    type: String,
+    enum: ['node', 'way', 'relation']
+  },
+  osmId: {
+    type: Number
+  },
+  osmVersion: {
+    type: Number
+  },
+  // Weekly schedule parsed from the OSM `opening_hours` tag, see OpeningHoursSchema
+  openingHours: {
+    type: new Schema({
+      raw: { type: String, required: true },
+      // Intervals of each weekday as [open, close] minutes, Monday first
+      week: { type: Schema.Types.Mixed, required: true },
+      publicHolidays: Schema.Types.Mixed
+    }, { _id: false })
+  },
+  // IANA time zone the opening hours are evaluated in
+  timezone: {
+    type: String
+  },
+  // Denormalized from the place's reviews, see ReviewController
+  ratingAverage: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5,
+    index: true
+  },
+  ratingCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Unflagged check-ins at the place, see CheckinController
+  checkinCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+    index: true
+  },
+  // Medium thumbnail of the place's first photo, see PhotoController
+  coverPhotoUrl: {
+    type: String
+  },
+  // Author of user-contributed places, unset for places from Overpass
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  },
   updatedAt: { 
     type: Date, 
     default: Date.now,
@@ -73,6 +167,11 @@ const placeSchema = new Schema<PlaceDocument>({
 placeSchema.index({ coordinates: '2dsphere' });
 // Enhanced unique index to prevent duplicate places from different sources
 placeSchema.index({ name: 1, 'coordinates.coordinates.0': 1, 'coordinates.coordinates.1': 1 }, { unique: true, name: 'unique_place_name_coords' });
+// One place per OSM element, renamed or moved elements update their place
+placeSchema.index(
+  { osmType: 1, osmId: 1 },
+  { unique: true, name: 'unique_osm_element', partialFilterExpression: { osmId: { $exists: true } } }
+);
 
 /**
  * Enhanced model initialization with proper typing
@@ -0,0 +1,90 @@
+/**
+ * Place photo model
+ * Metadata of a photo uploaded to a place; the files themselves live behind the StorageAdapter
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { PlacePhotoDocument, PlacePhotoModel, PhotoVariant } from '../../types';
+
+const photoVariantSchema = new Schema<PhotoVariant>({
+  name: { type: String, required: true },
+  storageKey: { type: String, required: true },
+  url: { type: String, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true }
+}, { _id: false });
+
+const placePhotoSchema = new Schema<PlacePhotoDocument>({
+  place: {
+    type: Schema.Types.ObjectId,
+    ref: 'Place',
+    required: true
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  contentType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  width: {
+    type: Number,
+    required: true
+  },
+  height: {
+    type: Number,
+    required: true
+  },
+  variants: {
+    type: [photoVariantSchema],
+    default: []
+  },
+  caption: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      // Storage keys are an implementation detail, clients use the URLs
+      delete ret.storageKey;
+      ret.variants?.forEach((variant: Partial<PhotoVariant>) => delete variant.storageKey);
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+placePhotoSchema.index({ place: 1, createdAt: -1, _id: -1 });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns PlacePhotoModel
+ */
+export const getPlacePhotoModel = (): PlacePhotoModel => {
+  const modelExists = mongoose.modelNames().includes('PlacePhoto');
+  const model = modelExists
+    ? mongoose.model<PlacePhotoDocument>('PlacePhoto')
+    : mongoose.model<PlacePhotoDocument>('PlacePhoto', placePhotoSchema);
+
+  return model as PlacePhotoModel;
+};
+
+export default getPlacePhotoModel;
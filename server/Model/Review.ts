@@ -0,0 +1,62 @@
+/**
+ * Review model
+ * A 1-5 rating with optional text, at most one per user and place
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { ReviewDocument, ReviewModel } from '../../types';
+
+const reviewSchema = new Schema<ReviewDocument>({
+  place: {
+    type: Schema.Types.ObjectId,
+    ref: 'Place',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Rating must be an integer between 1 and 5'
+    }
+  },
+  text: {
+    type: String,
+    maxlength: 2000
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+reviewSchema.index({ place: 1, user: 1 }, { unique: true, name: 'unique_review_place_user' });
+reviewSchema.index({ place: 1, createdAt: -1, _id: -1 });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns ReviewModel
+ */
+export const getReviewModel = (): ReviewModel => {
+  const modelExists = mongoose.modelNames().includes('Review');
+  const model = modelExists
+    ? mongoose.model<ReviewDocument>('Review')
+    : mongoose.model<ReviewDocument>('Review', reviewSchema);
+
+  return model as ReviewModel;
+};
+
+export default getReviewModel;
@@ -0,0 +1,57 @@
+/**
+ * User account model
+ * Passwords are only ever stored as hashes and never leave the API
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { UserDocument, UserModel } from '../../types';
+
+const userSchema = new Schema<UserDocument>({
+  username: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  passwordHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      delete ret.passwordHash;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns UserModel
+ */
+export const getUserModel = (): UserModel => {
+  const modelExists = mongoose.modelNames().includes('User');
+  const model = modelExists
+    ? mongoose.model<UserDocument>('User')
+    : mongoose.model<UserDocument>('User', userSchema);
+
+  return model as UserModel;
+};
+
+export default getUserModel;
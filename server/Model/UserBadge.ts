@@ -0,0 +1,48 @@
+/**
+ * User badge model
+ * One document per badge awarded to a user; definitions live in server/data/badges.json
+ */
+import mongoose, { Schema } from 'mongoose';
+import type { UserBadgeDocument, UserBadgeModel } from '../../types';
+
+const userBadgeSchema = new Schema<UserBadgeDocument>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  badgeId: {
+    type: String,
+    required: true
+  },
+  awardedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      ret.id = ret._id;
+      return ret;
+    }
+  }
+});
+
+// Indexes
+userBadgeSchema.index({ user: 1, badgeId: 1 }, { unique: true, name: 'unique_user_badge' });
+
+/**
+ * Model initialization, reusing the compiled model when it already exists
+ * @returns UserBadgeModel
+ */
+export const getUserBadgeModel = (): UserBadgeModel => {
+  const modelExists = mongoose.modelNames().includes('UserBadge');
+  const model = modelExists
+    ? mongoose.model<UserBadgeDocument>('UserBadge')
+    : mongoose.model<UserBadgeDocument>('UserBadge', userBadgeSchema);
+
+  return model as UserBadgeModel;
+};
+
+export default getUserBadgeModel;
@@ -0,0 +1,139 @@
+/**
+ * Elysia routes for account registration and login
+ * Successful calls return a signed JWT to be sent back as `Authorization: Bearer <token>`
+ */
+
+import { Elysia } from 'elysia';
+import { AuthController } from '../Controller/Auth';
+import { RegisterSchema, LoginSchema } from '../schemas/validation';
+import { authPlugin, requireAuth } from '../Middlewares/AuthMiddleware';
+import getUserModel from '../Model/User';
+import { logger } from '../logger';
+
+// Initialize models and controllers
+const UserModel = getUserModel();
+
+/**
+ * Creates Elysia routes for authentication endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with authentication routes
+ */
+export const createAuthRoutes = (
+  app: Elysia,
+) => {
+  const controller = new AuthController(UserModel, logger);
+
+  return app
+    .use(authPlugin)
+
+    // POST /auth/register - Create an account
+    .post('/auth/register', async ({ body, set, headers, params }) => {
+      const validatedBody = RegisterSchema.safeParse(body);
+
+      if (!validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid registration payload',
+          details: validatedBody.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: params || {},
+          body: validatedBody.data,
+          headers: headers || {},
+          set
+        };
+
+        return await controller.register(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to register user',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Auth'],
+        summary: 'Register an account',
+        description: 'Create a user account and return it with a signed JWT'
+      }
+    })
+
+    // POST /auth/login - Exchange credentials for a token
+    .post('/auth/login', async ({ body, set, headers, params }) => {
+      const validatedBody = LoginSchema.safeParse(body);
+
+      if (!validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid login payload',
+          details: validatedBody.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: params || {},
+          body: validatedBody.data,
+          headers: headers || {},
+          set
+        };
+
+        return await controller.login(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to log in',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Auth'],
+        summary: 'Log in',
+        description: 'Exchange email and password for a signed JWT'
+      }
+    })
+
+    // GET /auth/me - Current account
+    .get('/auth/me', async ({ set, headers, params, currentUser }) => {
+      try {
+        const context = {
+          query: {},
+          params: params || {},
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.me(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch current user',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Auth'],
+        summary: 'Get the current user',
+        description: 'Return the account of the authenticated caller',
+        security: [{ bearerAuth: [] }]
+      }
+    });
+};
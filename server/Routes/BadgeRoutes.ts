@@ -0,0 +1,96 @@
+/**
+ * Elysia routes for badges
+ * Badges are awarded on check-in from the rules in server/data/badges.json
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { BadgeController } from '../Controller/Badge';
+import { getBadgeService } from '../Service/BadgeService';
+import getUserBadgeModel from '../Model/UserBadge';
+import getUserModel from '../Model/User';
+import { logger } from '../logger';
+
+// Initialize models and controllers
+const UserBadgeModel = getUserBadgeModel();
+const UserModel = getUserModel();
+
+/**
+ * Creates Elysia routes for badge endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with badge routes
+ */
+export const createBadgeRoutes = (
+  app: Elysia,
+) => {
+  const controller = new BadgeController(UserBadgeModel, UserModel, getBadgeService(), logger);
+
+  return app
+    // GET /badges - Every badge that can be earned
+    .get('/badges', async ({ set, headers }) => {
+      try {
+        const context = {
+          query: {},
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getBadges(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch badges',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Badges'],
+        summary: 'List badges',
+        description: 'Every badge that can be earned by checking in'
+      }
+    })
+
+    // GET /users/:id/badges - Badges a user has earned
+    .get('/users/:id/badges', async ({ params, set, headers }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getUserBadges(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch badges',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Badges'],
+        summary: "Get a user's badges",
+        description: 'Badges a user has earned, most recently awarded first',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ]
+      }
+    });
+};
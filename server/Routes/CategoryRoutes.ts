@@ -0,0 +1,67 @@
+/**
+ * Elysia routes for place categories
+ * Categories are defined in server/data/categories.json
+ */
+
+import { Elysia } from 'elysia';
+import { CategoryController } from '../Controller/Category';
+import { getCategoryTaxonomy } from '../Service/CategoryTaxonomy';
+import { CategoryQuerySchema } from '../schemas/validation';
+import { logger } from '../logger';
+
+/**
+ * Creates Elysia routes for category endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with category routes
+ */
+export const createCategoryRoutes = (
+  app: Elysia,
+) => {
+  const controller = new CategoryController(getCategoryTaxonomy(), logger);
+
+  return app
+    // GET /categories - Category tree to build place filters against
+    .get('/categories', async ({ query, set, headers }) => {
+      const validatedQuery = CategoryQuerySchema.safeParse({
+        locale: query.locale || undefined
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getCategories(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch categories',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Categories'],
+        summary: 'List categories',
+        description: 'Hierarchical place categories with icons and labels in the requested locale (English by default). Place `category` values are the IDs of this tree',
+        parameters: [
+          { name: 'locale', in: 'query', required: false, schema: { type: 'string', example: 'pt-BR' } }
+        ]
+      }
+    });
+};
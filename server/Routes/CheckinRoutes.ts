@@ -0,0 +1,280 @@
+/**
+ * Elysia routes for check-ins
+ * The server is the source of truth for proximity: every check-in is verified
+ * against the place coordinates before it is stored
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { CheckinController } from '../Controller/Checkin';
+import {
+  CheckinCreateSchema,
+  CheckinTimelineQuerySchema,
+  FlaggedCheckinQuerySchema
+} from '../schemas/validation';
+import { authPlugin, requireAuth, requireAdmin } from '../Middlewares/AuthMiddleware';
+import getCheckinModel from '../Model/Checkin';
+import getPlaceModel from '../Model/Place';
+import { getBadgeService } from '../Service/BadgeService';
+import { logger } from '../logger';
+
+// Initialize models and controllers
+const CheckinModel = getCheckinModel();
+const PlaceModel = getPlaceModel();
+
+// Timeline query parameters shared by the user and caller timelines
+const timelineParameters = [
+  { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Opaque cursor from a previous page' },
+  { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 20 } },
+  { name: 'from', in: 'query', schema: { type: 'string', format: 'date-time' } },
+  { name: 'to', in: 'query', schema: { type: 'string', format: 'date-time' } },
+  { name: 'category', in: 'query', schema: { type: 'string' } }
+] as const;
+
+/**
+ * Validate and transform timeline query parameters
+ */
+const parseTimelineQuery = (query: Record<string, string | undefined>) => CheckinTimelineQuerySchema.safeParse({
+  ...query,
+  limit: query.limit ? parseInt(query.limit) : 20
+});
+
+/**
+ * Creates Elysia routes for check-in endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with check-in routes
+ */
+export const createCheckinRoutes = (
+  app: Elysia,
+) => {
+  const controller = new CheckinController(CheckinModel, PlaceModel, logger, undefined, getBadgeService());
+
+  return app
+    .use(authPlugin)
+
+    // POST /checkins - Check in at a place
+    .post('/checkins', async ({ body, set, headers, params, currentUser }) => {
+      const validatedBody = CheckinCreateSchema.safeParse(body);
+
+      if (!validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid check-in payload',
+          details: validatedBody.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: params || {},
+          body: validatedBody.data,
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.createCheckin(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to create check-in',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Checkins'],
+        summary: 'Check in at a place',
+        description: 'Create a check-in at a place. Rejected with 422 when the given position is too far from the place',
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /checkins/:id - Get a check-in by BSON ID
+    .get('/checkins/:id', async ({ params, set, headers, currentUser }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getCheckinById(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch check-in',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Checkins'],
+        summary: 'Get a check-in by ID',
+        description: 'Retrieve a check-in by its MongoDB BSON ID, with its place populated. Coordinates are only returned to the user and administrators, the anti-spoofing `fraudScore` and `flags` to administrators',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ]
+      }
+    })
+
+    // GET /users/:id/checkins - A user's check-in timeline
+    .get('/users/:id/checkins', async ({ params, query, set, headers, currentUser }) => {
+      const validatedQuery = parseTimelineQuery(query);
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid user ID or query parameters',
+          details: validatedQuery.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getUserCheckins(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch check-ins',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Checkins'],
+        summary: "Get a user's check-in timeline",
+        description: 'Reverse-chronological check-ins of a user with their places, paginated with an opaque cursor. Coordinates are only returned to the user and administrators, the anti-spoofing `fraudScore` and `flags` to administrators',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          ...timelineParameters
+        ]
+      }
+    })
+
+    // GET /me/checkins - The caller's check-in timeline
+    .get('/me/checkins', async ({ query, set, headers, currentUser }) => {
+      const validatedQuery = parseTimelineQuery(query);
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getUserCheckins(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch check-ins',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Checkins'],
+        summary: 'Get my check-in timeline',
+        description: 'Reverse-chronological check-ins of the authenticated caller, paginated with an opaque cursor',
+        parameters: [...timelineParameters],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /admin/checkins/flagged - Check-ins flagged by the anti-spoofing checks
+    .get('/admin/checkins/flagged', async ({ query, set, headers, currentUser }) => {
+      const validatedQuery = FlaggedCheckinQuerySchema.safeParse({
+        ...query,
+        limit: query.limit ? parseInt(query.limit as string) : 20,
+        minScore: query.minScore ? parseFloat(query.minScore as string) : undefined
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getFlaggedCheckins(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch flagged check-ins',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAdmin,
+      detail: {
+        tags: ['Admin'],
+        summary: 'List flagged check-ins',
+        description: 'Check-ins flagged for impossible travel or rapid-fire activity, newest first',
+        parameters: [
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'flag', in: 'query', schema: { type: 'string', enum: ['impossible_travel', 'high_velocity', 'rapid_fire'] } },
+          { name: 'minScore', in: 'query', schema: { type: 'number', minimum: 0, maximum: 1 } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    });
+};
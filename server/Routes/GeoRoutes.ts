@@ -9,14 +9,27 @@
  */
 
 import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
 import { GeoPlaceController } from '../Controller/Geoplace';
 import { 
   PlaceQuerySchema, 
   PaginationSchema,
+  PlaceCreateSchema,
+  OsmElementParamsSchema,
+  PlaceUpdateSchema,
+  PlaceLanguageQuerySchema,
+  PlaceSearchQuerySchema,
+  PlaceAutocompleteQuerySchema,
+  PlaceAreaQuerySchema,
+  BoundingBoxQuerySchema,
+  GeoJSONAreaSchema,
+  MAX_AREA_KM2,
   type PlaceQueryInput,
   type PaginationInput 
 } from '../schemas/validation';
 import getPlaceModel from '../Model/Place';
+import { createPlaceProviders } from '../Service/PlaceProvider';
+import { authPlugin, requireAuth } from '../Middlewares/AuthMiddleware';
 import { logger } from '../logger';
 import { cache } from '..';
 
@@ -25,6 +38,46 @@ const DEFAULT_RADIUS = 1000;
 const API_RATE_LIMIT = 100;
 const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
 
+// Swagger documentation of the `lang` query parameter of endpoints returning places
+const LANG_PARAMETER = {
+  name: 'lang',
+  in: 'query',
+  description: 'Language of place names, e.g. `pt-BR`; takes precedence over the Accept-Language header',
+  schema: { type: 'string' }
+} as const;
+
+// Comma-separated query parameter, e.g. `categories=cafe,bakery`
+const listOf = (value: string | undefined) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+// Query of the search endpoints before validation, `lat` and `lon` being optional
+const searchQueryOf = (query: Record<string, string | undefined>) => ({
+  q: query.q,
+  lat: query.lat ? parseFloat(query.lat) : undefined,
+  lon: query.lon ? parseFloat(query.lon) : undefined,
+  limit: query.limit ? parseInt(query.limit) : undefined,
+  lang: query.lang || undefined
+});
+
+// Filters and limit of the area searches before validation
+const areaQueryOf = (query: Record<string, string | undefined>) => ({
+  limit: query.limit ? parseInt(query.limit) : undefined,
+  minRating: query.minRating ? parseFloat(query.minRating) : undefined,
+  categories: listOf(query.categories),
+  excludeCategories: listOf(query.excludeCategories),
+  source: listOf(query.source),
+  lang: query.lang || undefined
+});
+
+// Swagger documentation of the query parameters shared by the area searches
+const AREA_PARAMETERS = [
+  { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 500, default: 100 } },
+  { name: 'minRating', in: 'query', schema: { type: 'number', minimum: 1, maximum: 5 } },
+  { name: 'categories', in: 'query', description: 'Comma-separated category IDs, each including the categories below it', schema: { type: 'string' } },
+  { name: 'excludeCategories', in: 'query', description: 'Comma-separated category IDs left out, with the categories below them', schema: { type: 'string' } },
+  { name: 'source', in: 'query', description: 'Comma-separated sources, `mongodb` being user-contributed places', schema: { type: 'string' } },
+  LANG_PARAMETER
+] as const;
+
 // Rate limiting store (simple in-memory implementation)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
@@ -70,9 +123,10 @@ const PlaceModel = getPlaceModel();
 export const createGeoPlaceRoutes = (
   app: Elysia,
 ) => {
-  const controller = new GeoPlaceController(PlaceModel, cache, logger);
+  const controller = new GeoPlaceController(PlaceModel, cache, logger, createPlaceProviders());
 
-  return app.onBeforeHandle(rateLimit(API_RATE_LIMIT, RATE_LIMIT_WINDOW))
+  return app.use(authPlugin)
+  .onBeforeHandle(rateLimit(API_RATE_LIMIT, RATE_LIMIT_WINDOW))
   .onError(({ code, error, set }) => {
     logger.error('Route error:', { code, error });
     
@@ -102,9 +156,16 @@ export const createGeoPlaceRoutes = (
           lat: parseFloat(query.lat as string),
           lon: parseFloat(query.lon as string),
           radius: query.radius ? parseInt(query.radius as string) : DEFAULT_RADIUS,
-          page: query.page ? parseInt(query.page as string) : 1,
+          cursor: query.cursor || undefined,
           limit: query.limit ? parseInt(query.limit as string) : 10,
-          cache: query.cache === 'true'
+          cache: query.cache === 'true',
+          minRating: query.minRating ? parseFloat(query.minRating as string) : undefined,
+          openNow: query.openNow === 'true' || undefined,
+          openAt: query.openAt || undefined,
+          categories: listOf(query.categories),
+          excludeCategories: listOf(query.excludeCategories),
+          source: listOf(query.source),
+          sort: query.sort || undefined
         });
         
         // Create context object for controller
@@ -131,34 +192,282 @@ export const createGeoPlaceRoutes = (
        detail: {
         tags: ['Places'],
         summary: 'Search for places by coordinates',
-        description: 'Find places within a specified radius of given coordinates with pagination support',
+        description: 'Find places within a specified radius of given coordinates, nearest first unless sorted otherwise. Pages follow `nextCursor` while `hasMore`; `total` is an estimate until the last page. Places with known opening hours have `openNow` and `nextChange`',
         parameters: [
           { name: 'lat', in: 'query', required: true, schema: { type: 'number', minimum: -90, maximum: 90 } },
           { name: 'lon', in: 'query', required: true, schema: { type: 'number', minimum: -180, maximum: 180 } },
           { name: 'radius', in: 'query', schema: { type: 'number', minimum: 100, maximum: 5000, default: DEFAULT_RADIUS } },
-          { name: 'page', in: 'query', schema: { type: 'number', minimum: 1, default: 1 } },
+          { name: 'cursor', in: 'query', description: 'Opaque `nextCursor` of the previous page', schema: { type: 'string' } },
           { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 10 } },
-          { name: 'cache', in: 'query', schema: { type: 'boolean', default: false } }
+          { name: 'cache', in: 'query', schema: { type: 'boolean', default: false } },
+          { name: 'minRating', in: 'query', schema: { type: 'number', minimum: 1, maximum: 5 } },
+          { name: 'openNow', in: 'query', description: 'Only places open now; places with unknown opening hours are left out', schema: { type: 'boolean' } },
+          { name: 'openAt', in: 'query', description: 'Only places open at this time, e.g. `2025-06-01T20:00:00Z`', schema: { type: 'string', format: 'date-time' } },
+          { name: 'categories', in: 'query', description: 'Comma-separated category IDs, each including the categories below it, e.g. `cafe,bakery`', schema: { type: 'string' } },
+          { name: 'excludeCategories', in: 'query', description: 'Comma-separated category IDs left out, with the categories below them', schema: { type: 'string' } },
+          { name: 'source', in: 'query', description: 'Comma-separated sources, `mongodb` being user-contributed places; providers of other sources are not queried', schema: { type: 'string', example: 'overpass,mongodb' } },
+          { name: 'sort', in: 'query', description: '`distance`, nearest first; `popularity`, most checked-in first; `rating`, best rated first; `recent`, most recently updated first; `relevance`, notable places near the point first. Places ranking the same are ordered by distance', schema: { type: 'string', enum: ['distance', 'popularity', 'rating', 'recent', 'relevance'], default: 'distance' } },
+          LANG_PARAMETER
         ]
       }
     })
     
+    // GET /places/search - Search places by name
+    .get('/places/search', async ({ query, set, headers }) => {
+      const validatedQuery = PlaceSearchQuerySchema.safeParse(searchQueryOf(query));
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid search query',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.searchPlaces(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to search places',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Places'],
+        summary: 'Search places by name',
+        description: 'Find stored places by name, accent-insensitive and tolerant to typos. With `lat` and `lon`, nearer places rank higher and results have a `distance`. Each result has a relevance `score` from 0 to 1',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string', minLength: 2, maxLength: 100 } },
+          { name: 'lat', in: 'query', schema: { type: 'number', minimum: -90, maximum: 90 } },
+          { name: 'lon', in: 'query', schema: { type: 'number', minimum: -180, maximum: 180 } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 50, default: 20 } },
+          LANG_PARAMETER
+        ]
+      }
+    })
+
+    // GET /places/autocomplete - Typeahead suggestions
+    .get('/places/autocomplete', async ({ query, set, headers }) => {
+      const validatedQuery = PlaceAutocompleteQuerySchema.safeParse(searchQueryOf(query));
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid autocomplete query',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.autocompletePlaces(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to autocomplete places',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Places'],
+        summary: 'Autocomplete place names',
+        description: 'Up to 10 places whose name has words starting with the words typed so far, with their name, category, address and coordinates',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string', minLength: 2, maxLength: 100 } },
+          { name: 'lat', in: 'query', schema: { type: 'number', minimum: -90, maximum: 90 } },
+          { name: 'lon', in: 'query', schema: { type: 'number', minimum: -180, maximum: 180 } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 10, default: 10 } },
+          LANG_PARAMETER
+        ]
+      }
+    })
+
+    // GET /places/bbox - Places of a map viewport
+    .get('/places/bbox', async ({ query, set, headers }) => {
+      const validatedQuery = BoundingBoxQuerySchema.safeParse({
+        ...areaQueryOf(query),
+        minLat: parseFloat(query.minLat as string),
+        minLon: parseFloat(query.minLon as string),
+        maxLat: parseFloat(query.maxLat as string),
+        maxLon: parseFloat(query.maxLon as string)
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid bounding box query',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getPlacesInBoundingBox(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch places in area',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Places'],
+        summary: 'Search for places in a bounding box',
+        description: `Up to \`limit\` places inside a bounding box of at most ${MAX_AREA_KM2} km², in no particular order; \`truncated\` is true when the box holds more. Boxes across the antimeridian are not supported`,
+        parameters: [
+          { name: 'minLat', in: 'query', required: true, schema: { type: 'number', minimum: -90, maximum: 90 } },
+          { name: 'minLon', in: 'query', required: true, schema: { type: 'number', minimum: -180, maximum: 180 } },
+          { name: 'maxLat', in: 'query', required: true, schema: { type: 'number', minimum: -90, maximum: 90 } },
+          { name: 'maxLon', in: 'query', required: true, schema: { type: 'number', minimum: -180, maximum: 180 } },
+          ...AREA_PARAMETERS
+        ]
+      }
+    })
+
+    // POST /places/within - Places inside a GeoJSON polygon
+    .post('/places/within', async ({ query, body, set, headers }) => {
+      const validatedQuery = PlaceAreaQuerySchema.safeParse(areaQueryOf(query));
+      const validatedBody = GeoJSONAreaSchema.safeParse(body);
+
+      if (!validatedQuery.success || !validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid area query or GeoJSON Polygon or MultiPolygon payload',
+          details: [...(validatedQuery.error?.issues || []), ...(validatedBody.error?.issues || [])],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: validatedBody.data,
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getPlacesWithin(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch places in area',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Places'],
+        summary: 'Search for places inside a polygon',
+        description: `Up to \`limit\` places inside a GeoJSON Polygon or MultiPolygon body of at most ${MAX_AREA_KM2} km² and 1000 positions, holes excluded, in no particular order; \`truncated\` is true when the area holds more`,
+        parameters: [...AREA_PARAMETERS]
+      }
+    })
+
+    // GET /places/osm/:type/:id - Get the place of an OpenStreetMap element
+    .get('/places/osm/:type/:id', async ({ params, query, set, headers }) => {
+      const validatedParams = OsmElementParamsSchema.safeParse({
+        type: params.type,
+        id: /^\d+$/.test(params.id) ? parseInt(params.id) : NaN
+      });
+      const validatedQuery = PlaceLanguageQuerySchema.safeParse({ lang: query.lang || undefined });
+
+      if (!validatedParams.success || !validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid OSM element type, ID or language',
+          details: [...(validatedParams.error?.issues || []), ...(validatedQuery.error?.issues || [])],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: { type: validatedParams.data.type, id: String(validatedParams.data.id) },
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getPlaceByOsmId(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch place',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Places'],
+        summary: 'Get a place by OSM element',
+        description: 'Retrieve the place of an OpenStreetMap element, as in https://www.openstreetmap.org/node/123. Responds 404 until the element was fetched or imported',
+        parameters: [
+          { name: 'type', in: 'path', required: true, schema: { type: 'string', enum: ['node', 'way', 'relation'] } },
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+          LANG_PARAMETER
+        ]
+      }
+    })
+
     // GET /places/:id - Get a unique place by BSON ID
-    .get('/places/:id', async ({ params, set, headers }) => {
+    .get('/places/:id', async ({ params, query, set, headers }) => {
       try {
+        const validatedQuery = PlaceLanguageQuerySchema.safeParse({ lang: query.lang || undefined });
+
         // Validate the ID parameter
-        if (!params.id || typeof params.id !== 'string') {
+        if (!params.id || typeof params.id !== 'string' || !validatedQuery.success) {
           set.status = 400;
           return {
             error: 'Validation Error',
-            message: 'Invalid ID parameter',
+            message: 'Invalid ID or language parameter',
             timestamp: new Date().toISOString()
           };
         }
 
         // Create context object for controller
         const context = {
-          query: {},
+          query: validatedQuery.data,
           params: { id: params.id },
           body: {},
           headers: headers || {},
@@ -180,11 +489,144 @@ export const createGeoPlaceRoutes = (
         summary: 'Get a place by ID',
         description: 'Retrieve a specific place by its MongoDB BSON ID',
         parameters: [
-          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          LANG_PARAMETER
         ]
       }
     })
     
+    // POST /places - Contribute a place missing from OpenStreetMap
+    .post('/places', async ({ body, set, headers, params, currentUser }) => {
+      const validatedBody = PlaceCreateSchema.safeParse(body);
+
+      if (!validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place payload',
+          details: validatedBody.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: params || {},
+          body: validatedBody.data,
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.createPlace(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to create place',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Places'],
+        summary: 'Create a place',
+        description: 'Contribute a place stored with source "mongodb". Responds 409 when a place with the same name exists at the same coordinates',
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // PATCH /places/:id - Update a contributed place
+    .patch('/places/:id', async ({ params, body, set, headers, currentUser }) => {
+      const validatedBody = PlaceUpdateSchema.safeParse(body);
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter or place payload',
+          details: validatedBody.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: validatedBody.data,
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.updatePlace(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to update place',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Places'],
+        summary: 'Update a place',
+        description: 'Update a contributed place. Only its author or an administrator can update it',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // DELETE /places/:id - Delete a contributed place
+    .delete('/places/:id', async ({ params, set, headers, currentUser }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.deletePlace(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to delete place',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Places'],
+        summary: 'Delete a place',
+        description: 'Delete a contributed place. Only its author or an administrator can delete it',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
     // GET /all-places - Get all places with pagination
     .get('/all-places', async ({ query, set, headers, params }) => {
       try {
@@ -0,0 +1,125 @@
+/**
+ * Elysia routes for leaderboards
+ * Results are cached for a few minutes, see `leaderboardCache`
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { LeaderboardController } from '../Controller/Leaderboard';
+import { LeaderboardQuerySchema, PlaceLeaderboardQuerySchema } from '../schemas/validation';
+import getCheckinModel from '../Model/Checkin';
+import getPlaceModel from '../Model/Place';
+import getUserModel from '../Model/User';
+import { logger } from '../logger';
+import { leaderboardCache } from '..';
+
+// Initialize models and controllers
+const CheckinModel = getCheckinModel();
+const PlaceModel = getPlaceModel();
+const UserModel = getUserModel();
+
+/**
+ * Creates Elysia routes for leaderboard endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with leaderboard routes
+ */
+export const createLeaderboardRoutes = (
+  app: Elysia,
+) => {
+  const controller = new LeaderboardController(CheckinModel, PlaceModel, UserModel, leaderboardCache, logger);
+
+  return app
+    // GET /places/:id/leaderboard - Mayor and top users of a place
+    .get('/places/:id/leaderboard', async ({ params, query, set, headers }) => {
+      const validatedQuery = PlaceLeaderboardQuerySchema.safeParse({
+        limit: query.limit ? parseInt(query.limit as string) : 10
+      });
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place ID or query parameters',
+          details: validatedQuery.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getPlaceLeaderboard(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to compute place leaderboard',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Leaderboards'],
+        summary: 'Get the leaderboard of a place',
+        description: 'The mayor (the user with the most check-ins over the last MAYOR_WINDOW_DAYS days) and the top users of a place',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 10 } }
+        ]
+      }
+    })
+
+    // GET /leaderboards - Top users globally or in a category
+    .get('/leaderboards', async ({ query, set, headers }) => {
+      const validatedQuery = LeaderboardQuerySchema.safeParse({
+        ...query,
+        limit: query.limit ? parseInt(query.limit as string) : 10
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getLeaderboard(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to compute leaderboard',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Leaderboards'],
+        summary: 'Get the user leaderboard',
+        description: 'Users with the most check-ins over a period, globally or in a single category',
+        parameters: [
+          { name: 'category', in: 'query', schema: { type: 'string' } },
+          { name: 'period', in: 'query', schema: { type: 'string', enum: ['week', 'month', 'year', 'all'], default: 'month' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 10 } }
+        ]
+      }
+    });
+};
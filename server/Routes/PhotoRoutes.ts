@@ -0,0 +1,170 @@
+/**
+ * Elysia routes for place photos
+ * Uploads are validated, stripped of metadata and thumbnailed before being stored
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { PhotoController } from '../Controller/Photo';
+import { PhotoQuerySchema, PhotoUploadSchema } from '../schemas/validation';
+import { authPlugin, requireAuth } from '../Middlewares/AuthMiddleware';
+import { getStorageAdapter } from '../Service/StorageAdapter';
+import PhotoService from '../Service/PhotoService';
+import getPlacePhotoModel from '../Model/PlacePhoto';
+import getPlaceModel from '../Model/Place';
+import { logger } from '../logger';
+import { cache } from '..';
+
+// Initialize models and controllers
+const PlacePhotoModel = getPlacePhotoModel();
+const PlaceModel = getPlaceModel();
+
+/**
+ * Creates Elysia routes for photo endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with photo routes
+ */
+export const createPhotoRoutes = (
+  app: Elysia,
+) => {
+  const storage = getStorageAdapter();
+  const controller = new PhotoController(PlacePhotoModel, PlaceModel, new PhotoService(storage), cache, logger);
+
+  return app
+    .use(authPlugin)
+
+    // POST /places/:id/photos - Upload a photo of a place
+    .post('/places/:id/photos', async ({ params, body, set, headers, currentUser }) => {
+      const validatedBody = PhotoUploadSchema.safeParse(body);
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place ID or photo payload',
+          details: validatedBody.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: validatedBody.data,
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.uploadPhoto(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to upload photo',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Photos'],
+        summary: 'Upload a photo of a place',
+        description: 'Multipart upload with a `file` field (JPEG, PNG or WebP, up to PHOTO_MAX_BYTES) and an optional `caption`. Thumbnails are generated and the first photo becomes the place cover photo.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /places/:id/photos - Photos of a place
+    .get('/places/:id/photos', async ({ params, query, set, headers }) => {
+      const validatedQuery = PhotoQuerySchema.safeParse({
+        ...query,
+        limit: query.limit ? parseInt(query.limit as string) : 20
+      });
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place ID or query parameters',
+          details: validatedQuery.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getPhotos(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch photos',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Photos'],
+        summary: 'Get the photos of a place',
+        description: 'Photos of a place with their thumbnail variants, newest first, paginated with an opaque cursor',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 20 } }
+        ]
+      }
+    })
+
+    // GET /photos/files/* - Stored photo files
+    .get('/photos/files/*', async ({ params, set }) => {
+      const key = params['*'];
+
+      try {
+        const data = await storage.get(key);
+
+        if (!data) {
+          set.status = 404;
+          return {
+            error: 'Not Found',
+            message: 'Photo not found',
+            timestamp: new Date().toISOString()
+          };
+        }
+
+        // Response bodies take views of an ArrayBuffer, the copy is one whatever the storage returned
+        return new Response(new Uint8Array(data), {
+          headers: {
+            'Content-Type': PhotoService.contentTypeOf(key),
+            // Keys are unique per upload, files never change
+            'Cache-Control': 'public, max-age=31536000, immutable'
+          }
+        });
+      } catch (error: any) {
+        logger.error(`Error serving photo ${key}: ${error.message}`);
+        set.status = 404;
+        return {
+          error: 'Not Found',
+          message: 'Photo not found',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Photos'],
+        summary: 'Get a photo file',
+        description: 'Serves original photos and thumbnails by the URLs returned with photos and places'
+      }
+    });
+};
@@ -0,0 +1,69 @@
+/**
+ * Elysia routes for offline reverse geocoding
+ * Boundaries are imported with scripts/import-boundaries.ts
+ */
+
+import { Elysia } from 'elysia';
+import { ReverseController } from '../Controller/Reverse';
+import { getReverseGeocoder } from '../Service/ReverseGeocoder';
+import { ReverseQuerySchema } from '../schemas/validation';
+import { logger } from '../logger';
+
+/**
+ * Creates Elysia routes for reverse geocoding endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with reverse geocoding routes
+ */
+export const createReverseRoutes = (
+  app: Elysia,
+) => {
+  const controller = new ReverseController(getReverseGeocoder(), logger);
+
+  return app
+    // GET /reverse - Administrative areas of a position
+    .get('/reverse', async ({ query, set, headers }) => {
+      const validatedQuery = ReverseQuerySchema.safeParse({
+        lat: parseFloat(query.lat as string),
+        lon: parseFloat(query.lon as string)
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.reverse(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to reverse geocode',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Geocoding'],
+        summary: 'Reverse geocode coordinates',
+        description: 'City, state and country containing a position, from the administrative boundaries stored locally. Responds 404 when no stored boundary contains it',
+        parameters: [
+          { name: 'lat', in: 'query', required: true, schema: { type: 'number', minimum: -90, maximum: 90 } },
+          { name: 'lon', in: 'query', required: true, schema: { type: 'number', minimum: -180, maximum: 180 } }
+        ]
+      }
+    });
+};
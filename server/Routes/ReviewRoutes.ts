@@ -0,0 +1,125 @@
+/**
+ * Elysia routes for place reviews
+ * Posting a review refreshes the ratingAverage/ratingCount returned with places
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { ReviewController } from '../Controller/Review';
+import { ReviewCreateSchema, ReviewQuerySchema } from '../schemas/validation';
+import { authPlugin, requireAuth } from '../Middlewares/AuthMiddleware';
+import getReviewModel from '../Model/Review';
+import getPlaceModel from '../Model/Place';
+import { logger } from '../logger';
+
+// Initialize models and controllers
+const ReviewModel = getReviewModel();
+const PlaceModel = getPlaceModel();
+
+/**
+ * Creates Elysia routes for review endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with review routes
+ */
+export const createReviewRoutes = (
+  app: Elysia,
+) => {
+  const controller = new ReviewController(ReviewModel, PlaceModel, logger);
+
+  return app
+    .use(authPlugin)
+
+    // POST /places/:id/reviews - Review a place
+    .post('/places/:id/reviews', async ({ params, body, set, headers, currentUser }) => {
+      const validatedBody = ReviewCreateSchema.safeParse(body);
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedBody.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place ID or review payload',
+          details: validatedBody.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: validatedBody.data,
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.createReview(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to create review',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Reviews'],
+        summary: 'Review a place',
+        description: 'Rate a place from 1 to 5 with an optional text. Each user can review a place once',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /places/:id/reviews - Reviews of a place
+    .get('/places/:id/reviews', async ({ params, query, set, headers }) => {
+      const validatedQuery = ReviewQuerySchema.safeParse({
+        ...query,
+        limit: query.limit ? parseInt(query.limit as string) : 20
+      });
+
+      if (!Types.ObjectId.isValid(params.id) || !validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid place ID or query parameters',
+          details: validatedQuery.error?.issues || [],
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set
+        };
+
+        return await controller.getReviews(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch reviews',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      detail: {
+        tags: ['Reviews'],
+        summary: 'Get the reviews of a place',
+        description: 'Reviews of a place, newest first, paginated with an opaque cursor',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 20 } }
+        ]
+      }
+    });
+};
@@ -0,0 +1,211 @@
+/**
+ * Elysia routes for the social graph
+ * Following users puts their check-ins in the caller's feed
+ */
+
+import { Elysia } from 'elysia';
+import { Types } from 'mongoose';
+import { SocialController } from '../Controller/Social';
+import { CursorPaginationSchema } from '../schemas/validation';
+import { authPlugin, requireAuth } from '../Middlewares/AuthMiddleware';
+import getFollowModel from '../Model/Follow';
+import getCheckinModel from '../Model/Checkin';
+import getUserModel from '../Model/User';
+import { logger } from '../logger';
+
+// Initialize models and controllers
+const FollowModel = getFollowModel();
+const CheckinModel = getCheckinModel();
+const UserModel = getUserModel();
+
+/**
+ * Creates Elysia routes for social endpoints
+ * @param app - Elysia application instance
+ * @returns Elysia application with social routes
+ */
+export const createSocialRoutes = (
+  app: Elysia,
+) => {
+  const controller = new SocialController(FollowModel, CheckinModel, UserModel, logger);
+
+  return app
+    .use(authPlugin)
+
+    // POST /users/:id/follow - Follow a user
+    .post('/users/:id/follow', async ({ params, set, headers, currentUser }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.follow(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to follow user',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Social'],
+        summary: 'Follow a user',
+        description: 'Follow a user to see their check-ins in your feed',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // DELETE /users/:id/follow - Unfollow a user
+    .delete('/users/:id/follow', async ({ params, set, headers, currentUser }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.unfollow(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to unfollow user',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Social'],
+        summary: 'Unfollow a user',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /feed - Check-ins of followed users
+    .get('/feed', async ({ query, set, headers, currentUser }) => {
+      const validatedQuery = CursorPaginationSchema.safeParse({
+        ...query,
+        limit: query.limit ? parseInt(query.limit as string) : 20
+      });
+
+      if (!validatedQuery.success) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: validatedQuery.error.issues,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: validatedQuery.data,
+          params: {},
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getFeed(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch feed',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Social'],
+        summary: "Get friends' check-ins",
+        description: 'Recent check-ins of everyone you follow, newest first, with their places embedded. Flagged check-ins are left out, and check-ins come without their coordinates',
+        parameters: [
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'number', minimum: 1, maximum: 100, default: 20 } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    })
+
+    // GET /places/:id/friends-here - Followed users who checked in at a place recently
+    .get('/places/:id/friends-here', async ({ params, set, headers, currentUser }) => {
+      if (!Types.ObjectId.isValid(params.id)) {
+        set.status = 400;
+        return {
+          error: 'Validation Error',
+          message: 'Invalid ID parameter',
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      try {
+        const context = {
+          query: {},
+          params: { id: params.id },
+          body: {},
+          headers: headers || {},
+          set,
+          currentUser
+        };
+
+        return await controller.getFriendsHere(context);
+      } catch (error: any) {
+        set.status = 500;
+        return {
+          error: 'Internal Server Error',
+          message: error.message || 'Failed to fetch friends here',
+          timestamp: new Date().toISOString()
+        };
+      }
+    }, {
+      beforeHandle: requireAuth,
+      detail: {
+        tags: ['Social'],
+        summary: 'Get friends who were here',
+        description: 'Followed users who checked in at this place recently, most recent first',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        security: [{ bearerAuth: [] }]
+      }
+    });
+};
@@ -0,0 +1,188 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Model, Types, type PipelineStage } from 'mongoose';
+import { BadgeRulesSchema, type BadgeRule } from '../schemas/validation';
+import { isDuplicateKeyError } from '../utils';
+import { logger } from '../logger';
+import getCheckinModel from '../Model/Checkin';
+import getUserBadgeModel from '../Model/UserBadge';
+import getPlaceModel from '../Model/Place';
+import { getCategoryTaxonomy, type CategoryTaxonomy } from './CategoryTaxonomy';
+import type { CheckinDocument, UserBadgeDocument } from '../../types';
+
+export const DEFAULT_BADGE_RULES_PATH = path.join(import.meta.dir, '../data/badges.json');
+
+/**
+ * Awards badges to users from declarative rules (see server/data/badges.json)
+ * A rule counts a user's check-ins, the distinct places they checked into, or the distinct
+ * values of a place field, optionally restricted to some categories, and awards its badge
+ * once the count reaches the rule's threshold. Flagged check-ins never count towards badges.
+ */
+export class BadgeService {
+  public checkinModel: Model<CheckinDocument>;
+  public userBadgeModel: Model<UserBadgeDocument>;
+  public rules: BadgeRule[];
+  public placesCollection: string;
+
+  constructor(
+    checkinModel: Model<CheckinDocument>,
+    userBadgeModel: Model<UserBadgeDocument>,
+    rules: BadgeRule[],
+    placesCollection: string = 'places'
+  ) {
+    this.checkinModel = checkinModel;
+    this.userBadgeModel = userBadgeModel;
+    this.rules = rules;
+    this.placesCollection = placesCollection;
+  }
+
+  /**
+   * Load and validate badge rules from a JSON file
+   * @throws Error if the file is unreadable or any rule is invalid
+   */
+  static loadRules(rulesPath: string = process.env.BADGE_RULES_PATH || DEFAULT_BADGE_RULES_PATH): BadgeRule[] {
+    const result = BadgeRulesSchema.safeParse(JSON.parse(readFileSync(rulesPath, 'utf-8')));
+
+    if (!result.success) {
+      throw new Error(`Invalid badge rules in ${rulesPath}: ${result.error.message}`);
+    }
+
+    logger.info(`Loaded ${result.data.length} badge rules from ${rulesPath}`);
+    return result.data;
+  }
+
+  /**
+   * Extend rule categories with their subcategories, so `heritage` also counts `castle` check-ins
+   * @throws Error if a rule names a category missing from the taxonomy
+   */
+  static expandCategories(rules: BadgeRule[], taxonomy: CategoryTaxonomy): BadgeRule[] {
+    return rules.map(rule => {
+      const { categories } = rule.criteria;
+      if (!categories) return rule;
+
+      const unknown = categories.filter(category => !taxonomy.has(category));
+      if (unknown.length > 0) {
+        throw new Error(`Badge rule ${rule.id} has unknown categories: ${unknown.join(', ')}`);
+      }
+
+      const expanded = [...new Set(categories.flatMap(category => taxonomy.descendantsOf(category)))];
+      return { ...rule, criteria: { ...rule.criteria, categories: expanded } };
+    });
+  }
+
+  getRule(badgeId: string): BadgeRule | undefined {
+    return this.rules.find(rule => rule.id === badgeId);
+  }
+
+  /**
+   * Award the badges a user has earned and does not hold yet
+   * @param userId - User who just checked in
+   * @param category - Category of the new check-in; rules restricted to other categories are skipped
+   * @returns Rules of the newly awarded badges
+   */
+  async evaluate(userId: string, category?: string): Promise<BadgeRule[]> {
+    const held = new Set<string>(
+      await this.userBadgeModel.find({ user: userId }).distinct('badgeId') as string[]
+    );
+
+    const candidates = this.rules.filter(rule =>
+      !held.has(rule.id) &&
+      (!category || !rule.criteria.categories || rule.criteria.categories.includes(category))
+    );
+
+    const awarded: BadgeRule[] = [];
+
+    for (const rule of candidates) {
+      const progress = await this.getProgress(rule, userId);
+      if (progress < rule.criteria.threshold) continue;
+
+      try {
+        await this.userBadgeModel.create({ user: userId, badgeId: rule.id });
+        awarded.push(rule);
+        logger.info(`Awarded badge ${rule.id} to user ${userId}`);
+      } catch (error) {
+        // A concurrent check-in already awarded it
+        if (!isDuplicateKeyError(error, 'unique_user_badge')) throw error;
+      }
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Current count of a user towards a rule's threshold
+   */
+  async getProgress(rule: BadgeRule, userId: string): Promise<number> {
+    const [result] = await this.checkinModel.aggregate<{ count: number }>(this.buildProgressPipeline(rule, userId));
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Aggregation over the user's check-ins counting what the rule measures
+   */
+  buildProgressPipeline(rule: BadgeRule, userId: string): PipelineStage[] {
+    const { metric, categories, field } = rule.criteria;
+
+    const pipeline: PipelineStage[] = [
+      {
+        $match: {
+          user: new Types.ObjectId(userId),
+          'flags.0': { $exists: false },
+          ...(categories && { category: { $in: categories } })
+        }
+      }
+    ];
+
+    switch (metric) {
+      case 'checkins':
+        pipeline.push({ $count: 'count' });
+        break;
+
+      case 'distinct_places':
+        pipeline.push(
+          { $group: { _id: '$place' } },
+          { $count: 'count' }
+        );
+        break;
+
+      case 'distinct_values':
+        pipeline.push(
+          { $group: { _id: '$place' } },
+          {
+            $lookup: {
+              from: this.placesCollection,
+              localField: '_id',
+              foreignField: '_id',
+              as: 'place',
+              pipeline: [{ $project: { value: `$${field}` } }]
+            }
+          },
+          { $unwind: '$place' },
+          { $match: { 'place.value': { $nin: [null, ''] } } },
+          { $group: { _id: '$place.value' } },
+          { $count: 'count' }
+        );
+        break;
+    }
+
+    return pipeline;
+  }
+}
+
+let badgeService: BadgeService | null = null;
+
+/**
+ * Shared BadgeService, loading the rules on first use
+ */
+export const getBadgeService = (): BadgeService => {
+  badgeService ??= new BadgeService(
+    getCheckinModel(),
+    getUserBadgeModel(),
+    BadgeService.expandCategories(BadgeService.loadRules(), getCategoryTaxonomy()),
+    getPlaceModel().collection.name
+  );
+
+  return badgeService;
+};
+
+export default BadgeService;
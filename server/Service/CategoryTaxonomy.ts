@@ -0,0 +1,164 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { CategoryTaxonomySchema, type CategoryNode } from '../schemas/validation';
+import { RELEVANT_TAGS } from './OsmTags';
+import { logger } from '../logger';
+
+export const DEFAULT_CATEGORIES_PATH = path.join(import.meta.dir, '../data/categories.json');
+
+// Category assigned to places no rule matches
+export const FALLBACK_CATEGORY = 'other';
+
+export interface CategoryAssignment {
+  category: string;
+  // IDs from the root category down to `category`
+  categoryPath: string[];
+}
+
+// Category of GET /categories, labelled in the requested locale
+export interface LocalizedCategory {
+  id: string;
+  label: string;
+  icon?: string;
+  path: string[];
+  children: LocalizedCategory[];
+}
+
+/**
+ * Hierarchical place categories mapped from OSM tags (see server/data/categories.json)
+ * A category matches an element when all the tags of one of its `match` sets are present. When
+ * several categories match, the most specific wins: exact values count twice as much as `*`, and
+ * ties go to the category listed first.
+ */
+export class CategoryTaxonomy {
+  public categories: CategoryNode[];
+  private paths = new Map<string, string[]>();
+  private rules: { id: string; tags: [string, string][]; score: number }[] = [];
+
+  constructor(categories: CategoryNode[]) {
+    this.categories = categories;
+
+    const index = (nodes: CategoryNode[], parentPath: string[]) => {
+      for (const node of nodes) {
+        const nodePath = [...parentPath, node.id];
+        this.paths.set(node.id, nodePath);
+
+        for (const tags of node.match ?? []) {
+          const entries = Object.entries(tags);
+          this.rules.push({
+            id: node.id,
+            tags: entries,
+            score: entries.reduce((score, [, value]) => score + (value === '*' ? 1 : 2), 0)
+          });
+        }
+
+        index(node.children ?? [], nodePath);
+      }
+    };
+
+    index(categories, []);
+  }
+
+  /**
+   * Load and validate the taxonomy from a JSON file
+   * @throws Error if the file is unreadable or the taxonomy is invalid
+   */
+  static load(taxonomyPath: string = process.env.CATEGORIES_PATH || DEFAULT_CATEGORIES_PATH): CategoryTaxonomy {
+    const result = CategoryTaxonomySchema.safeParse(JSON.parse(readFileSync(taxonomyPath, 'utf-8')));
+
+    if (!result.success) {
+      throw new Error(`Invalid category taxonomy in ${taxonomyPath}: ${result.error.message}`);
+    }
+
+    const taxonomy = new CategoryTaxonomy(result.data);
+    logger.info(`Loaded ${taxonomy.paths.size} categories from ${taxonomyPath}`);
+    return taxonomy;
+  }
+
+  has(categoryId: string): boolean {
+    return this.paths.has(categoryId);
+  }
+
+  /**
+   * IDs from the root category down to a category, undefined for unknown categories
+   */
+  pathOf(categoryId: string): string[] | undefined {
+    return this.paths.get(categoryId);
+  }
+
+  /**
+   * A category and every category below it, e.g. to filter on a parent category
+   */
+  descendantsOf(categoryId: string): string[] {
+    return [...this.paths].filter(([, categoryPath]) => categoryPath.includes(categoryId)).map(([id]) => id);
+  }
+
+  /**
+   * Most specific category matching OSM tags, FALLBACK_CATEGORY when none does
+   * Multi-valued tags such as `cuisine=italian;pizza` match any of their values
+   */
+  categorize(tags: Record<string, string | undefined>): CategoryAssignment {
+    let best: { id: string; score: number } | null = null;
+
+    for (const rule of this.rules) {
+      if (best && rule.score <= best.score) continue;
+
+      const matches = rule.tags.every(([key, value]) => {
+        const tagValue = tags[key];
+        if (!tagValue || tagValue === 'no') return false;
+        return value === '*' || tagValue.split(';').some(part => part.trim() === value);
+      });
+
+      if (matches) best = rule;
+    }
+
+    return this.assignment(best?.id ?? FALLBACK_CATEGORY);
+  }
+
+  /**
+   * Category of a free-form value: a category ID, or a legacy category holding an OSM tag value
+   * (e.g. `restaurant`) or tag key (e.g. `historic`, from `historic=yes`)
+   */
+  resolve(value: string): CategoryAssignment {
+    if (this.has(value)) return this.assignment(value);
+
+    // The tag key of the value is unknown, only exact values are meaningful
+    const rule = this.rules.find(({ tags }) => tags.length === 1 && tags[0][1] === value);
+    if (rule) return this.assignment(rule.id);
+
+    return RELEVANT_TAGS.includes(value) ? this.categorize({ [value]: 'yes' }) : this.assignment(FALLBACK_CATEGORY);
+  }
+
+  /**
+   * The category tree labelled in a locale, falling back to the language then to English
+   */
+  localized(locale: string = 'en'): LocalizedCategory[] {
+    const language = locale.split('-')[0];
+
+    const localize = (nodes: CategoryNode[]): LocalizedCategory[] => nodes.map(node => ({
+      id: node.id,
+      label: node.labels[locale] ?? node.labels[language] ?? node.labels.en,
+      ...(node.icon && { icon: node.icon }),
+      path: this.paths.get(node.id)!,
+      children: localize(node.children ?? [])
+    }));
+
+    return localize(this.categories);
+  }
+
+  private assignment(categoryId: string): CategoryAssignment {
+    return { category: categoryId, categoryPath: this.paths.get(categoryId) ?? [categoryId] };
+  }
+}
+
+let categoryTaxonomy: CategoryTaxonomy | null = null;
+
+/**
+ * Shared CategoryTaxonomy, loading the file on first use
+ */
+export const getCategoryTaxonomy = (): CategoryTaxonomy => {
+  categoryTaxonomy ??= CategoryTaxonomy.load();
+  return categoryTaxonomy;
+};
+
+export default CategoryTaxonomy;
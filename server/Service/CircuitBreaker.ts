@@ -0,0 +1,111 @@
+// `closed` lets requests through, `open` rejects them until the cool-down ends, then `half_open`
+// lets requests through again until one succeeds (closing) or fails (opening again)
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerOptions {
+  // Consecutive failures opening the breaker
+  failureThreshold?: number;
+  cooldownMs?: number;
+  // Period the error rate is computed over
+  windowMs?: number;
+}
+
+// State and recent outcomes of a breaker, reported by GET /health
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  // Share of failed requests over the window, 0 without requests
+  errorRate: number;
+  openUntil?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+}
+
+/**
+ * Circuit breaker of an upstream endpoint, so a failing endpoint is skipped instead of being
+ * waited on by every request
+ */
+export class CircuitBreaker {
+  static readonly DEFAULT_FAILURE_THRESHOLD = 5;
+  static readonly DEFAULT_COOLDOWN_MS = 60 * 1000;
+  static readonly DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+
+  public failureThreshold: number;
+  public cooldownMs: number;
+  public windowMs: number;
+
+  private state: BreakerState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastError?: string;
+  private lastFailureAt?: number;
+  // Time and success of recent requests, oldest first
+  private outcomes: { at: number; ok: boolean }[] = [];
+
+  constructor(options: BreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? CircuitBreaker.DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? CircuitBreaker.DEFAULT_COOLDOWN_MS;
+    this.windowMs = options.windowMs ?? CircuitBreaker.DEFAULT_WINDOW_MS;
+  }
+
+  /**
+   * Whether a request may be sent, moving open breakers whose cool-down ended to half-open
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now >= this.openedAt + this.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    return this.state !== 'open';
+  }
+
+  recordSuccess(now: number = Date.now()): void {
+    this.record(now, true);
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(error: string, now: number = Date.now()): void {
+    this.record(now, false);
+    this.consecutiveFailures++;
+    this.lastError = error;
+    this.lastFailureAt = now;
+
+    // A failed trial request reopens the breaker straight away
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  status(now: number = Date.now()): BreakerStatus {
+    this.prune(now);
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+
+    return {
+      state: this.canRequest(now) ? this.state : 'open',
+      consecutiveFailures: this.consecutiveFailures,
+      requests: this.outcomes.length,
+      failures,
+      errorRate: this.outcomes.length > 0 ? failures / this.outcomes.length : 0,
+      ...(this.state === 'open' && { openUntil: new Date(this.openedAt + this.cooldownMs).toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+      ...(this.lastFailureAt && { lastFailureAt: new Date(this.lastFailureAt).toISOString() })
+    };
+  }
+
+  private record(now: number, ok: boolean): void {
+    this.outcomes.push({ at: now, ok });
+    this.prune(now);
+  }
+
+  private prune(now: number): void {
+    const since = now - this.windowMs;
+    const firstRecent = this.outcomes.findIndex(outcome => outcome.at >= since);
+    this.outcomes = firstRecent === -1 ? [] : this.outcomes.slice(firstRecent);
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,106 @@
+import { calculateDistance } from '../utils';
+import type { CheckinFlag, FraudAssessment } from '../../types';
+
+// Minimal check-in shape needed to assess travel between check-ins
+export interface CheckinSample {
+  place: unknown;
+  coordinates: { coordinates: number[] };
+  createdAt: Date;
+}
+
+/**
+ * Scores new check-ins against the user's previous ones to catch GPS spoofing
+ * - impossible travel: the implied speed since the previous check-in is physically implausible
+ * - rapid fire: many distinct places checked into inside a small radius within a short window
+ */
+export class FraudDetectionService {
+  // Speeds are in km/h, faster than a commercial flight is impossible
+  static readonly IMPOSSIBLE_SPEED = parseFloat(process.env.FRAUD_IMPOSSIBLE_SPEED_KMH || '1000');
+  static readonly SUSPICIOUS_SPEED = parseFloat(process.env.FRAUD_SUSPICIOUS_SPEED_KMH || '300');
+  // Movements shorter than this are GPS jitter and never count as travel
+  static readonly MIN_TRAVEL_DISTANCE = 1000; // meters
+  static readonly RAPID_FIRE_WINDOW = parseInt(process.env.FRAUD_RAPID_FIRE_WINDOW_MINUTES || '10', 10) * 60 * 1000;
+  static readonly RAPID_FIRE_RADIUS = parseInt(process.env.FRAUD_RAPID_FIRE_RADIUS || '500', 10); // meters
+  static readonly RAPID_FIRE_PLACES = parseInt(process.env.FRAUD_RAPID_FIRE_PLACES || '5', 10);
+  // Check-ins scoring at least this much are rejected instead of flagged
+  static readonly REJECT_SCORE = parseFloat(process.env.FRAUD_REJECT_SCORE || '1');
+
+  private static readonly FLAG_WEIGHTS: Record<CheckinFlag, number> = {
+    impossible_travel: 1,
+    high_velocity: 0.4,
+    rapid_fire: 0.5
+  };
+
+  /**
+   * Assess a new check-in
+   * @param candidate - The check-in being created
+   * @param previous - The user's latest check-in, if any
+   * @param recent - The user's check-ins inside the rapid-fire window
+   * @returns Fraud score between 0 and 1 with the flags that contributed to it
+   */
+  static assess(candidate: CheckinSample, previous: CheckinSample | null, recent: CheckinSample[]): FraudAssessment {
+    const flags: CheckinFlag[] = [];
+
+    if (previous) {
+      const speed = this.impliedSpeed(previous, candidate);
+
+      if (speed > this.IMPOSSIBLE_SPEED) {
+        flags.push('impossible_travel');
+      } else if (speed > this.SUSPICIOUS_SPEED) {
+        flags.push('high_velocity');
+      }
+    }
+
+    if (this.isRapidFire(candidate, recent)) {
+      flags.push('rapid_fire');
+    }
+
+    const fraudScore = Math.min(1, flags.reduce((score, flag) => score + this.FLAG_WEIGHTS[flag], 0));
+
+    return { fraudScore, flags };
+  }
+
+  /**
+   * Whether an assessment is severe enough to reject the check-in
+   */
+  static shouldReject(assessment: FraudAssessment): boolean {
+    return assessment.fraudScore >= this.REJECT_SCORE;
+  }
+
+  /**
+   * Speed in km/h needed to travel between two check-ins
+   */
+  static impliedSpeed(from: CheckinSample, to: CheckinSample): number {
+    const [fromLon, fromLat] = from.coordinates.coordinates;
+    const [toLon, toLat] = to.coordinates.coordinates;
+    const distance = calculateDistance(fromLat, fromLon, toLat, toLon);
+
+    if (distance < this.MIN_TRAVEL_DISTANCE) return 0;
+
+    // Guard against identical timestamps, one second is the finest resolution we trust
+    const elapsedHours = Math.max(1000, to.createdAt.getTime() - from.createdAt.getTime()) / (60 * 60 * 1000);
+    return (distance / 1000) / elapsedHours;
+  }
+
+  /**
+   * Detect bursts of check-ins at many distinct places close to the candidate
+   */
+  private static isRapidFire(candidate: CheckinSample, recent: CheckinSample[]): boolean {
+    const [lon, lat] = candidate.coordinates.coordinates;
+    const windowStart = candidate.createdAt.getTime() - this.RAPID_FIRE_WINDOW;
+
+    const nearbyPlaces = new Set(
+      [...recent, candidate]
+        .filter(checkin => checkin.createdAt.getTime() >= windowStart)
+        .filter(checkin => {
+          const [checkinLon, checkinLat] = checkin.coordinates.coordinates;
+          return calculateDistance(lat, lon, checkinLat, checkinLon) <= this.RAPID_FIRE_RADIUS;
+        })
+        .map(checkin => String(checkin.place))
+    );
+
+    return nearbyPlaces.size >= this.RAPID_FIRE_PLACES;
+  }
+}
+
+export default FraudDetectionService;
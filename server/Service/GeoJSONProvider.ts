@@ -0,0 +1,68 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { PlaceDocument, PlaceData } from '../../types';
+import type { PlaceProvider } from './PlaceProvider';
+import { placeFromGeoJSONFeature, type GeoJSONFeature } from './PlaceParsers';
+import PlaceStore from './PlaceStore';
+import { nearestPlaces, type NearbyBound } from '../utils';
+import { logger } from '../logger';
+
+export const DEFAULT_GEOJSON_PATH = path.join(import.meta.dir, '../data/places.geojson');
+
+/**
+ * Place provider reading a local GeoJSON FeatureCollection, for offline use
+ * Point features need a `name` (or `name:en`) property; the category comes from a `category`
+ * property or OSM tags such as `tourism`, see placeFromGeoJSONFeature. The file is read once and
+ * seeded into MongoDB so its places can be checked into.
+ */
+export class GeoJSONProvider implements PlaceProvider {
+  readonly name = 'geojson' as const;
+  public filePath: string;
+  public persist: boolean;
+  private places: Promise<PlaceData[]> | null = null;
+
+  constructor(filePath: string = process.env.PLACE_GEOJSON_PATH || DEFAULT_GEOJSON_PATH, persist: boolean = true) {
+    this.filePath = filePath;
+    this.persist = persist;
+  }
+
+  async queryPlaces(lat: number, lon: number, radius: number, bound?: NearbyBound): Promise<PlaceDocument[]> {
+    const places = await this.loadPlaces();
+
+    return nearestPlaces(places, lat, lon, radius, bound) as PlaceDocument[];
+  }
+
+  /**
+   * Read and parse the file on first use, retrying on the next query if it fails
+   */
+  private loadPlaces(): Promise<PlaceData[]> {
+    this.places ??= this.readPlaces().catch(error => {
+      this.places = null;
+      throw error;
+    });
+
+    return this.places;
+  }
+
+  private async readPlaces(): Promise<PlaceData[]> {
+    const collection = JSON.parse(await readFile(this.filePath, 'utf-8'));
+
+    if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+      throw new Error(`${this.filePath} is not a GeoJSON FeatureCollection`);
+    }
+
+    const places = (collection.features as GeoJSONFeature[])
+      .map(feature => placeFromGeoJSONFeature(feature, this.name).place)
+      .filter((place): place is PlaceData => place !== undefined);
+
+    logger.info(`Loaded ${places.length} places out of ${collection.features.length} features from ${this.filePath}`);
+
+    if (this.persist && places.length > 0) {
+      await PlaceStore.upsert(places);
+    }
+
+    return places;
+  }
+}
+
+export default GeoJSONProvider;
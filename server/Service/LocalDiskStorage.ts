@@ -0,0 +1,58 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Stores uploads on the local disk under PHOTO_STORAGE_DIR
+ * Files are served back by GET /photos/files/*
+ */
+export class LocalDiskStorage implements StorageAdapter {
+  public rootDir: string;
+  public publicBaseUrl: string;
+
+  constructor(
+    rootDir: string = process.env.PHOTO_STORAGE_DIR || './uploads',
+    publicBaseUrl: string = process.env.PHOTO_PUBLIC_URL || '/api/v1/photos/files'
+  ) {
+    this.rootDir = path.resolve(rootDir);
+    this.publicBaseUrl = publicBaseUrl.replace(/\/+$/, '');
+  }
+
+  async put(key: string, data: Uint8Array, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  /**
+   * Map a key to a path inside the root directory, refusing keys escaping it
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+export default LocalDiskStorage;
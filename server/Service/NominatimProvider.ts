@@ -0,0 +1,157 @@
+import axios from 'axios';
+import { Types } from 'mongoose';
+import type { PlaceDocument, PlaceData, PlaceAddress, ApiError } from '../../types';
+import type { PlaceProvider } from './PlaceProvider';
+import PlaceStore from './PlaceStore';
+import { getCategoryTaxonomy } from './CategoryTaxonomy';
+import { canonicalName, localizedNames } from './OsmTags';
+import { calculateDistance, formatAddress, nearestPlaces, type NearbyBound } from '../utils';
+import { logger } from '../logger';
+
+// Search result of the Nominatim /search endpoint in `jsonv2` format
+export interface NominatimResult {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  category: string;
+  type: string;
+  address?: Record<string, string>;
+  // OSM name tags, with `namedetails=1`
+  namedetails?: Record<string, string> | null;
+}
+
+/**
+ * Place provider for Nominatim-compatible geocoders
+ * Nominatim has no radius search, so each configured search term is looked up inside the bounding
+ * box of the search circle and results outside the circle are dropped. Terms are queried one after
+ * the other to respect the public instance's one request per second policy.
+ */
+export class NominatimProvider implements PlaceProvider {
+  readonly name = 'nominatim' as const;
+  public baseUrl: string;
+  public searchTerms: string[];
+  public timeout: number;
+
+  constructor(
+    baseUrl: string = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+    searchTerms: string[] = (process.env.NOMINATIM_SEARCH_TERMS || 'attraction,museum,monument,restaurant,cafe').split(','),
+    timeout: number = 10000
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.searchTerms = searchTerms.map(term => term.trim()).filter(Boolean);
+    this.timeout = timeout;
+  }
+
+  async queryPlaces(lat: number, lon: number, radius: number, bound?: NearbyBound): Promise<PlaceDocument[]> {
+    try {
+      const cachedData = await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+
+      if (PlaceStore.isFresh(cachedData)) {
+        logger.info(`Using cached Nominatim data for ${lat},${lon} with radius ${radius}`);
+        return cachedData;
+      }
+
+      const results: NominatimResult[] = [];
+      for (const term of this.searchTerms) {
+        results.push(...await this.search(term, lat, lon, radius));
+      }
+
+      const places = this.parseResults(results).filter(place => {
+        const [placeLon, placeLat] = place.coordinates.coordinates;
+        return calculateDistance(lat, lon, placeLat, placeLon) <= radius;
+      });
+
+      logger.info(`Parsed ${places.length} places from ${results.length} Nominatim results`);
+
+      if (places.length === 0) {
+        return [];
+      }
+
+      await PlaceStore.upsert(places);
+
+      // Stored places keep the IDs they were first stored with, those of the parsed places are only new ones
+      const nearby = await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+      if (nearby.length > 0) {
+        return nearby;
+      }
+
+      return nearestPlaces(places, lat, lon, radius, bound) as PlaceDocument[];
+    } catch (error) {
+      logger.error('Error in NominatimProvider:', error);
+
+      const cachedData = await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+      if (cachedData.length > 0) {
+        return cachedData;
+      }
+
+      const apiError = error as ApiError;
+      throw new Error(`Failed to fetch data: ${apiError.message || 'Unknown error'}`);
+    }
+  }
+
+  private async search(term: string, lat: number, lon: number, radius: number): Promise<NominatimResult[]> {
+    // Degrees spanned by the radius; longitude degrees shrink towards the poles
+    const latDelta = radius / 111320;
+    const lonDelta = radius / (111320 * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+
+    const response = await axios.get<NominatimResult[]>(`${this.baseUrl}/search`, {
+      timeout: this.timeout,
+      params: {
+        q: term,
+        format: 'jsonv2',
+        viewbox: [lon - lonDelta, lat + latDelta, lon + lonDelta, lat - latDelta].join(','),
+        bounded: 1,
+        addressdetails: 1,
+        namedetails: 1,
+        limit: 50
+      },
+      // Required by the Nominatim usage policy
+      headers: { 'User-Agent': process.env.NOMINATIM_USER_AGENT || 'CheckinMate/1.0' }
+    });
+
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  parseResults(results: NominatimResult[]): PlaceData[] {
+    const taxonomy = getCategoryTaxonomy();
+
+    return results
+      .filter(result => result.name || result.display_name)
+      .map(result => ({ result, addressComponents: this.addressOf(result.address) }))
+      .map(({ result, addressComponents }) => ({
+        _id: new Types.ObjectId(),
+        name: canonicalName(result.namedetails ?? {}) || result.name || result.display_name.split(',')[0],
+        names: localizedNames(result.namedetails ?? {}),
+        address: formatAddress(addressComponents),
+        addressComponents,
+        coordinates: {
+          type: 'Point' as const,
+          coordinates: [parseFloat(result.lon), parseFloat(result.lat)] as [number, number]
+        },
+        // Nominatim's category and type are the OSM tag key and value
+        ...taxonomy.categorize({ [result.category]: result.type }),
+        ...(addressComponents.country && { country: addressComponents.country }),
+        source: this.name,
+        updatedAt: new Date()
+      }));
+  }
+
+  /**
+   * Structured address of a result, from its `addressdetails` fields
+   */
+  private addressOf(address: Record<string, string> = {}): PlaceAddress {
+    const components: PlaceAddress = {
+      housenumber: address.house_number,
+      street: address.road || address.pedestrian || address.square,
+      city: address.city || address.town || address.village || address.municipality,
+      postcode: address.postcode,
+      state: address.state || address.province,
+      country: address.country_code?.toUpperCase()
+    };
+
+    return Object.fromEntries(Object.entries(components).filter(([, value]) => value)) as PlaceAddress;
+  }
+}
+
+export default NominatimProvider;
@@ -0,0 +1,195 @@
+import type { OpeningHours, OpeningInterval } from '../schemas/validation';
+
+// Opening state of a place at a given time
+export interface OpeningState {
+  open: boolean;
+  // When the place next opens or closes, null when it doesn't within a week
+  nextChange: Date | null;
+}
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const DAY_SELECTOR = '(?:Mo|Tu|We|Th|Fr|Sa|Su)(?:\\s*-\\s*(?:Mo|Tu|We|Th|Fr|Sa|Su))?|PH';
+
+// Optional comma-separated day selectors followed by the rest of the rule, e.g. `Mo-Fr,PH 09:00-17:00`
+const RULE = new RegExp(`^(?:((?:${DAY_SELECTOR})(?:\\s*,\\s*(?:${DAY_SELECTOR}))*)(?:\\s+|$))?(.*)$`);
+const TIME_RANGE = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+// Commas starting an additional rule, e.g. in `Mo-Fr 09:00-17:00, Sa 10:00-12:00`
+const ADDITIONAL_RULE = /(?<=\d|off|closed)\s*,\s*(?=(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)\b)/;
+
+const MINUTES_PER_DAY = 24 * 60;
+const localTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse an OSM `opening_hours` tag into a weekly schedule
+ * Supports the common syntax: `24/7`, weekday ranges (`Mo-Fr`, `Fr-Mo`), several time ranges
+ * (`08:00-12:00,14:00-18:00`), ranges past midnight (`18:00-02:00`), `off`/`closed`, `PH` rules,
+ * rules overriding earlier ones for their days (`;`) and additional rules (`, Sa 10:00-12:00`).
+ * Month, week, date and sunrise/sunset selectors are not supported.
+ * @returns The schedule, or null when the tag uses unsupported syntax
+ */
+export function parseOpeningHours(raw: string): OpeningHours | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  const week: OpeningInterval[][] = WEEKDAYS.map(() => []);
+  let publicHolidays: OpeningInterval[] | undefined;
+
+  for (const rule of value.split(/\s*(?:;|\|\|)\s*/).filter(Boolean)) {
+    // Days whose intervals this rule already replaced, additional rules add to them
+    const replaced = new Set<number | 'PH'>();
+
+    for (const part of rule.split(ADDITIONAL_RULE)) {
+      const match = RULE.exec(part.trim());
+      if (!match) return null;
+
+      const [, selectors, rest] = match;
+      const intervals = parseTimes(rest.trim(), !selectors);
+      if (!intervals) return null;
+
+      for (const day of selectors ? parseDays(selectors) : WEEKDAYS.map((_, index) => index)) {
+        if (day === 'PH') {
+          publicHolidays = replaced.has(day) ? [...(publicHolidays ?? []), ...intervals] : [...intervals];
+        } else {
+          week[day] = replaced.has(day) ? [...week[day], ...intervals] : [...intervals];
+        }
+        replaced.add(day);
+      }
+    }
+  }
+
+  return { raw: value, week, ...(publicHolidays && { publicHolidays }) };
+}
+
+/**
+ * Whether a schedule is open at a time and when that changes, in the place's time zone
+ * Public holiday rules are kept but not applied, there is no holiday calendar to know which days they are.
+ */
+export function openingStateAt(hours: OpeningHours, at: Date, timezone: string): OpeningState {
+  const { weekday, minutes } = localTime(at, timezone);
+
+  // Open intervals from yesterday, for those past midnight, to a week ahead, in minutes since midnight today
+  const horizon = 8 * MINUTES_PER_DAY;
+  const intervals: [number, number][] = [];
+  for (let day = -1; day < 8; day++) {
+    for (const [open, close] of hours.week[(weekday + day + 7) % 7]) {
+      intervals.push([day * MINUTES_PER_DAY + open, day * MINUTES_PER_DAY + close]);
+    }
+  }
+
+  // Back-to-back intervals such as `Mo-Su 00:00-24:00` don't change anything
+  const merged: [number, number][] = [];
+  for (const interval of intervals.sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+
+  const toDate = (minute: number) => new Date(at.getTime() + (minute - minutes) * 60 * 1000);
+
+  const current = merged.find(([open, close]) => open <= minutes && minutes < close);
+  if (current) {
+    return { open: true, nextChange: current[1] >= horizon ? null : toDate(current[1]) };
+  }
+
+  const next = merged.find(([open]) => open > minutes);
+  return { open: false, nextChange: next ? toDate(next[0]) : null };
+}
+
+/**
+ * Time zone opening hours of a place are evaluated in: its own, or the nautical time zone of its
+ * longitude (UTC offset of `lon / 15` hours, without daylight saving time) when unknown
+ */
+export function timezoneOf(place: { timezone?: string; coordinates: { coordinates: [number, number] } }): string {
+  if (place.timezone) return place.timezone;
+
+  const offset = Math.round(place.coordinates.coordinates[0] / 15);
+  // Etc/GMT zones have inverted signs: Etc/GMT-2 is UTC+2
+  return offset === 0 ? 'Etc/GMT' : `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+}
+
+/**
+ * Whether a time zone is a valid IANA time zone, e.g. from an OSM `timezone` tag
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Days of comma-separated day selectors, weekday ranges may wrap around the week (`Fr-Mo`)
+ */
+function parseDays(selectors: string): (number | 'PH')[] {
+  return selectors.split(/\s*,\s*/).flatMap<number | 'PH'>(selector => {
+    if (selector === 'PH') return ['PH'];
+
+    const [from, to = from] = selector.split(/\s*-\s*/).map(day => WEEKDAYS.indexOf(day));
+    const days: number[] = [];
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === to) break;
+    }
+    return days;
+  });
+}
+
+/**
+ * Intervals of the time part of a rule, null when unsupported
+ * Rules with days but no times are open all day on those days
+ */
+function parseTimes(times: string, withoutDays: boolean): OpeningInterval[] | null {
+  if (times === 'off' || times === 'closed') return [];
+  if (times === '24/7' && withoutDays) return [[0, MINUTES_PER_DAY]];
+  if (times === '' && !withoutDays) return [[0, MINUTES_PER_DAY]];
+
+  const intervals: OpeningInterval[] = [];
+
+  for (const range of times.split(/\s*,\s*/)) {
+    const match = TIME_RANGE.exec(range);
+    if (!match) return null;
+
+    const [openHour, openMinute, closeHour, closeMinute] = match.slice(1).map(Number);
+    if (openMinute > 59 || closeMinute > 59) return null;
+
+    const open = openHour * 60 + openMinute;
+    let close = closeHour * 60 + closeMinute;
+    // `18:00-02:00` closes the next day
+    if (close <= open) close += MINUTES_PER_DAY;
+
+    if (open > MINUTES_PER_DAY || close > 2 * MINUTES_PER_DAY) return null;
+    intervals.push([open, close]);
+  }
+
+  return intervals;
+}
+
+/**
+ * Weekday (Monday first) and minutes since midnight of a time in a time zone
+ */
+function localTime(at: Date, timezone: string): { weekday: number; minutes: number } {
+  let format = localTimeFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    });
+    localTimeFormats.set(timezone, format);
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(at).map(part => [part.type, part.value]));
+
+  return {
+    weekday: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * OpenStreetMap tag conventions shared by the providers that read OSM data
+ */
+import type { PlaceAddress } from '../../types';
+
+// Tags identifying a point of interest
+export const RELEVANT_TAGS = [
+  'tourism',
+  'historic',
+  'amenity',
+  'leisure',
+  'shop',
+  'building',
+  'man_made',
+  'natural',
+  'landmark'
+];
+
+// Tag values that never make an interesting place
+export const EXCLUDED_VALUES = [
+  'bench',
+  'waste_basket',
+  'telephone',
+  'parking',
+  'parking_space',
+  'no',
+  'none',
+  'unknown'
+];
+
+// `name:<language>` tags, e.g. `name:pt` or `name:zh-Hant`, but not `name:left` or `name:etymology`
+const LOCALIZED_NAME_TAG = /^name:([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)$/;
+
+/**
+ * Canonical name of an element: its `name` tag, in the local language, or `name:en` without one
+ */
+export function canonicalName(tags: Record<string, string | undefined>): string | undefined {
+  return tags.name || tags['name:en'];
+}
+
+/**
+ * Localized names of an element keyed by language, from its `name:<language>` tags
+ */
+export function localizedNames(tags: Record<string, string | undefined>): Record<string, string> {
+  const names: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(tags)) {
+    const language = LOCALIZED_NAME_TAG.exec(key)?.[1];
+    if (language && value) {
+      names[language] = value;
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Structured address of an element from its `addr:*` tags, only with the tagged components
+ */
+export function addressFromTags(tags: Record<string, string | undefined>): PlaceAddress {
+  const components: PlaceAddress = {
+    housenumber: tags['addr:housenumber'],
+    // Addresses without a street belong to a named place, e.g. a square or a hamlet
+    street: tags['addr:street'] || tags['addr:place'],
+    city: tags['addr:city'],
+    postcode: tags['addr:postcode'],
+    state: tags['addr:state'] || tags['addr:province'],
+    country: tags['addr:country']?.trim().toUpperCase()
+  };
+
+  return Object.fromEntries(
+    Object.entries(components).filter(([, value]) => value?.trim())
+  ) as PlaceAddress;
+}
+
+/**
+ * Whether an element is worth listing: named, tagged as a point of interest and not excluded
+ */
+export function isRelevantElement(tags: Record<string, string | undefined> | undefined): boolean {
+  if (!tags) return false;
+
+  const hasName = canonicalName(tags);
+  const isExcluded = EXCLUDED_VALUES.some(excluded =>
+    // Check if any relevant tag has an excluded value
+    RELEVANT_TAGS.some(tag => tags[tag] === excluded) ||
+    // Check if any landmark tag has an excluded value
+    tags[excluded] !== undefined
+  );
+  const hasRelevantTag = RELEVANT_TAGS.some(tag => tags[tag] !== undefined);
+
+  return Boolean(hasName) && !isExcluded && hasRelevantTag;
+}
@@ -0,0 +1,210 @@
+import axios from 'axios';
+import type { ApiError, OverpassElement } from '../../types';
+import { CircuitBreaker, type BreakerStatus } from './CircuitBreaker';
+import { logger } from '../logger';
+
+// Response of the Overpass API in `[out:json]` format
+export interface OverpassResponse {
+  elements?: OverpassElement[];
+  // Set when the query failed on the server, e.g. `runtime error: Query timed out`
+  remark?: string;
+}
+
+export interface OverpassClientOptions {
+  timeout?: number;
+  // Retries after the first attempt, each on the next available mirror
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // Longest wait between attempts; mirrors asking to wait longer with Retry-After are skipped
+  maxDelayMs?: number;
+  failureThreshold?: number;
+  cooldownMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Health of an Overpass mirror, reported by GET /health
+export interface MirrorStatus extends BreakerStatus {
+  url: string;
+  retryAfterUntil?: string;
+}
+
+interface Mirror {
+  url: string;
+  breaker: CircuitBreaker;
+  // Set from the Retry-After header of throttled responses
+  retryAfterUntil: number;
+}
+
+/**
+ * Every Overpass mirror failed, is throttling us or has its circuit open
+ * Unlike an empty response, this means the places of the area are unknown
+ */
+export class OverpassUnavailableError extends Error implements ApiError {
+  statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'OverpassUnavailableError';
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Overpass API client spreading queries over several mirrors
+ * Timeouts, network errors, 429 and 5xx responses are retried with exponential backoff on the next
+ * mirror, honouring Retry-After. Each mirror has a circuit breaker, so a mirror that keeps failing
+ * is skipped until its cool-down ends. Other 4xx responses mean the query is wrong and are not retried.
+ */
+export class OverpassClient {
+  static readonly DEFAULT_MIRRORS = [
+    'https://overpass-api.de/api/interpreter',
+    'https://overpass.kumi.systems/api/interpreter'
+  ];
+
+  public mirrors: Mirror[];
+  public timeout: number;
+  public maxRetries: number;
+  public baseDelayMs: number;
+  public maxDelayMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  // Index of the mirror tried first by the next query, so queries rotate over mirrors
+  private nextMirror = 0;
+
+  constructor(urls: string[] = OverpassClient.mirrorsFromEnv(), options: OverpassClientOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one Overpass mirror is required');
+    }
+
+    const breakerOptions = {
+      failureThreshold: options.failureThreshold ?? parseInt(process.env.OVERPASS_BREAKER_THRESHOLD || '5', 10),
+      cooldownMs: options.cooldownMs ?? parseInt(process.env.OVERPASS_BREAKER_COOLDOWN_SECONDS || '60', 10) * 1000
+    };
+
+    this.mirrors = urls.map(url => ({ url, breaker: new CircuitBreaker(breakerOptions), retryAfterUntil: 0 }));
+    this.timeout = options.timeout ?? 30000;
+    this.maxRetries = options.maxRetries ?? parseInt(process.env.OVERPASS_MAX_RETRIES || '3', 10);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.sleep = options.sleep ?? sleep;
+  }
+
+  /**
+   * Mirrors from OVERPASS_URLS, or the single OVERPASS_URL, or the public DEFAULT_MIRRORS
+   */
+  static mirrorsFromEnv(): string[] {
+    const urls = process.env.OVERPASS_URLS || process.env.OVERPASS_URL;
+    if (!urls) return [...this.DEFAULT_MIRRORS];
+
+    return urls.split(',').map(url => url.trim()).filter(Boolean);
+  }
+
+  /**
+   * Run an Overpass QL query
+   * @throws OverpassUnavailableError when no mirror answered within the retries
+   * @throws the request error for queries rejected as invalid (4xx other than 429)
+   */
+  async query(query: string): Promise<OverpassResponse> {
+    let lastError = 'no mirror available';
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const mirror = this.pickMirror(Date.now());
+      if (!mirror) break;
+
+      // Jittered so concurrent queries don't retry in lockstep
+      const backoff = attempt > 0 ? this.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2) : 0;
+      const wait = Math.min(this.maxDelayMs, Math.max(backoff, mirror.retryAfterUntil - Date.now()));
+      if (wait > 0) {
+        await this.sleep(wait);
+      }
+
+      try {
+        const response = await axios.post<OverpassResponse>(mirror.url, query, {
+          timeout: this.timeout,
+          headers: { 'Content-Type': 'text/plain' }
+        });
+
+        // Overpass reports query timeouts and memory exhaustion with a 200 and partial results
+        if (response.data?.remark?.includes('runtime error')) {
+          throw new Error(response.data.remark);
+        }
+
+        mirror.breaker.recordSuccess();
+        return response.data;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        lastError = status ? `HTTP ${status} from ${mirror.url}` : `${(error as Error).message} from ${mirror.url}`;
+
+        if (status && status >= 400 && status < 500 && status !== 429) {
+          throw error;
+        }
+
+        mirror.breaker.recordFailure(lastError);
+        const retryAfter = axios.isAxiosError(error) ? this.retryAfterMs(error.response?.headers?.['retry-after']) : null;
+        if (retryAfter !== null) {
+          mirror.retryAfterUntil = Date.now() + retryAfter;
+        }
+
+        logger.warn(`Overpass attempt ${attempt + 1} of ${this.maxRetries + 1} failed: ${lastError}`);
+      }
+    }
+
+    throw new OverpassUnavailableError(`Overpass is unavailable: ${lastError}`);
+  }
+
+  /**
+   * Breaker state and recent error rate of every mirror
+   */
+  status(): MirrorStatus[] {
+    const now = Date.now();
+
+    return this.mirrors.map(mirror => ({
+      url: mirror.url,
+      ...mirror.breaker.status(now),
+      ...(mirror.retryAfterUntil > now && { retryAfterUntil: new Date(mirror.retryAfterUntil).toISOString() })
+    }));
+  }
+
+  /**
+   * Next mirror in rotation whose circuit is not open, preferring mirrors that are not throttling
+   * us; throttled mirrors are only picked when their wait fits within maxDelayMs
+   */
+  private pickMirror(now: number): Mirror | null {
+    const rotation = this.mirrors.map((_, index) => this.mirrors[(this.nextMirror + index) % this.mirrors.length]);
+    const usable = rotation.filter(mirror =>
+      mirror.breaker.canRequest(now) && mirror.retryAfterUntil - now <= this.maxDelayMs
+    );
+
+    const mirror = usable.find(candidate => candidate.retryAfterUntil <= now) ??
+      usable.sort((a, b) => a.retryAfterUntil - b.retryAfterUntil)[0];
+    if (!mirror) return null;
+
+    this.nextMirror = (this.mirrors.indexOf(mirror) + 1) % this.mirrors.length;
+    return mirror;
+  }
+
+  /**
+   * Delay asked by a Retry-After header, in seconds or as an HTTP date
+   */
+  private retryAfterMs(header: unknown): number | null {
+    if (typeof header !== 'string' || !header.trim()) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
+
+let overpassClient: OverpassClient | null = null;
+
+/**
+ * Shared OverpassClient, so breakers see every query
+ */
+export const getOverpassClient = (): OverpassClient => {
+  overpassClient ??= new OverpassClient();
+  return overpassClient;
+};
+
+export default OverpassClient;
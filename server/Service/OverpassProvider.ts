@@ -0,0 +1,274 @@
+import type { PlaceDocument, ApiError, PlaceData, OverpassElement } from '../../types';
+import type { PlaceProvider, ProviderHealth } from './PlaceProvider';
+import { getOverpassClient, OverpassUnavailableError, type OverpassClient } from './OverpassClient';
+import { placeFromOsmElement } from './PlaceParsers';
+import PlaceStore from './PlaceStore';
+import TileCoverage from './TileCoverage';
+import { getRefreshQueue, type RefreshQueue, type TileRefresher } from './RefreshQueue';
+import { polygonsOf, type GeoJSONArea } from '../schemas/validation';
+import { boundingBoxRing, geohashBounds, isInPolygon, nearestPlaces, type GeohashBounds, type NearbyBound, type Position } from '../utils';
+import { logger } from '../logger';
+
+/**
+ * Place provider backed by the Overpass API
+ * Provides geospatial data from OpenStreetMap, cached in MongoDB by geohash tile for PlaceStore.CACHE_DURATION
+ * Queries go through an OverpassClient, which retries over mirrors. Stale tiles are served as they are
+ * and refreshed in the background by a RefreshQueue.
+ */
+export class OverpassProvider implements PlaceProvider, TileRefresher {
+  readonly name = 'overpass' as const;
+  public client: OverpassClient;
+  public queue: RefreshQueue;
+
+  constructor(client: OverpassClient = getOverpassClient(), queue: RefreshQueue = getRefreshQueue()) {
+    this.client = client;
+    this.queue = queue;
+  }
+
+  /**
+   * Query places from Overpass API with fallback to cached data
+   * @param lat - Latitude coordinate
+   * @param lon - Longitude coordinate  
+   * @param radius - Search radius in meters
+   * @param bound - Only the nearest places beyond a distance, every tile of the radius is still fetched
+   * @returns Promise resolving to array of place documents
+   * @throws OverpassUnavailableError when every mirror failed and nothing is cached
+   * @throws ApiError with detailed error information
+   */
+  async queryPlaces(lat: number, lon: number, radius: number, bound?: NearbyBound): Promise<PlaceDocument[]> {
+    try {
+      // Validate input coordinates
+      if (!this.isValidCoordinate(lat, lon, radius)) {
+        throw new Error('Invalid coordinates or radius provided');
+      }
+      
+      const { tiles, missing, stale } = await TileCoverage.tileStates(this.name, lat, lon, radius);
+      // Not awaited, only the refresh scheduler depends on query counts
+      void TileCoverage.recordQueries(this.name, tiles);
+
+      // Stale places are served right away and refreshed in the background
+      if (stale.length > 0) {
+        this.queue.enqueue(this, stale);
+      }
+
+      if (missing.length === 0) {
+        logger.info(`Using cached data for ${lat},${lon} with radius ${radius}`);
+        return await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+      }
+
+      // Areas never fetched have nothing to serve yet
+      logger.info(`Making Overpass API request for ${missing.length} missing tiles around ${lat},${lon} with radius ${radius}`);
+      const places = await this.refreshTiles(missing);
+
+      // Stored places include those of the fresh tiles, with their persisted IDs
+      const nearby = await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+      if (nearby.length > 0) {
+        return nearby;
+      }
+
+      return nearestPlaces(places, lat, lon, radius, bound) as PlaceDocument[];
+    } catch (error) {
+      logger.error('Error in OverpassProvider:', error);
+      
+      // Fallback to cached data
+      const cachedData = await PlaceStore.findNearby(this.name, lat, lon, radius, bound);
+      if (cachedData.length > 0) {
+        logger.warn(`Serving ${cachedData.length} cached places around ${lat},${lon} while Overpass is failing`);
+        return cachedData;
+      }
+
+      // Unknown places, not an empty area
+      if (error instanceof OverpassUnavailableError) {
+        throw error;
+      }
+      
+      const apiError = error as ApiError;
+      throw new Error(`Failed to fetch data: ${apiError.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fetch the places of the tiles and store them
+   * One query covers the area of every tile; other tiles inside it are simply refreshed.
+   */
+  async refreshTiles(geohashes: string[]): Promise<PlaceData[]> {
+    return await this.fetchTiles(this.buildQuery([this.bboxFilter(TileCoverage.boundsOf(geohashes))]), geohashes);
+  }
+
+  /**
+   * Places inside a bounding box, at most `limit` of them
+   * Missing tiles are fetched with a `(bbox)` query like those of radius queries.
+   * @throws OverpassUnavailableError when every mirror failed and nothing is cached
+   */
+  async queryBoundingBox(bounds: GeohashBounds, limit: number): Promise<PlaceDocument[]> {
+    const area: GeoJSONArea = { type: 'Polygon', coordinates: [boundingBoxRing(bounds)] };
+
+    return await this.queryArea(area, TileCoverage.tilesInBounds(bounds), limit, missing => this.refreshTiles(missing));
+  }
+
+  /**
+   * Places inside a polygon or multipolygon, at most `limit` of them
+   * Missing tiles inside the outlines are fetched with a `poly:` query of the outlines, so long thin areas
+   * don't fetch their whole bounding box; missing tiles across an outline are fetched whole.
+   * @throws OverpassUnavailableError when every mirror failed and nothing is cached
+   */
+  async queryPolygon(area: GeoJSONArea, limit: number): Promise<PlaceDocument[]> {
+    const outlines = polygonsOf(area).map(([outline]) => outline);
+    const { tiles, inside } = TileCoverage.tilesInPolygons(outlines);
+
+    return await this.queryArea(area, tiles, limit, missing => {
+      const across = missing.filter(geohash => !inside.includes(geohash));
+      const filters = [
+        ...(across.length < missing.length ? outlines.map(outline => this.polyFilter(outline)) : []),
+        ...across.map(geohash => this.bboxFilter(geohashBounds(geohash)))
+      ];
+
+      return this.fetchTiles(this.buildQuery(filters), missing);
+    });
+  }
+
+  /**
+   * Stored places of an area, once its missing tiles are fetched
+   * Like radius queries, stale tiles are refreshed in the background and stored places are served
+   * while Overpass is failing.
+   */
+  private async queryArea(
+    area: GeoJSONArea,
+    tiles: string[],
+    limit: number,
+    fetchMissing: (missing: string[]) => Promise<PlaceData[]>
+  ): Promise<PlaceDocument[]> {
+    let places: PlaceData[] = [];
+
+    try {
+      const { missing, stale } = await TileCoverage.statesOf(this.name, tiles);
+      void TileCoverage.recordQueries(this.name, tiles);
+
+      if (stale.length > 0) {
+        this.queue.enqueue(this, stale);
+      }
+
+      if (missing.length > 0) {
+        logger.info(`Making Overpass API request for ${missing.length} missing tiles of a ${area.type}`);
+        places = await fetchMissing(missing);
+      }
+    } catch (error) {
+      logger.error('Error in OverpassProvider:', error);
+
+      const cachedData = await PlaceStore.findWithin(this.name, area, limit);
+      if (cachedData.length > 0) {
+        logger.warn(`Serving ${cachedData.length} cached places of a ${area.type} while Overpass is failing`);
+        return cachedData;
+      }
+
+      if (error instanceof OverpassUnavailableError) {
+        throw error;
+      }
+
+      const apiError = error as ApiError;
+      throw new Error(`Failed to fetch data: ${apiError.message || 'Unknown error'}`);
+    }
+
+    const stored = await PlaceStore.findWithin(this.name, area, limit);
+    if (stored.length > 0 || places.length === 0) {
+      return stored;
+    }
+
+    // Fetched places could not be stored
+    return places.filter(place => {
+      const [placeLon, placeLat] = place.coordinates.coordinates;
+      return polygonsOf(area).some(rings => isInPolygon(placeLat, placeLon, rings));
+    }).slice(0, limit) as PlaceDocument[];
+  }
+
+  /**
+   * Run a query covering the tiles and store the places it returns
+   * Tiles are recorded as fetched once the query succeeded, including empty ones so areas without places
+   * are not fetched again, and places that failed to store are only logged: fetching again would return
+   * the same places, so they would keep failing while every request queried Overpass.
+   */
+  private async fetchTiles(query: string, geohashes: string[]): Promise<PlaceData[]> {
+    const data = await this.client.query(query);
+
+    logger.info(`Received ${data.elements?.length || 0} elements from Overpass API`);
+    const places = this.parseResponse(data);
+    logger.info(`Parsed ${places.length} places from Overpass API response`);
+
+    // Store in MongoDB, failures are logged and don't affect the results
+    const stored = places.length > 0 ? await PlaceStore.upsert(places) : null;
+
+    if (stored && stored.failed > 0) {
+      logger.warn(`Failed to store ${stored.failed} of ${places.length} places from Overpass, their tiles are still recorded as fetched`);
+    }
+
+    await TileCoverage.markFetched(this.name, geohashes, places);
+
+    return places;
+  }
+
+  /**
+   * Validate coordinate inputs
+   */
+  private isValidCoordinate(lat: number, lon: number, radius: number): boolean {
+    return lat >= -90 && lat <= 90 && 
+           lon >= -180 && lon <= 180 && 
+           radius > 0 && radius <= 10000;
+  }
+
+  /**
+   * Query for named elements in the union of areas, each a `(bbox)` or `(poly:...)` filter
+   * `out meta` includes element versions, `center` places ways and relations at their center
+   */
+  private buildQuery(areas: string[]): string {
+    const timeout = Math.floor(this.client.timeout / 1000);
+    
+    // Elements with relevant tags are a subset of named elements, filtered in parseResponse
+    let query = `[out:json][timeout:${timeout}];\n(\n`;
+    for (const area of areas) {
+      query += `  node[\"name\"]${area};\n`;
+      query += `  way[\"name\"]${area};\n`;
+      query += `  relation[\"name\"]${area};\n`;
+    }
+    query += `);\nout meta center;`;
+    
+    return query;
+  }
+
+  private bboxFilter({ minLat, minLon, maxLat, maxLon }: GeohashBounds): string {
+    return `(${[minLat, minLon, maxLat, maxLon].join(',')})`;
+  }
+
+  /**
+   * Filter of a closed ring, as latitude and longitude pairs without the closing position
+   */
+  private polyFilter(ring: Position[]): string {
+    return `(poly:"${ring.slice(0, -1).map(([lon, lat]) => `${lat} ${lon}`).join(' ')}")`;
+  }
+
+  /**
+   * Health of the Overpass mirrors, healthy while one of them accepts requests
+   */
+  health(): ProviderHealth {
+    const mirrors = this.client.status();
+    return { healthy: mirrors.some(mirror => mirror.state !== 'open'), endpoints: mirrors };
+  }
+
+  parseResponse(data: { elements?: any[] }): PlaceData[] {
+    if (!data.elements) {
+      logger.warn('No elements found in Overpass API response');
+      return [];
+    }
+
+    logger.info(`Processing ${data.elements.length} elements from Overpass API`);
+
+    const places = data.elements
+      .map((element: OverpassElement) => placeFromOsmElement(element, this.name).place)
+      .filter((place): place is PlaceData => place !== undefined);
+
+    logger.info(`Filtered to ${places.length} elements after exclusion checks`);
+
+    return places;
+  }
+}
+
+export default OverpassProvider;
@@ -0,0 +1,147 @@
+import sharp from 'sharp';
+import { Types } from 'mongoose';
+import { logger } from '../logger';
+import type { StorageAdapter } from './StorageAdapter';
+import type { ApiError, PhotoVariant } from '../../types';
+
+// Photo accepted by the service, ready to be saved as a PlacePhoto
+export interface StoredPhoto {
+  _id: Types.ObjectId;
+  storageKey: string;
+  url: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  variants: PhotoVariant[];
+}
+
+/**
+ * Upload rejected because of its size or content, `statusCode` is the HTTP status to answer with
+ */
+export class PhotoUploadError extends Error implements ApiError {
+  statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'PhotoUploadError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Validates uploaded photos, strips their metadata and generates thumbnail variants
+ * The declared content type must match the decoded image format, so renamed files are rejected
+ */
+export class PhotoService {
+  static readonly MAX_BYTES = parseInt(process.env.PHOTO_MAX_BYTES || String(10 * 1024 * 1024), 10);
+
+  // Accepted content types and the sharp format each must decode as
+  static readonly ALLOWED_TYPES: Record<string, { format: 'jpeg' | 'png' | 'webp'; extension: string }> = {
+    'image/jpeg': { format: 'jpeg', extension: 'jpg' },
+    'image/png': { format: 'png', extension: 'png' },
+    'image/webp': { format: 'webp', extension: 'webp' }
+  };
+
+  // Longest side in pixels of each thumbnail variant
+  static readonly THUMBNAIL_SIZES: Record<string, number> = {
+    small: 256,
+    medium: 1024
+  };
+
+  public storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Validate a photo and store it with its thumbnails
+   * @throws PhotoUploadError with 413 for oversized files and 415 for unsupported or corrupt images
+   */
+  async store(placeId: string, file: File): Promise<StoredPhoto> {
+    if (file.size > PhotoService.MAX_BYTES) {
+      throw new PhotoUploadError(413, `Photos cannot exceed ${Math.floor(PhotoService.MAX_BYTES / (1024 * 1024))}MB`);
+    }
+
+    const allowed = PhotoService.ALLOWED_TYPES[file.type];
+    if (!allowed) {
+      throw new PhotoUploadError(415, `Unsupported content type ${file.type || 'unknown'}, expected one of ${Object.keys(PhotoService.ALLOWED_TYPES).join(', ')}`);
+    }
+
+    const input = new Uint8Array(await file.arrayBuffer());
+    const format = await sharp(input).metadata().then(metadata => metadata.format, () => null);
+
+    if (format !== allowed.format) {
+      throw new PhotoUploadError(415, `File content is not a valid ${file.type} image`);
+    }
+
+    const photoId = new Types.ObjectId();
+    const prefix = `places/${placeId}/${photoId}`;
+    const storedKeys: string[] = [];
+
+    try {
+      // Re-encoding applies the EXIF orientation and drops metadata such as GPS tags
+      const original = await sharp(input).rotate().toFormat(allowed.format).toBuffer({ resolveWithObject: true });
+      const storageKey = `${prefix}/original.${allowed.extension}`;
+      await this.storage.put(storageKey, original.data, file.type);
+      storedKeys.push(storageKey);
+
+      const variants: PhotoVariant[] = [];
+      for (const [name, size] of Object.entries(PhotoService.THUMBNAIL_SIZES)) {
+        const thumbnail = await sharp(input)
+          .rotate()
+          .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer({ resolveWithObject: true });
+
+        const key = `${prefix}/${name}.webp`;
+        await this.storage.put(key, thumbnail.data, 'image/webp');
+        storedKeys.push(key);
+
+        variants.push({
+          name,
+          storageKey: key,
+          url: this.storage.url(key),
+          width: thumbnail.info.width,
+          height: thumbnail.info.height
+        });
+      }
+
+      return {
+        _id: photoId,
+        storageKey,
+        url: this.storage.url(storageKey),
+        contentType: file.type,
+        size: original.data.length,
+        width: original.info.width,
+        height: original.info.height,
+        variants
+      };
+    } catch (error) {
+      // Don't leave orphaned files behind
+      await Promise.allSettled(storedKeys.map(key => this.storage.delete(key)));
+      logger.error(`Failed to store photo for place ${placeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the files of a stored photo, ignoring files already gone
+   */
+  async remove(photo: Pick<StoredPhoto, 'storageKey' | 'variants'>): Promise<void> {
+    const keys = [photo.storageKey, ...photo.variants.map(variant => variant.storageKey)];
+    await Promise.allSettled(keys.map(key => this.storage.delete(key)));
+  }
+
+  /**
+   * Content type of a stored file, from its extension
+   */
+  static contentTypeOf(key: string): string {
+    const extension = key.split('.').pop();
+    const match = Object.entries(this.ALLOWED_TYPES).find(([, allowed]) => allowed.extension === extension);
+    return match ? match[0] : 'application/octet-stream';
+  }
+}
+
+export default PhotoService;
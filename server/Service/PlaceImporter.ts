@@ -0,0 +1,293 @@
+import { createReadStream } from 'fs';
+import { Readable, pipeline } from 'stream';
+import sax from 'sax';
+import parserStream from 'stream-json';
+import pick from 'stream-json/filters/pick.js';
+import streamArray from 'stream-json/streamers/stream-array.js';
+import type { PlaceData, ProviderSource, OverpassElement } from '../../types';
+import {
+  placeFromGeoJSONFeature,
+  placeFromOsmElement,
+  type GeoJSONFeature,
+  type PlaceParseResult,
+  type PlaceRejection
+} from './PlaceParsers';
+import PlaceStore, { type PlaceUpsertResult } from './PlaceStore';
+import { logger } from '../logger';
+
+export type ImportFormat = 'geojson' | 'osm';
+
+// A record of the input file that did not become a place
+export interface RejectedRecord {
+  id: string;
+  reason: PlaceRejection | 'invalid_record';
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  source: ProviderSource;
+  processed: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  rejected: number;
+  rejections: Partial<Record<RejectedRecord['reason'], number>>;
+  // First few rejected records, to diagnose the input
+  samples: RejectedRecord[];
+  durationMs: number;
+}
+
+export interface ImportOptions {
+  format?: ImportFormat;
+  // Defaults to `overpass` for OSM extracts, so they warm the Overpass cache, and `geojson` otherwise
+  source?: ProviderSource;
+  batchSize?: number;
+  onProgress?: (report: ImportReport) => void;
+  // Persistence of each batch, PlaceStore.upsert by default
+  store?: (places: PlaceData[]) => Promise<PlaceUpsertResult>;
+}
+
+// Record read from the input along with its parse result
+interface ParsedRecord {
+  id: string;
+  result: PlaceParseResult | { rejected: 'invalid_record' };
+}
+
+// OSM element being read from XML, until its closing tag
+interface OsmXmlElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  version?: number;
+  lat?: number;
+  lon?: number;
+  tags: Record<string, string>;
+  nodeRefs: number[];
+  members: { type: string; ref: number }[];
+}
+
+/**
+ * Streams GeoJSON FeatureCollections and OSM XML extracts into the Place collection
+ * Records go through the same filtering and category derivation as provider results and are
+ * upserted in batches, so re-importing an updated extract refreshes places instead of duplicating them.
+ */
+export class PlaceImporter {
+  static readonly DEFAULT_BATCH_SIZE = 500;
+  static readonly MAX_REJECTION_SAMPLES = 20;
+
+  /**
+   * Import a file, guessing its format from the extension unless `options.format` is set
+   */
+  static async importFile(filePath: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const format = options.format ?? this.detectFormat(filePath);
+    return await this.importStream(createReadStream(filePath), { ...options, format });
+  }
+
+  static detectFormat(filePath: string): ImportFormat {
+    if (/\.(geo)?json$/i.test(filePath)) return 'geojson';
+    if (/\.(osm|xml)$/i.test(filePath)) return 'osm';
+
+    throw new Error(`Cannot guess the format of ${filePath}, expected a .geojson, .json, .osm or .xml file`);
+  }
+
+  static async importStream(
+    input: AsyncIterable<Buffer | string>,
+    options: ImportOptions & { format: ImportFormat }
+  ): Promise<ImportReport> {
+    const {
+      format,
+      source = format === 'osm' ? 'overpass' : 'geojson',
+      batchSize = this.DEFAULT_BATCH_SIZE,
+      onProgress,
+      store = (places: PlaceData[]) => PlaceStore.upsert(places)
+    } = options;
+
+    const startedAt = Date.now();
+    const report: ImportReport = {
+      format,
+      source,
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      rejected: 0,
+      rejections: {},
+      samples: [],
+      durationMs: 0
+    };
+
+    let batch: PlaceData[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+
+      const result = await store(batch);
+      report.inserted += result.inserted;
+      report.updated += result.updated;
+      report.skipped += result.skipped;
+      report.failed += result.failed;
+      batch = [];
+
+      report.durationMs = Date.now() - startedAt;
+      logger.info(`Imported ${report.processed} records: ${report.inserted} inserted, ${report.updated} updated, ${report.rejected} rejected`);
+      onProgress?.(report);
+    };
+
+    const records = format === 'osm' ? this.readOsmXml(input, source) : this.readGeoJSON(input, source);
+
+    for await (const { id, result } of records) {
+      report.processed++;
+
+      if (result.rejected) {
+        report.rejected++;
+        report.rejections[result.rejected] = (report.rejections[result.rejected] ?? 0) + 1;
+        if (report.samples.length < this.MAX_REJECTION_SAMPLES) {
+          report.samples.push({ id, reason: result.rejected });
+        }
+        continue;
+      }
+
+      batch.push(result.place);
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    await flush();
+    report.durationMs = Date.now() - startedAt;
+
+    return report;
+  }
+
+  /**
+   * Features of a FeatureCollection, one at a time
+   */
+  private static async *readGeoJSON(input: AsyncIterable<Buffer | string>, source: ProviderSource): AsyncGenerator<ParsedRecord> {
+    const features = pipeline(
+      Readable.from(input),
+      parserStream(),
+      pick.asStream({ filter: 'features' }),
+      streamArray.asStream(),
+      // Errors surface through the iteration below
+      () => {}
+    );
+
+    for await (const { key, value } of features as AsyncIterable<{ key: number; value: GeoJSONFeature }>) {
+      const id = value?.id !== undefined ? String(value.id) : `features[${key}]`;
+
+      if (!value || typeof value !== 'object') {
+        yield { id, result: { rejected: 'invalid_record' } };
+        continue;
+      }
+
+      yield { id, result: placeFromGeoJSONFeature(value, source) };
+    }
+  }
+
+  /**
+   * Tagged nodes, ways and relations of an OSM XML extract, one at a time
+   * Ways and relations are placed at the center of their bounding box, like Overpass `out center`.
+   * Node positions are kept in memory for that, and extracts list nodes before ways and relations.
+   */
+  private static async *readOsmXml(input: AsyncIterable<Buffer | string>, source: ProviderSource): AsyncGenerator<ParsedRecord> {
+    const nodePositions = new Map<number, [number, number]>();
+    const wayCenters = new Map<number, [number, number]>();
+    const parsed: ParsedRecord[] = [];
+    let current: OsmXmlElement | null = null;
+
+    const parser = sax.parser(true);
+
+    parser.onopentag = ({ name, attributes }) => {
+      const attrs = attributes as Record<string, string>;
+
+      if (name === 'node' || name === 'way' || name === 'relation') {
+        current = {
+          type: name,
+          id: Number(attrs.id),
+          version: attrs.version !== undefined ? Number(attrs.version) : undefined,
+          lat: attrs.lat !== undefined ? parseFloat(attrs.lat) : undefined,
+          lon: attrs.lon !== undefined ? parseFloat(attrs.lon) : undefined,
+          tags: {},
+          nodeRefs: [],
+          members: []
+        };
+      } else if (current && name === 'tag' && attrs.k) {
+        current.tags[attrs.k] = attrs.v ?? '';
+      } else if (current && name === 'nd') {
+        current.nodeRefs.push(Number(attrs.ref));
+      } else if (current && name === 'member') {
+        current.members.push({ type: attrs.type, ref: Number(attrs.ref) });
+      }
+    };
+
+    parser.onclosetag = name => {
+      if (!current || name !== current.type) return;
+
+      const element: OsmXmlElement = current;
+      current = null;
+
+      const center = this.elementCenter(element, nodePositions, wayCenters);
+      if (element.type === 'node' && center) nodePositions.set(element.id, center);
+      if (element.type === 'way' && center) wayCenters.set(element.id, center);
+
+      // Untagged elements only carry geometry
+      if (Object.keys(element.tags).length === 0) return;
+
+      const osmElement: OverpassElement = {
+        type: element.type,
+        id: element.id,
+        ...(element.version !== undefined && { version: element.version }),
+        tags: element.tags,
+        ...(center && { center: { lat: String(center[0]), lon: String(center[1]) } })
+      };
+
+      parsed.push({ id: `${element.type}/${element.id}`, result: placeFromOsmElement(osmElement, source) });
+    };
+
+    const decoder = new TextDecoder();
+
+    for await (const chunk of input) {
+      parser.write(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+      yield* parsed.splice(0);
+    }
+
+    parser.close();
+    yield* parsed.splice(0);
+  }
+
+  /**
+   * Position of a node, or center of the bounding box of a way or relation as [lat, lon]
+   */
+  private static elementCenter(
+    element: OsmXmlElement,
+    nodePositions: Map<number, [number, number]>,
+    wayCenters: Map<number, [number, number]>
+  ): [number, number] | null {
+    if (element.type === 'node') {
+      return element.lat !== undefined && element.lon !== undefined ? [element.lat, element.lon] : null;
+    }
+
+    const positions = element.type === 'way'
+      ? element.nodeRefs.map(ref => nodePositions.get(ref))
+      : element.members.map(member =>
+        member.type === 'node' ? nodePositions.get(member.ref) : member.type === 'way' ? wayCenters.get(member.ref) : undefined
+      );
+
+    let [minLat, maxLat, minLon, maxLon] = [Infinity, -Infinity, Infinity, -Infinity];
+    for (const position of positions) {
+      if (!position) continue;
+      const [lat, lon] = position;
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+      minLon = Math.min(minLon, lon);
+      maxLon = Math.max(maxLon, lon);
+    }
+
+    if (minLat === Infinity) return null;
+
+    return [(minLat + maxLat) / 2, (minLon + maxLon) / 2];
+  }
+}
+
+export default PlaceImporter;
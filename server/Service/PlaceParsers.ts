@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import type { PlaceData, ProviderSource, OverpassElement } from '../../types';
+import type { OsmElementType } from '../schemas/validation';
+import { addressFromTags, canonicalName, isRelevantElement, localizedNames } from './OsmTags';
+import { formatAddress } from '../utils';
+import { isValidTimezone, parseOpeningHours } from './OpeningHours';
+import { getCategoryTaxonomy } from './CategoryTaxonomy';
+
+// Why a record could not be turned into a place
+export type PlaceRejection = 'missing_name' | 'unsupported_geometry' | 'invalid_coordinates' | 'not_relevant';
+
+export type PlaceParseResult = { place: PlaceData; rejected?: never } | { place?: never; rejected: PlaceRejection };
+
+// GeoJSON feature as found in a FeatureCollection
+export interface GeoJSONFeature {
+  id?: string | number;
+  geometry?: { type: string; coordinates?: unknown } | null;
+  properties?: Record<string, any> | null;
+}
+
+const isValidPosition = (lon: number, lat: number): boolean =>
+  Number.isFinite(lon) && Number.isFinite(lat) && lon >= -180 && lon <= 180 && lat >= -90 && lat <= 90;
+
+// OSM element reference as written by osmtogeojson, e.g. `node/123`
+const OSM_REFERENCE = /^(node|way|relation)\/(\d+)$/;
+
+/**
+ * Convert an OSM element (Overpass JSON or an OSM XML extract) into a place
+ * Elements need a name and a relevant, non-excluded tag; ways and relations use their center.
+ * `name` is the canonical name and `names` holds the localized ones, see canonicalName.
+ * The address comes from `addr:*` tags; missing components are filled in when stored, see ReverseGeocoder.
+ * Opening hours come from `opening_hours`, and are left out when their syntax is unsupported.
+ * Elements with an OSM type and id keep them, and get an `_id` derived from them.
+ */
+export function placeFromOsmElement(element: OverpassElement, source: ProviderSource): PlaceParseResult {
+  const tags = element.tags || {};
+
+  const name = canonicalName(tags);
+  if (!name) return { rejected: 'missing_name' };
+  if (!isRelevantElement(tags)) return { rejected: 'not_relevant' };
+
+  const lat = parseFloat(element.lat ?? element.center?.lat ?? '');
+  const lon = parseFloat(element.lon ?? element.center?.lon ?? '');
+  if (!isValidPosition(lon, lat)) return { rejected: 'invalid_coordinates' };
+
+  const hasIdentity = element.type !== undefined && element.id !== undefined;
+  const addressComponents = addressFromTags(tags);
+
+  return {
+    place: {
+      _id: hasIdentity ? osmPlaceId(element.type!, element.id!) : new Types.ObjectId(),
+      name,
+      names: localizedNames(tags),
+      address: formatAddress(addressComponents),
+      addressComponents,
+      coordinates: { type: 'Point', coordinates: [lon, lat] },
+      ...getCategoryTaxonomy().categorize(tags),
+      ...(addressComponents.country && { country: addressComponents.country }),
+      source,
+      ...(hasIdentity && { osmType: element.type, osmId: element.id }),
+      ...(element.version !== undefined && { osmVersion: element.version }),
+      ...scheduleOf(tags),
+      updatedAt: new Date()
+    }
+  };
+}
+
+/**
+ * Convert a GeoJSON Point feature into a place
+ * The category comes from a `category` property (a category ID or OSM tag value), or from OSM tags
+ * which must then be relevant.
+ * IDs are stable across imports: derived from the OSM element of features exported from OSM (an
+ * `@id` property or feature ID such as `node/123`), the feature ID when it is an ObjectId, a hash of
+ * the place otherwise.
+ */
+export function placeFromGeoJSONFeature(feature: GeoJSONFeature, source: ProviderSource): PlaceParseResult {
+  const properties = feature.properties ?? {};
+  const name = canonicalName(properties);
+  if (!name) return { rejected: 'missing_name' };
+
+  const coordinates = feature.geometry?.coordinates;
+  if (feature.geometry?.type !== 'Point' || !Array.isArray(coordinates)) return { rejected: 'unsupported_geometry' };
+
+  const [lon, lat] = coordinates;
+  if (typeof lon !== 'number' || typeof lat !== 'number' || !isValidPosition(lon, lat)) {
+    return { rejected: 'invalid_coordinates' };
+  }
+
+  if (!properties.category && !isRelevantElement(properties)) return { rejected: 'not_relevant' };
+
+  const country = properties.country || properties['addr:country'];
+  const addressComponents = {
+    ...addressFromTags(properties),
+    ...(country && { country: String(country).toUpperCase() })
+  };
+  const taxonomy = getCategoryTaxonomy();
+  const osmReference = OSM_REFERENCE.exec(String(properties['@id'] ?? feature.id ?? ''));
+  const osmType = osmReference?.[1] as OsmElementType | undefined;
+  const osmId = osmReference ? Number(osmReference[2]) : undefined;
+
+  return {
+    place: {
+      _id: osmType && osmId ? osmPlaceId(osmType, osmId) : stablePlaceId(feature.id, name, lon, lat),
+      name,
+      names: localizedNames(properties),
+      // A formatted `address` property is kept as is
+      address: typeof properties.address === 'string' && properties.address ? properties.address : formatAddress(addressComponents),
+      addressComponents,
+      coordinates: { type: 'Point', coordinates: [lon, lat] },
+      ...(properties.category ? taxonomy.resolve(String(properties.category)) : taxonomy.categorize(properties)),
+      ...(addressComponents.country && { country: addressComponents.country }),
+      source,
+      ...(osmType && { osmType, osmId }),
+      ...scheduleOf(properties),
+      updatedAt: new Date()
+    }
+  };
+}
+
+/**
+ * Opening hours and time zone of an element, from its `opening_hours` and `timezone` tags
+ */
+function scheduleOf(tags: Record<string, string | undefined>): Pick<PlaceData, 'openingHours' | 'timezone'> {
+  const openingHours = tags.opening_hours ? parseOpeningHours(tags.opening_hours) : null;
+  const timezone = tags.timezone && isValidTimezone(tags.timezone) ? tags.timezone : undefined;
+
+  return {
+    ...(openingHours && { openingHours }),
+    ...(timezone && { timezone })
+  };
+}
+
+function stablePlaceId(id: string | number | undefined, name: string, lon: number, lat: number): Types.ObjectId {
+  if (typeof id === 'string' && id.length === 24 && Types.ObjectId.isValid(id)) {
+    return new Types.ObjectId(id);
+  }
+
+  const hash = createHash('sha1').update(`${name}:${lon}:${lat}`).digest('hex');
+  return new Types.ObjectId(hash.slice(0, 24));
+}
+
+/**
+ * Stable `_id` of the place of an OSM element, so every import of the element yields the same place
+ */
+export function osmPlaceId(osmType: OsmElementType, osmId: number): Types.ObjectId {
+  const hash = createHash('sha1').update(`osm:${osmType}/${osmId}`).digest('hex');
+  return new Types.ObjectId(hash.slice(0, 24));
+}
@@ -0,0 +1,67 @@
+import type { PlaceDocument, ProviderSource } from '../../types';
+import OverpassProvider from './OverpassProvider';
+import GeoJSONProvider from './GeoJSONProvider';
+import NominatimProvider from './NominatimProvider';
+import type { BreakerStatus } from './CircuitBreaker';
+import type { GeoJSONArea } from '../schemas/validation';
+import type { GeohashBounds, NearbyBound } from '../utils';
+
+// Health of a provider's upstream endpoints, reported by GET /health
+export interface ProviderHealth {
+  healthy: boolean;
+  endpoints: (BreakerStatus & { url: string })[];
+}
+
+/**
+ * External source of places around a point, or inside an area
+ * GeoPlaceController fans out to every enabled provider before searching MongoDB, so the places of areas
+ * never fetched are stored first; later pages of a radius search only search MongoDB
+ */
+export interface PlaceProvider {
+  readonly name: ProviderSource;
+  /**
+   * Places within `radius` meters of a point, only the nearest ones within a bound when given
+   * @throws Error when the provider is unavailable and has nothing cached
+   */
+  queryPlaces(lat: number, lon: number, radius: number, bound?: NearbyBound): Promise<PlaceDocument[]>;
+  /**
+   * At most `limit` places inside a bounding box, for providers that support area queries
+   * @throws Error when the provider is unavailable and has nothing cached
+   */
+  queryBoundingBox?(bounds: GeohashBounds, limit: number): Promise<PlaceDocument[]>;
+  /**
+   * At most `limit` places inside a GeoJSON Polygon or MultiPolygon, for providers that support area queries
+   * @throws Error when the provider is unavailable and has nothing cached
+   */
+  queryPolygon?(area: GeoJSONArea, limit: number): Promise<PlaceDocument[]>;
+  /**
+   * Health of the provider's upstream endpoints, for providers that track it
+   */
+  health?(): ProviderHealth;
+}
+
+// Factories of the providers that can be enabled through PLACE_PROVIDERS
+export const PLACE_PROVIDERS: Record<ProviderSource, () => PlaceProvider> = {
+  overpass: () => new OverpassProvider(),
+  geojson: () => new GeoJSONProvider(),
+  nominatim: () => new NominatimProvider()
+};
+
+/**
+ * Create the providers listed in a comma-separated list, `overpass` by default
+ * An empty list disables providers, leaving only places stored in MongoDB
+ * @throws Error for unknown provider names
+ */
+export const createPlaceProviders = (names: string = process.env.PLACE_PROVIDERS ?? 'overpass'): PlaceProvider[] => {
+  return names
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => {
+      const factory = PLACE_PROVIDERS[name as ProviderSource];
+      if (!factory) {
+        throw new Error(`Unknown place provider "${name}", expected one of ${Object.keys(PLACE_PROVIDERS).join(', ')}`);
+      }
+      return factory();
+    });
+};
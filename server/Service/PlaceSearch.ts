@@ -0,0 +1,226 @@
+import { Model, type FilterQuery } from 'mongoose';
+import type { PlaceDocument as MongoPlaceDocument } from '../../types';
+import type { PlaceDocument } from '../schemas/validation';
+import { getPlaceModel } from '../Model/Place';
+import { calculateDistance } from '../utils';
+
+// Search index fields of a place, derived from its canonical and localized names
+export interface PlaceSearchTerms {
+  // Words of the names, normalized, matched by prefix
+  nameTokens: string[];
+  // Trigrams of those words, matched for typos
+  nameTrigrams: string[];
+}
+
+export interface PlaceSearchOptions {
+  lat?: number;
+  lon?: number;
+  limit: number;
+}
+
+// A place found by name, with how well it matches
+export type PlaceSearchResult = PlaceDocument & {
+  score: number;
+};
+
+// Places a search ranks in memory, per kind of match
+const MAX_SEARCH_CANDIDATES = 200;
+const MAX_AUTOCOMPLETE_CANDIDATES = 50;
+// Trigram similarity below which a word doesn't match
+const MIN_WORD_SIMILARITY = 0.4;
+// Share of the score given to proximity when searching around a point, and its distance scale
+const PROXIMITY_WEIGHT = 0.3;
+const PROXIMITY_SCALE = 5000;
+
+/**
+ * Lowercase words of a text without accents or punctuation, so `Café-Bar` matches `cafe bar`
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Trigrams of a word, padded like PostgreSQL's pg_trgm so word starts weigh more
+ */
+export function trigramsOf(word: string): string[] {
+  const padded = `  ${word} `;
+  const trigrams = new Set<string>();
+  for (let index = 0; index + 3 <= padded.length; index++) {
+    trigrams.add(padded.slice(index, index + 3));
+  }
+  return [...trigrams];
+}
+
+/**
+ * Search index fields of a place, stored on every write of its names
+ */
+export function searchTermsOf(name: string, names?: Record<string, string> | Map<string, string>): PlaceSearchTerms {
+  const localized = names instanceof Map ? [...names.values()] : Object.values(names ?? {});
+  const tokens = [...new Set([name, ...localized].flatMap(text => normalizeSearchText(text).split(' ')).filter(Boolean))];
+
+  return {
+    nameTokens: tokens,
+    nameTrigrams: [...new Set(tokens.flatMap(trigramsOf))]
+  };
+}
+
+/**
+ * How well a name matches a normalized query, from 0 to 1
+ * Whole names and name prefixes rank first, then names with words starting with every query
+ * word, then names with words similar to the query words.
+ */
+export function nameMatchScore(query: string, name: string): number {
+  const normalized = normalizeSearchText(name);
+  if (!query || !normalized) return 0;
+
+  if (normalized === query) return 1;
+  if (normalized.startsWith(query)) return 0.9;
+
+  const tokens = normalized.split(' ');
+  const words = query.split(' ');
+  if (words.every(word => tokens.some(token => token.startsWith(word)))) return 0.8;
+
+  // Average over query words of their best similarity with a word of the name
+  const similarity = words.reduce((total, word) => {
+    const best = Math.max(...tokens.map(token => diceSimilarity(trigramsOf(word), trigramsOf(token))));
+    return total + (best >= MIN_WORD_SIMILARITY ? best : 0);
+  }, 0) / words.length;
+
+  return similarity * 0.7;
+}
+
+/**
+ * Text search and autocomplete on place names
+ * Backed by the `nameTokens` and `nameTrigrams` multikey indexes: candidates whose words start with
+ * the query or share trigrams with it are fetched, nearest first around an anchor, then ranked
+ * in memory by name match and distance.
+ */
+export class PlaceSearch {
+  private placeModel: Model<MongoPlaceDocument>;
+
+  constructor(placeModel: Model<MongoPlaceDocument> = getPlaceModel()) {
+    this.placeModel = placeModel;
+  }
+
+  /**
+   * Places matching a query by name, accent-insensitive and tolerant to typos, best first
+   */
+  async search(query: string, { lat, lon, limit }: PlaceSearchOptions): Promise<PlaceSearchResult[]> {
+    const normalized = normalizeSearchText(query);
+    if (!normalized) return [];
+
+    const words = normalized.split(' ');
+    const trigrams = [...new Set(words.flatMap(trigramsOf))];
+
+    const [prefixed, similar] = await Promise.all([
+      this.candidates(this.prefixFilter(words), lat, lon, MAX_SEARCH_CANDIDATES),
+      this.candidates({ nameTrigrams: { $in: trigrams } }, lat, lon, MAX_SEARCH_CANDIDATES)
+    ]);
+
+    const seen = new Set<string>();
+    const unique = [...prefixed, ...similar].filter(place => {
+      const id = String(place._id);
+      return !seen.has(id) && seen.add(id);
+    });
+
+    return this.rank(unique, normalized, lat, lon).slice(0, limit);
+  }
+
+  /**
+   * Places whose name has words starting with every query word, for typeahead
+   * Only the index of name words is used, so suggestions stay fast on every keystroke.
+   */
+  async autocomplete(query: string, { lat, lon, limit }: PlaceSearchOptions): Promise<PlaceSearchResult[]> {
+    const normalized = normalizeSearchText(query);
+    if (!normalized) return [];
+
+    const candidates = await this.candidates(
+      this.prefixFilter(normalized.split(' ')),
+      lat,
+      lon,
+      MAX_AUTOCOMPLETE_CANDIDATES,
+      'name names category address coordinates'
+    );
+
+    return this.rank(candidates, normalized, lat, lon).slice(0, limit);
+  }
+
+  /**
+   * Places with words starting with each query word, the last one being typed
+   * Anchored regexes use the index; normalized words hold no regex metacharacters.
+   */
+  private prefixFilter(words: string[]): FilterQuery<MongoPlaceDocument> {
+    return {
+      $and: words.map(word => ({ nameTokens: { $regex: `^${word}` } }))
+    };
+  }
+
+  private async candidates(
+    filter: FilterQuery<MongoPlaceDocument>,
+    lat: number | undefined,
+    lon: number | undefined,
+    limit: number,
+    projection?: string
+  ): Promise<PlaceDocument[]> {
+    const query = this.placeModel.find({
+      ...filter,
+      ...(lat !== undefined && lon !== undefined && {
+        coordinates: { $nearSphere: { $geometry: { type: 'Point', coordinates: [lon, lat] } } }
+      })
+    }).limit(limit);
+
+    return await (projection ? query.select(projection) : query).lean<PlaceDocument[]>();
+  }
+
+  /**
+   * Score places by their best matching name, canonical or localized, and by proximity
+   */
+  private rank(places: PlaceDocument[], query: string, lat?: number, lon?: number): PlaceSearchResult[] {
+    const results: PlaceSearchResult[] = [];
+
+    for (const place of places) {
+      const names = [place.name, ...Object.values(place.names ?? {})];
+      const nameScore = Math.max(...names.map(name => nameMatchScore(query, name)));
+      if (nameScore === 0) continue;
+
+      if (lat === undefined || lon === undefined) {
+        results.push({ ...place, score: nameScore });
+        continue;
+      }
+
+      const [placeLon, placeLat] = place.coordinates.coordinates;
+      const distance = calculateDistance(lat, lon, placeLat, placeLon);
+      const proximity = Math.exp(-distance / PROXIMITY_SCALE);
+      results.push({ ...place, distance, score: (1 - PROXIMITY_WEIGHT) * nameScore + PROXIMITY_WEIGHT * proximity });
+    }
+
+    // Shorter names match the query more closely on equal scores
+    return results.sort((a, b) => b.score - a.score || a.name.length - b.name.length);
+  }
+}
+
+/**
+ * Dice coefficient of two trigram sets
+ */
+function diceSimilarity(a: string[], b: string[]): number {
+  const set = new Set(b);
+  const common = a.filter(trigram => set.has(trigram)).length;
+  return (2 * common) / (a.length + b.length);
+}
+
+let placeSearch: PlaceSearch | null = null;
+
+/**
+ * Shared PlaceSearch
+ */
+export const getPlaceSearch = (): PlaceSearch => {
+  placeSearch ??= new PlaceSearch();
+  return placeSearch;
+};
+
+export default PlaceSearch;
@@ -0,0 +1,115 @@
+import type { PlaceDocument } from '../../types';
+import type { PlaceQueryInput } from '../schemas/validation';
+import { compareByValue } from '../utils';
+
+export type PlaceSort = PlaceQueryInput['sort'];
+
+// Orders ranking places by a value, highest first, before their distance
+export type ValueSort = Exclude<PlaceSort, 'distance'>;
+
+// Fields of places, from MongoDB or providers, the orders read
+type SortablePlace = Pick<PlaceDocument, 'category' | 'categoryPath' | 'checkinCount' | 'ratingAverage' | 'distance'> & {
+  _id: unknown;
+  // Provider places that were never stored have none
+  updatedAt?: Date;
+};
+
+// How notable places of each root category are, from 0 to 1: sights and heritage (OSM `tourism` and
+// `historic`) outrank everyday amenities, which outrank generic `building` and `man_made` places
+export const CATEGORY_SALIENCE: Record<string, number> = {
+  heritage: 1,
+  sights: 1,
+  culture: 0.9,
+  outdoors: 0.7,
+  food: 0.6,
+  nightlife: 0.5,
+  lodging: 0.4,
+  shopping: 0.4,
+  sports: 0.4,
+  education: 0.3,
+  services: 0.2,
+  other: 0.1
+};
+
+// Places whose category is not in the taxonomy, e.g. legacy categories
+const DEFAULT_SALIENCE = CATEGORY_SALIENCE.other;
+
+// Share of relevance given to proximity, and the distance in meters at which it drops to about a third
+const RELEVANCE_DISTANCE_WEIGHT = 0.5;
+const RELEVANCE_DISTANCE_SCALE = 1000;
+
+/**
+ * Relevance of a place around a point, from 0 to 1: proximity decaying with distance, mixed with
+ * the salience of its root category
+ */
+export function relevanceOf(distance: number, rootCategory: string): number {
+  return RELEVANCE_DISTANCE_WEIGHT * Math.exp(-distance / RELEVANCE_DISTANCE_SCALE) +
+    (1 - RELEVANCE_DISTANCE_WEIGHT) * (CATEGORY_SALIENCE[rootCategory] ?? DEFAULT_SALIENCE);
+}
+
+/**
+ * Value a place is ranked by, highest first
+ * Popularity counts check-ins, recency is the last update of the place data in milliseconds.
+ */
+export function sortValueOf(place: SortablePlace, sort: ValueSort): number {
+  switch (sort) {
+    case 'popularity':
+      return place.checkinCount ?? 0;
+    case 'rating':
+      return place.ratingAverage ?? 0;
+    case 'recent':
+      return place.updatedAt ? new Date(place.updatedAt).getTime() : 0;
+    case 'relevance':
+      return relevanceOf(place.distance ?? 0, place.categoryPath?.[0] ?? place.category);
+  }
+}
+
+/**
+ * Aggregation counterpart of sortValueOf, evaluated on places with their `distance` from `$geoNear`
+ * Operations are those of sortValueOf in the same order, so both compute the same values.
+ */
+export function sortValueExpression(sort: ValueSort): Record<string, unknown> {
+  switch (sort) {
+    case 'popularity':
+      return { $ifNull: ['$checkinCount', 0] };
+    case 'rating':
+      return { $ifNull: ['$ratingAverage', 0] };
+    case 'recent':
+      return { $ifNull: [{ $toDouble: '$updatedAt' }, 0] };
+    case 'relevance':
+      return {
+        $add: [
+          { $multiply: [RELEVANCE_DISTANCE_WEIGHT, { $exp: { $divide: [{ $multiply: ['$distance', -1] }, RELEVANCE_DISTANCE_SCALE] } }] },
+          {
+            $multiply: [1 - RELEVANCE_DISTANCE_WEIGHT, {
+              $switch: {
+                branches: Object.entries(CATEGORY_SALIENCE).map(([category, salience]) => ({
+                  case: { $eq: [{ $ifNull: [{ $arrayElemAt: ['$categoryPath', 0] }, '$category'] }, category] },
+                  then: salience
+                })),
+                default: DEFAULT_SALIENCE
+              }
+            }]
+          }
+        ]
+      };
+  }
+}
+
+/**
+ * Position of a place in an order, as compared by compareByValue and stored in cursors
+ */
+export function sortPositionOf(place: SortablePlace, sort: PlaceSort): { value?: number; distance?: number; _id: unknown } {
+  return {
+    ...(sort !== 'distance' && { value: sortValueOf(place, sort) }),
+    distance: place.distance,
+    _id: place._id
+  };
+}
+
+/**
+ * Comparator of places in an order, ties going to the nearest place then to the lowest `_id`
+ */
+export function comparePlaces(sort: PlaceSort): (a: SortablePlace, b: SortablePlace) => number {
+  return (a, b) => compareByValue(sortPositionOf(a, sort), sortPositionOf(b, sort));
+}
@@ -0,0 +1,188 @@
+import { Model, mongo, type FilterQuery } from 'mongoose';
+import type { PlaceDocument, PlaceData, ProviderSource } from '../../types';
+import type { GeoJSONArea } from '../schemas/validation';
+import { getPlaceModel } from '../Model/Place';
+import { getReverseGeocoder } from './ReverseGeocoder';
+import { searchTermsOf } from './PlaceSearch';
+import type { NearbyBound } from '../utils';
+import { logger } from '../logger';
+
+// Outcome of an upsert, by number of places
+export interface PlaceUpsertResult {
+  inserted: number;
+  updated: number;
+  // Colliding with user-contributed places, which are never overwritten
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * MongoDB persistence of places fetched from providers
+ * Stored places can be checked into, and serve as a cache in front of slow providers
+ */
+export class PlaceStore {
+  private static readonly PlaceModel: Model<PlaceDocument> = getPlaceModel();
+  static readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+
+  /**
+   * Stored places of a provider within a radius, nearest first
+   * A bound keeps radius searches from loading every place of large radiuses. MongoDB measures slightly
+   * longer distances than calculateDistance, so no place beyond its `minDistance` is missed.
+   */
+  static async findNearby(source: ProviderSource, lat: number, lon: number, radius: number, bound?: NearbyBound): Promise<PlaceDocument[]> {
+    try {
+      let query = this.PlaceModel.find({
+        coordinates: {
+          $nearSphere: {
+            $geometry: {
+              type: "Point",
+              coordinates: [lon, lat]
+            },
+            ...(bound?.minDistance && { $minDistance: bound.minDistance }),
+            $maxDistance: radius
+          }
+        },
+        source
+      });
+
+      if (bound) {
+        query = query.limit(bound.limit);
+      }
+
+      return await query.lean<PlaceDocument[]>();
+    } catch (error) {
+      logger.warn('Failed to retrieve cached data from MongoDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stored places of a provider inside a polygon or multipolygon, at most `limit` of them in no particular order
+   */
+  static async findWithin(source: ProviderSource, area: GeoJSONArea, limit: number): Promise<PlaceDocument[]> {
+    try {
+      return await this.PlaceModel.find({
+        coordinates: { $geoWithin: { $geometry: area } },
+        source
+      }).limit(limit).lean<PlaceDocument[]>();
+    } catch (error) {
+      logger.warn('Failed to retrieve cached data from MongoDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether stored places are recent enough to skip querying the provider
+   */
+  static isFresh(places: PlaceDocument[]): boolean {
+    if (places.length === 0) return false;
+
+    const now = new Date().getTime();
+    const oldestAllowedUpdate = now - this.CACHE_DURATION;
+
+    return places.every(place =>
+      place.updatedAt.getTime() > oldestAllowedUpdate
+    );
+  }
+
+  /**
+   * Insert or refresh provider places, matched on their OSM element when they have one and on
+   * name, coordinates and source otherwise
+   * Address components missing from the provider data are completed by reverse geocoding.
+   * Errors are logged and swallowed, a provider's results are still usable without persistence
+   */
+  static async upsert(places: PlaceData[]): Promise<PlaceUpsertResult> {
+    const result: PlaceUpsertResult = { inserted: 0, updated: 0, skipped: 0, failed: 0 };
+
+    try {
+      places = await getReverseGeocoder().complete(places);
+
+      // Never overwrite user-contributed places that share a name and position with provider data
+      const userPlaces = await this.PlaceModel.find({
+        source: 'mongodb',
+        name: { $in: places.map(place => place.name) }
+      }).select('name coordinates').lean<PlaceDocument[]>();
+
+      const userPlaceKeys = new Set(userPlaces.map(place => this.placeKey(place)));
+      const providerPlaces = places.filter(place => !userPlaceKeys.has(this.placeKey(place)));
+
+      result.skipped = places.length - providerPlaces.length;
+      if (result.skipped > 0) {
+        logger.info(`Skipped ${places.length - providerPlaces.length} provider places colliding with user-created places`);
+      }
+
+      const bulkOps = providerPlaces.map(({ _id, ...place }) => ({
+        updateOne: {
+          filter: this.upsertFilter(place),
+          update: {
+            $set: {
+              ...place,
+              ...searchTermsOf(place.name, place.names),
+              updatedAt: new Date()
+            },
+            // _id is immutable, only assign it to newly inserted places
+            $setOnInsert: { _id }
+          },
+          upsert: true
+        }
+      }));
+
+      if (bulkOps.length > 0) {
+        const writeResult = await this.PlaceModel.bulkWrite(bulkOps, { ordered: false });
+        result.inserted = writeResult.upsertedCount;
+        result.updated = writeResult.matchedCount;
+      }
+    } catch (error) {
+      logger.error('Error storing places in MongoDB:', error);
+      // Don't throw the error, just log it and continue
+
+      if (error instanceof mongo.MongoBulkWriteError) {
+        // Unordered writes still apply every operation that did not fail
+        result.inserted = error.result.upsertedCount;
+        result.updated = error.result.matchedCount;
+        result.failed = Array.isArray(error.writeErrors) ? error.writeErrors.length : 1;
+      } else {
+        result.failed = places.length - result.skipped;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Filter of the stored place a provider place updates
+   * Places of OSM elements are found by OSM identity, so renamed or moved elements update their
+   * place; places stored before they had an identity are adopted on their next update.
+   * Positional matches accept any name of the place, canonical or localized.
+   */
+  private static upsertFilter(place: Omit<PlaceData, '_id'>): FilterQuery<PlaceDocument> {
+    const byPosition = {
+      // Places stored before localized names existed may be stored under one of them
+      name: { $in: [place.name, ...Object.values(place.names ?? {})] },
+      'coordinates.coordinates.0': place.coordinates.coordinates[0],
+      'coordinates.coordinates.1': place.coordinates.coordinates[1],
+      source: place.source
+    };
+
+    if (place.osmType === undefined || place.osmId === undefined) {
+      return byPosition;
+    }
+
+    return {
+      $or: [
+        { osmType: place.osmType, osmId: place.osmId },
+        { ...byPosition, osmId: { $exists: false } }
+      ]
+    };
+  }
+
+  /**
+   * Key matching the unique_place_name_coords index
+   */
+  private static placeKey(place: Pick<PlaceData, 'name' | 'coordinates'>): string {
+    const [lon, lat] = place.coordinates.coordinates;
+    return `${place.name}:${lon}:${lat}`;
+  }
+}
+
+export default PlaceStore;
@@ -0,0 +1,124 @@
+import type { PlaceData, ProviderSource } from '../../types';
+import TileCoverage from './TileCoverage';
+import { logger } from '../logger';
+
+/**
+ * Provider able to fetch its places by geohash tile
+ */
+export interface TileRefresher {
+  readonly name: ProviderSource;
+  /**
+   * Fetch and store the places of the tiles, recording the tiles as fetched
+   */
+  refreshTiles(geohashes: string[]): Promise<PlaceData[]>;
+}
+
+interface RefreshJob {
+  refresher: TileRefresher;
+  geohashes: string[];
+}
+
+// Pending and running refreshes, reported by GET /health
+export interface RefreshQueueStatus {
+  pending: number;
+  running: boolean;
+  refreshed: number;
+  failed: number;
+}
+
+/**
+ * In-process queue refreshing stale tiles in the background, one refresh at a time
+ * Tiles already queued are not queued again, and tiles leased by another instance are skipped,
+ * so each tile is refreshed once however many requests or instances ask for it.
+ */
+export class RefreshQueue {
+  public maxPending: number;
+
+  private jobs: RefreshJob[] = [];
+  // `source:geohash` of the queued and running tiles
+  private queued = new Set<string>();
+  private running: Promise<void> | null = null;
+  private refreshed = 0;
+  private failed = 0;
+
+  constructor(maxPending: number = parseInt(process.env.REFRESH_QUEUE_SIZE || '100', 10)) {
+    this.maxPending = maxPending;
+  }
+
+  /**
+   * Queue a refresh of the tiles, in one provider query
+   * @returns Whether the refresh was queued, false when its tiles are already queued or the queue is full
+   */
+  enqueue(refresher: TileRefresher, geohashes: string[]): boolean {
+    const fresh = geohashes.filter(geohash => !this.queued.has(`${refresher.name}:${geohash}`));
+    if (fresh.length === 0) return false;
+
+    if (this.jobs.length >= this.maxPending) {
+      logger.warn(`Refresh queue full, dropping the refresh of ${fresh.length} ${refresher.name} tiles`);
+      return false;
+    }
+
+    for (const geohash of fresh) {
+      this.queued.add(`${refresher.name}:${geohash}`);
+    }
+    this.jobs.push({ refresher, geohashes: fresh });
+    this.running ??= this.drain();
+
+    return true;
+  }
+
+  /**
+   * Resolves once every queued refresh is done
+   */
+  async idle(): Promise<void> {
+    await this.running;
+  }
+
+  status(): RefreshQueueStatus {
+    return {
+      pending: this.jobs.length,
+      running: this.running !== null,
+      refreshed: this.refreshed,
+      failed: this.failed
+    };
+  }
+
+  private async drain(): Promise<void> {
+    for (let job = this.jobs.shift(); job; job = this.jobs.shift()) {
+      await this.run(job);
+    }
+    this.running = null;
+  }
+
+  private async run({ refresher, geohashes }: RefreshJob): Promise<void> {
+    const leased = await TileCoverage.acquireLeases(refresher.name, geohashes);
+
+    try {
+      if (leased.length > 0) {
+        const places = await refresher.refreshTiles(leased);
+        this.refreshed += leased.length;
+        logger.info(`Refreshed ${leased.length} ${refresher.name} tiles with ${places.length} places in the background`);
+      }
+    } catch (error) {
+      this.failed += leased.length;
+      logger.warn(`Background refresh of ${leased.length} ${refresher.name} tiles failed:`, error);
+      await TileCoverage.releaseLeases(refresher.name, leased);
+    } finally {
+      for (const geohash of geohashes) {
+        this.queued.delete(`${refresher.name}:${geohash}`);
+      }
+    }
+  }
+}
+
+let refreshQueue: RefreshQueue | null = null;
+
+/**
+ * Shared RefreshQueue, so requests and the scheduler don't queue the same tiles twice
+ */
+export const getRefreshQueue = (): RefreshQueue => {
+  refreshQueue ??= new RefreshQueue();
+  return refreshQueue;
+};
+
+export default RefreshQueue;
@@ -0,0 +1,137 @@
+import type { PlaceProvider } from './PlaceProvider';
+import { getRefreshQueue, type RefreshQueue, type TileRefresher } from './RefreshQueue';
+import TileCoverage from './TileCoverage';
+import PlaceStore from './PlaceStore';
+import { logger } from '../logger';
+
+export interface RefreshSchedulerOptions {
+  // UTC hours refreshes run in, from the first included to the second excluded, e.g. [22, 4]
+  offPeakHours?: [number, number] | null;
+  intervalMs?: number;
+  // Tiles refreshed per provider and run
+  tilesPerRun?: number;
+  // Tiles queried within this period are refreshed, most queried first
+  popularityWindowMs?: number;
+  // Tiles fetched within this period are left alone
+  minAgeMs?: number;
+}
+
+/**
+ * Parse off-peak hours such as `2-6` or `22-4`
+ * @returns The hours, or null when empty or `off`, disabling the scheduler
+ * @throws Error for malformed hours
+ */
+export const parseOffPeakHours = (value: string): [number, number] | null => {
+  if (!value.trim() || value.trim() === 'off') return null;
+
+  const match = /^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/.exec(value);
+  const [start, end] = match ? [Number(match[1]), Number(match[2])] : [NaN, NaN];
+  if (!(start >= 0 && start < 24 && end >= 0 && end <= 24) || start === end) {
+    throw new Error(`Invalid off-peak hours "${value}", expected e.g. 2-6`);
+  }
+
+  return [start, end];
+};
+
+/**
+ * Refreshes the most queried tiles during off-peak hours, before they go stale at peak time
+ * Tiles are queued on the RefreshQueue grouped by parent tile, so each provider query covers a
+ * small area. Several instances may run a scheduler, tile leases keep them from refreshing the same tiles.
+ */
+export class RefreshScheduler {
+  public refreshers: TileRefresher[];
+  public queue: RefreshQueue;
+  public offPeakHours: [number, number] | null;
+  public intervalMs: number;
+  public tilesPerRun: number;
+  public popularityWindowMs: number;
+  public minAgeMs: number;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(refreshers: TileRefresher[], queue: RefreshQueue = getRefreshQueue(), options: RefreshSchedulerOptions = {}) {
+    this.refreshers = refreshers;
+    this.queue = queue;
+    this.offPeakHours = options.offPeakHours !== undefined
+      ? options.offPeakHours
+      : parseOffPeakHours(process.env.REFRESH_OFF_PEAK_HOURS ?? '2-6');
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.REFRESH_INTERVAL_MINUTES || '15', 10) * 60 * 1000;
+    this.tilesPerRun = options.tilesPerRun ?? parseInt(process.env.REFRESH_TILES_PER_RUN || '50', 10);
+    this.popularityWindowMs = options.popularityWindowMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.minAgeMs = options.minAgeMs ?? PlaceStore.CACHE_DURATION / 2;
+  }
+
+  /**
+   * Scheduler of the providers that can refresh tiles
+   */
+  static forProviders(providers: PlaceProvider[]): RefreshScheduler {
+    return new RefreshScheduler(providers.filter(
+      (provider): provider is PlaceProvider & TileRefresher => 'refreshTiles' in provider
+    ));
+  }
+
+  start(): void {
+    if (this.timer || !this.offPeakHours || this.refreshers.length === 0) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Scheduled tile refresh failed:', error));
+    }, this.intervalMs);
+    // The scheduler alone doesn't keep the process alive
+    this.timer.unref?.();
+
+    logger.info(`Refreshing popular tiles between ${this.offPeakHours[0]}:00 and ${this.offPeakHours[1]}:00 UTC`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isOffPeak(at: Date): boolean {
+    if (!this.offPeakHours) return false;
+
+    const [start, end] = this.offPeakHours;
+    const hour = at.getUTCHours();
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  }
+
+  /**
+   * Queue refreshes of the most queried tiles when off-peak
+   * @returns The number of tiles queued
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    if (!this.isOffPeak(now)) return 0;
+
+    let queued = 0;
+
+    for (const refresher of this.refreshers) {
+      const tiles = await TileCoverage.popularTiles(refresher.name, {
+        limit: this.tilesPerRun,
+        queriedSince: new Date(now.getTime() - this.popularityWindowMs),
+        fetchedBefore: new Date(now.getTime() - this.minAgeMs)
+      });
+
+      const groups = new Map<string, string[]>();
+      for (const geohash of tiles) {
+        const parent = geohash.slice(0, -1);
+        groups.set(parent, [...(groups.get(parent) ?? []), geohash]);
+      }
+
+      for (const group of groups.values()) {
+        if (this.queue.enqueue(refresher, group)) {
+          queued += group.length;
+        }
+      }
+    }
+
+    if (queued > 0) {
+      logger.info(`Queued the scheduled refresh of ${queued} tiles`);
+    }
+
+    return queued;
+  }
+}
+
+export default RefreshScheduler;
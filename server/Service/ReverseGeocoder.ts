@@ -0,0 +1,142 @@
+import type { Model } from 'mongoose';
+import type { AdminBoundaryDocument, PlaceAddress, PlaceData } from '../../types';
+import { getAdminBoundaryModel } from '../Model/AdminBoundary';
+import { encodeGeohash, formatAddress } from '../utils';
+import { logger } from '../logger';
+
+// Administrative area containing a position
+export interface BoundaryMatch {
+  name: string;
+  adminLevel: number;
+  countryCode?: string;
+}
+
+export interface ReverseGeocodeResult {
+  address: PlaceAddress;
+  // Display address, formatted from `address`
+  formatted: string;
+  // Time zone of the most local area having one
+  timezone?: string;
+  // Areas containing the position, from the country down
+  boundaries: BoundaryMatch[];
+}
+
+// Place fields the geocoder reads and completes
+export type AddressedPlace = Pick<PlaceData, 'coordinates' | 'address' | 'addressComponents' | 'country' | 'timezone'>;
+
+/**
+ * Offline reverse geocoding against the administrative boundaries stored in MongoDB
+ * (see scripts/import-boundaries.ts). Boundaries use OSM admin levels: the country is the level 2
+ * area, the state the level 4 area (3 or 5 where countries have no level 4), and the city the most
+ * local area between levels 6 and 8.
+ */
+export class ReverseGeocoder {
+  static readonly STATE_LEVELS = [4, 3, 5];
+  static readonly CITY_LEVELS = [8, 7, 6];
+  // Places within the same tile share their boundaries when completing a batch (~1.2km tiles)
+  static readonly BATCH_PRECISION = 6;
+
+  public boundaryModel: Model<AdminBoundaryDocument>;
+
+  constructor(boundaryModel: Model<AdminBoundaryDocument>) {
+    this.boundaryModel = boundaryModel;
+  }
+
+  /**
+   * City, state and country of a position, each left out when no stored boundary contains it
+   */
+  async reverse(lat: number, lon: number): Promise<ReverseGeocodeResult> {
+    const boundaries = await this.boundaryModel
+      .find({
+        geometry: {
+          $geoIntersects: {
+            $geometry: { type: 'Point', coordinates: [lon, lat] }
+          }
+        }
+      })
+      .select('name adminLevel countryCode timezone')
+      .sort({ adminLevel: 1 })
+      .lean<AdminBoundaryDocument[]>();
+
+    const matches: BoundaryMatch[] = boundaries.map(({ name, adminLevel, countryCode }) => ({
+      name,
+      adminLevel,
+      ...(countryCode && { countryCode })
+    }));
+
+    const atLevel = (levels: number[]) => levels
+      .map(level => matches.find(boundary => boundary.adminLevel === level))
+      .find(Boolean);
+
+    const address: PlaceAddress = {};
+    const city = atLevel(ReverseGeocoder.CITY_LEVELS)?.name;
+    const state = atLevel(ReverseGeocoder.STATE_LEVELS)?.name;
+    const country = matches.find(boundary => boundary.adminLevel === 2 && boundary.countryCode)?.countryCode;
+    if (city) address.city = city;
+    if (state) address.state = state;
+    if (country) address.country = country;
+
+    const timezone = boundaries.findLast(boundary => boundary.timezone)?.timezone;
+
+    return { address, formatted: formatAddress(address), ...(timezone && { timezone }), boundaries: matches };
+  }
+
+  /**
+   * Fill the city, state, country and time zone places are missing from their tags
+   * Tagged components always win. Display addresses formatted from the components are formatted
+   * again, addresses given as text are kept. Places geocoding adds nothing to are returned as is.
+   * Geocoding is best effort: on errors places are returned unchanged.
+   */
+  async complete<T extends AddressedPlace>(places: T[]): Promise<T[]> {
+    const lookups = new Map<string, Promise<ReverseGeocodeResult>>();
+
+    const lookup = (lat: number, lon: number): Promise<ReverseGeocodeResult> => {
+      const tile = encodeGeohash(lat, lon, ReverseGeocoder.BATCH_PRECISION);
+      if (!lookups.has(tile)) {
+        lookups.set(tile, this.reverse(lat, lon));
+      }
+      return lookups.get(tile)!;
+    };
+
+    try {
+      return await Promise.all(places.map(async place => {
+        const components: PlaceAddress = {
+          ...(place.country && { country: place.country }),
+          ...place.addressComponents
+        };
+        if (components.city && components.state && components.country && place.timezone) return place;
+
+        const [lon, lat] = place.coordinates.coordinates;
+        const { address: geocoded, timezone } = await lookup(lat, lon);
+        const addsTimezone = Boolean(timezone && !place.timezone);
+        if (Object.keys(geocoded).every(key => key in components) && !addsTimezone) return place;
+
+        const completed = { ...geocoded, ...components };
+        const wasFormatted = place.address === formatAddress(place.addressComponents);
+
+        return {
+          ...place,
+          address: wasFormatted ? formatAddress(completed) : place.address,
+          addressComponents: completed,
+          ...(completed.country && { country: completed.country }),
+          ...(addsTimezone && { timezone })
+        };
+      }));
+    } catch (error) {
+      logger.warn('Failed to reverse geocode places:', error);
+      return places;
+    }
+  }
+}
+
+let reverseGeocoder: ReverseGeocoder | null = null;
+
+/**
+ * Shared ReverseGeocoder
+ */
+export const getReverseGeocoder = (): ReverseGeocoder => {
+  reverseGeocoder ??= new ReverseGeocoder(getAdminBoundaryModel());
+  return reverseGeocoder;
+};
+
+export default ReverseGeocoder;
@@ -0,0 +1,30 @@
+import LocalDiskStorage from './LocalDiskStorage';
+
+/**
+ * Blob storage for user uploads
+ * Keys are slash-separated relative paths such as `places/<id>/<photo>/original.jpg`
+ */
+export interface StorageAdapter {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+  // Public URL the stored object is served from
+  url(key: string): string;
+}
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Shared storage adapter selected by STORAGE_DRIVER, only `local` is implemented
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (storage) return storage;
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  if (driver !== 'local') {
+    throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+
+  storage = new LocalDiskStorage();
+  return storage;
+};
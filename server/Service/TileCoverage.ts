@@ -0,0 +1,236 @@
+import { Model } from 'mongoose';
+import type { CoverageTileDocument, PlaceData, ProviderSource } from '../../types';
+import { getCoverageTileModel } from '../Model/CoverageTile';
+import {
+  boundingBoxRing,
+  encodeGeohash,
+  geohashBounds,
+  geohashesInBounds,
+  geohashesInRadius,
+  isInRing,
+  ringsBounds,
+  type GeohashBounds,
+  type Position
+} from '../utils';
+import PlaceStore from './PlaceStore';
+import { logger } from '../logger';
+
+// Tiles of a query by coverage state
+export interface TileStates {
+  tiles: string[];
+  missing: string[];
+  stale: string[];
+}
+
+// Tiles of a polygon query
+export interface PolygonTiles {
+  // Tiles overlapping the polygons
+  tiles: string[];
+  // Those of them entirely inside a polygon
+  inside: string[];
+}
+
+export interface PopularTilesOptions {
+  limit: number;
+  queriedSince: Date;
+  fetchedBefore: Date;
+}
+
+/**
+ * Tracks which geohash tiles were fetched from a provider and when
+ * A radius query only needs the tiles that were never fetched or went stale, so overlapping
+ * searches reuse each other's results and empty areas stay cached like any other.
+ * Refreshes are coordinated across instances by leases stored on the tiles.
+ */
+export class TileCoverage {
+  private static readonly CoverageTileModel: Model<CoverageTileDocument> = getCoverageTileModel();
+  // Precision 6 tiles are about 1.2km by 0.6km
+  static readonly PRECISION = parseInt(process.env.COVERAGE_TILE_PRECISION || '6', 10);
+  // Longest a refresh may take before another instance may take over its tiles
+  static readonly LEASE_DURATION = parseInt(process.env.REFRESH_LEASE_SECONDS || '300', 10) * 1000;
+
+  /**
+   * Tiles of a radius query, split by whether their places must be fetched before answering
+   * `missing` tiles were never fetched, `stale` ones are older than PlaceStore.CACHE_DURATION and
+   * can be served while they are refreshed. When coverage cannot be read, every tile is missing.
+   */
+  static async tileStates(source: ProviderSource, lat: number, lon: number, radius: number): Promise<TileStates> {
+    return await this.statesOf(source, geohashesInRadius(lat, lon, radius, this.PRECISION));
+  }
+
+  /**
+   * Tiles split by coverage state like tileStates, for queries of other shapes
+   */
+  static async statesOf(source: ProviderSource, tiles: string[]): Promise<TileStates> {
+    try {
+      const fetched = await this.CoverageTileModel.find({
+        source,
+        geohash: { $in: tiles },
+        fetchedAt: { $exists: true }
+      }).select('geohash fetchedAt').lean<Pick<CoverageTileDocument, 'geohash' | 'fetchedAt'>[]>();
+
+      const staleBefore = Date.now() - PlaceStore.CACHE_DURATION;
+      const fetchedAt = new Map(fetched.map(tile => [tile.geohash, tile.fetchedAt!.getTime()]));
+
+      return {
+        tiles,
+        missing: tiles.filter(geohash => !fetchedAt.has(geohash)),
+        stale: tiles.filter(geohash => fetchedAt.has(geohash) && fetchedAt.get(geohash)! <= staleBefore)
+      };
+    } catch (error) {
+      logger.warn('Failed to read tile coverage from MongoDB:', error);
+      return { tiles, missing: tiles, stale: [] };
+    }
+  }
+
+  /**
+   * Tiles of a bounding box query
+   */
+  static tilesInBounds(bounds: GeohashBounds): string[] {
+    return geohashesInBounds(bounds, this.PRECISION);
+  }
+
+  /**
+   * Tiles of a query of polygons, given by their outlines
+   * Holes are ignored, places inside them are simply not returned. Outlines with every corner of a
+   * tile inside them may only cut into it through a vertex inside the tile.
+   */
+  static tilesInPolygons(outlines: Position[][]): PolygonTiles {
+    const polygonTiles: PolygonTiles = { tiles: [], inside: [] };
+
+    for (const geohash of geohashesInBounds(ringsBounds(outlines), this.PRECISION)) {
+      const bounds = geohashBounds(geohash);
+      const corners = boundingBoxRing(bounds).slice(0, -1);
+      const isInTile = ([lon, lat]: Position) =>
+        lat > bounds.minLat && lat < bounds.maxLat && lon > bounds.minLon && lon < bounds.maxLon;
+
+      if (outlines.some(outline => corners.every(([lon, lat]) => isInRing(lat, lon, outline)) && !outline.some(isInTile))) {
+        polygonTiles.tiles.push(geohash);
+        polygonTiles.inside.push(geohash);
+      } else if (outlines.some(outline => corners.some(([lon, lat]) => isInRing(lat, lon, outline)) || outline.some(isInTile))) {
+        polygonTiles.tiles.push(geohash);
+      }
+    }
+
+    return polygonTiles;
+  }
+
+  /**
+   * Count a query of the tiles, creating tiles never fetched
+   * Errors are logged and swallowed, counts only order scheduled refreshes
+   */
+  static async recordQueries(source: ProviderSource, geohashes: string[]): Promise<void> {
+    if (geohashes.length === 0) return;
+
+    try {
+      await this.CoverageTileModel.bulkWrite(geohashes.map(geohash => ({
+        updateOne: {
+          filter: { source, geohash },
+          update: { $inc: { queryCount: 1 }, $set: { lastQueriedAt: new Date() } },
+          upsert: true
+        }
+      })), { ordered: false });
+    } catch (error) {
+      logger.warn('Failed to count tile queries in MongoDB:', error);
+    }
+  }
+
+  /**
+   * Take the refresh lease of the tiles no other instance is refreshing
+   * Leases expire after LEASE_DURATION, so tiles of a crashed instance are refreshed again.
+   * @returns The tiles whose lease was taken, none when coverage cannot be written
+   */
+  static async acquireLeases(source: ProviderSource, geohashes: string[]): Promise<string[]> {
+    const now = new Date();
+    const refreshingUntil = new Date(now.getTime() + this.LEASE_DURATION);
+
+    try {
+      const leases = await Promise.all(geohashes.map(geohash => this.CoverageTileModel.updateOne(
+        { source, geohash, $or: [{ refreshingUntil: null }, { refreshingUntil: { $lte: now } }] },
+        { $set: { refreshingUntil } }
+      )));
+
+      return geohashes.filter((_, index) => leases[index].modifiedCount === 1);
+    } catch (error) {
+      logger.warn('Failed to lease tiles in MongoDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Give up the refresh lease of tiles that could not be refreshed
+   */
+  static async releaseLeases(source: ProviderSource, geohashes: string[]): Promise<void> {
+    if (geohashes.length === 0) return;
+
+    try {
+      await this.CoverageTileModel.updateMany(
+        { source, geohash: { $in: geohashes } },
+        { $unset: { refreshingUntil: 1 } }
+      );
+    } catch (error) {
+      logger.warn('Failed to release tile leases in MongoDB:', error);
+    }
+  }
+
+  /**
+   * Most queried tiles of the last `queriedSince` that were fetched before `fetchedBefore` and
+   * are not being refreshed
+   */
+  static async popularTiles(source: ProviderSource, { limit, queriedSince, fetchedBefore }: PopularTilesOptions): Promise<string[]> {
+    const now = new Date();
+
+    const tiles = await this.CoverageTileModel.find({
+      source,
+      lastQueriedAt: { $gte: queriedSince },
+      fetchedAt: { $lte: fetchedBefore },
+      $or: [{ refreshingUntil: null }, { refreshingUntil: { $lte: now } }]
+    }).sort({ queryCount: -1 }).limit(limit).select('geohash').lean<Pick<CoverageTileDocument, 'geohash'>[]>();
+
+    return tiles.map(tile => tile.geohash);
+  }
+
+  /**
+   * Record tiles as fetched now, along with how many of the fetched places they contain, and
+   * release their refresh lease
+   * Errors are logged and swallowed, the tiles are simply fetched again next time
+   */
+  static async markFetched(source: ProviderSource, geohashes: string[], places: PlaceData[]): Promise<void> {
+    if (geohashes.length === 0) return;
+
+    const placeCounts = new Map<string, number>();
+    for (const place of places) {
+      const [lon, lat] = place.coordinates.coordinates;
+      const geohash = encodeGeohash(lat, lon, this.PRECISION);
+      placeCounts.set(geohash, (placeCounts.get(geohash) ?? 0) + 1);
+    }
+
+    const fetchedAt = new Date();
+
+    try {
+      await this.CoverageTileModel.bulkWrite(geohashes.map(geohash => ({
+        updateOne: {
+          filter: { source, geohash },
+          update: { $set: { fetchedAt, placeCount: placeCounts.get(geohash) ?? 0 }, $unset: { refreshingUntil: 1 } },
+          upsert: true
+        }
+      })), { ordered: false });
+    } catch (error) {
+      logger.error('Error storing tile coverage in MongoDB:', error);
+    }
+  }
+
+  /**
+   * Smallest bounding box containing every tile
+   */
+  static boundsOf(geohashes: string[]): GeohashBounds {
+    return geohashes.map(geohash => geohashBounds(geohash)).reduce((bounds, tile) => ({
+      minLat: Math.min(bounds.minLat, tile.minLat),
+      maxLat: Math.max(bounds.maxLat, tile.maxLat),
+      minLon: Math.min(bounds.minLon, tile.minLon),
+      maxLon: Math.max(bounds.maxLon, tile.maxLon)
+    }));
+  }
+}
+
+export default TileCoverage;
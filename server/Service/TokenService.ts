@@ -0,0 +1,74 @@
+import { SignJWT, jwtVerify } from 'jose';
+import type { AuthUser } from '../../types';
+import { logger } from '../logger';
+
+/**
+ * Secret signing tokens, from JWT_SECRET
+ * A known secret would let anyone forge tokens, so outside development and test the server refuses
+ * to start without one; in development and test tokens are signed with a random secret and do not
+ * outlive the process.
+ */
+function loadSecret(): Uint8Array {
+  if (process.env.JWT_SECRET) {
+    return new TextEncoder().encode(process.env.JWT_SECRET);
+  }
+
+  const environment = process.env.NODE_ENV || 'development';
+
+  if (environment !== 'development' && environment !== 'test') {
+    throw new Error(`JWT_SECRET must be set in the ${environment} environment`);
+  }
+
+  logger.warn('JWT_SECRET is not set, tokens are signed with a random secret and expire on restart');
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+/**
+ * Issues and verifies the signed JWTs used as bearer tokens
+ * Tokens carry the user ID as `sub` and the username as a claim
+ */
+export class TokenService {
+  private static readonly SECRET = loadSecret();
+  private static readonly EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+  private static readonly ISSUER = 'checkinmate';
+  private static readonly ALGORITHM = 'HS256';
+
+  /**
+   * Sign a token for the given user
+   * @returns Promise resolving to a compact JWT
+   */
+  static async sign(user: Pick<AuthUser, 'id' | 'username'>): Promise<string> {
+    return await new SignJWT({ username: user.username })
+      .setProtectedHeader({ alg: this.ALGORITHM })
+      .setSubject(user.id)
+      .setIssuer(this.ISSUER)
+      .setIssuedAt()
+      .setExpirationTime(this.EXPIRES_IN)
+      .sign(this.SECRET);
+  }
+
+  /**
+   * Verify a token and extract the user it was issued for
+   * Roles are deliberately not part of the token, they are read from the account on every request
+   * @returns The authenticated user, or null when the token is invalid or expired
+   */
+  static async verify(token: string): Promise<Pick<AuthUser, 'id' | 'username'> | null> {
+    try {
+      const { payload } = await jwtVerify(token, this.SECRET, {
+        issuer: this.ISSUER,
+        algorithms: [this.ALGORITHM]
+      });
+
+      if (!payload.sub || typeof payload.username !== 'string') {
+        return null;
+      }
+
+      return { id: payload.sub, username: payload.username };
+    } catch (error) {
+      logger.debug(`Rejected bearer token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+}
+
+export default TokenService;
@@ -4,14 +4,26 @@ import { swagger } from '@elysiajs/swagger';
 import mongoose from 'mongoose';
 import { LRUCache } from 'lru-cache';
 import pino from 'pino';
-import type { PlaceDocument, DatabaseConfig, ServerConfig } from '../types';
+import type { PlaceDocument, DatabaseConfig, DistancePaginatedResponse, ServerConfig, PlaceLeaderboard, LeaderboardEntry } from '../types';
 import { createGeoPlaceRoutes } from './Routes/GeoRoutes';
+import { createCheckinRoutes } from './Routes/CheckinRoutes';
+import { createAuthRoutes } from './Routes/AuthRoutes';
+import { createReviewRoutes } from './Routes/ReviewRoutes';
+import { createSocialRoutes } from './Routes/SocialRoutes';
+import { createBadgeRoutes } from './Routes/BadgeRoutes';
+import { createLeaderboardRoutes } from './Routes/LeaderboardRoutes';
+import { createPhotoRoutes } from './Routes/PhotoRoutes';
+import { createCategoryRoutes } from './Routes/CategoryRoutes';
+import { createReverseRoutes } from './Routes/ReverseRoutes';
 import getPlaceModel from './Model/Place';
 import { GeoPlaceController } from './Controller/Geoplace';
+import { createPlaceProviders } from './Service/PlaceProvider';
+import { RefreshScheduler } from './Service/RefreshScheduler';
 
 // Configuration constants with enhanced type safety
 const CACHE_TTL = 60 * 1000; // 1 minute
 const CACHE_MAX_SIZE = 500;
+const LEADERBOARD_CACHE_TTL = parseInt(process.env.LEADERBOARD_CACHE_TTL_SECONDS || '300', 10) * 1000;
 
 // Database configuration
 const dbConfig: DatabaseConfig = {
@@ -53,14 +65,23 @@ const logger = pino({
   }
 });
 
-// Enhanced cache with better type safety
-export const cache = new LRUCache<string, PlaceDocument[]>({
+// Pages of radius searches, with their total
+export const cache = new LRUCache<string, DistancePaginatedResponse<PlaceDocument>>({
   max: CACHE_MAX_SIZE,
   ttl: CACHE_TTL,
   updateAgeOnGet: true,
   updateAgeOnHas: true
 });
 
+// Leaderboards are expensive aggregations and tolerate being a few minutes stale
+export const leaderboardCache = new LRUCache<string, PlaceLeaderboard | LeaderboardEntry[]>({
+  max: CACHE_MAX_SIZE,
+  ttl: LEADERBOARD_CACHE_TTL
+});
+
+// Refreshes the most queried areas off-peak, so peak requests find them fresh
+const refreshScheduler = RefreshScheduler.forProviders(createPlaceProviders());
+
 // MongoDB Connection with enhanced error handling
 const connectToDatabase = async (): Promise<void> => {
   try {
@@ -94,7 +115,7 @@ const app = new Elysia({ name: 'CheckinMate API', prefix: '/api/v1' })
   .use(cors({
     origin: serverConfig.cors.origin,
     credentials: serverConfig.cors.credentials,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
   }))
   
@@ -164,6 +185,15 @@ const app = new Elysia({ name: 'CheckinMate API', prefix: '/api/v1' })
     set.headers['Referrer-Policy'] = 'strict-origin-when-cross-origin';
   })
   .use(createGeoPlaceRoutes)
+  .use(createAuthRoutes)
+  .use(createCheckinRoutes)
+  .use(createReviewRoutes)
+  .use(createSocialRoutes)
+  .use(createBadgeRoutes)
+  .use(createLeaderboardRoutes)
+  .use(createPhotoRoutes)
+  .use(createCategoryRoutes)
+  .use(createReverseRoutes)
   .get('/', () => ({
     message: 'CheckinMate API',
     version: '1.0.0',
@@ -177,8 +207,23 @@ const app = new Elysia({ name: 'CheckinMate API', prefix: '/api/v1' })
         version: '1.0.0',
         description: 'Geolocation API with Elysia.js and Zod validation'
       },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+        }
+      },
       tags: [
         { name: 'Places', description: 'Geolocation and place management endpoints' },
+        { name: 'Auth', description: 'Account registration and JWT authentication endpoints' },
+        { name: 'Checkins', description: 'Proximity-verified check-in endpoints' },
+        { name: 'Reviews', description: 'Place reviews and ratings endpoints' },
+        { name: 'Social', description: 'Follow graph and friends feed endpoints' },
+        { name: 'Badges', description: 'Badges awarded for check-ins' },
+        { name: 'Leaderboards', description: 'Mayors and check-in leaderboards' },
+        { name: 'Photos', description: 'Place photo uploads' },
+        { name: 'Categories', description: 'Place category taxonomy' },
+        { name: 'Geocoding', description: 'Offline reverse geocoding against stored administrative boundaries' },
+        { name: 'Admin', description: 'Moderation endpoints restricted to administrators' },
         { name: 'Health', description: 'System health and monitoring endpoints' }
       ]
     }
@@ -188,10 +233,12 @@ const gracefulShutdown = async (signal: string) => {
   logger.info(`🛑 Received ${signal}, starting graceful shutdown...`);
   
   try {
+    refreshScheduler.stop();
     await mongoose.connection.close();
     logger.info('✅ MongoDB connection closed');
     
     cache.clear();
+    leaderboardCache.clear();
     logger.info('✅ Cache cleared');
     
     logger.info('✅ Graceful shutdown completed');
@@ -212,6 +259,7 @@ const startServer = async () => {
     await connectToDatabase();
     
     app.listen(serverConfig.port);
+    refreshScheduler.start();
     
     logger.info('🚀 Server started successfully', {
       port: serverConfig.port,
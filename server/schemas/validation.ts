@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { extendZod, zId } from '@zodyac/zod-mongoose';
+import { boundingBoxRing, polygonArea } from '../utils';
 
 // Extend Zod with Mongoose-specific types
 extendZod(z);
@@ -23,12 +24,40 @@ export const GeoJSONPointSchema = z.object({
   ])
 });
 
+// GeoJSON Polygon and MultiPolygon schemas - areas of POST /places/within
+// The first ring of a polygon is its outline, the others its holes
+const LinearRingSchema = z.array(GeoJSONPointSchema.shape.coordinates)
+  .min(4, 'Rings need at least 4 positions')
+  .refine(
+    ring => ring.length > 0 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    'Rings must be closed, ending with their first position'
+  );
+
+export const GeoJSONPolygonSchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z.array(LinearRingSchema).min(1, 'Polygons need an outline')
+});
+
+export const GeoJSONMultiPolygonSchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(GeoJSONPolygonSchema.shape.coordinates).min(1, 'MultiPolygons need a polygon')
+});
+
 // Pagination schema
 export const PaginationSchema = z.object({
   page: z.number().int().min(1).default(1),
   limit: z.number().int().min(1).max(100).default(10)
 });
 
+// Cursor pagination schema - for endpoints listing items newest first
+export const CursorPaginationSchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).default(20)
+});
+
+// BCP 47 language tag, e.g. `pt`, `pt-BR` or `zh-Hant`
+export const LanguageSchema = z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Must be a language tag such as `pt` or `pt-BR`');
+
 // Place query schema - main validation for /places endpoint
 export const PlaceQuerySchema = z.object({
   lat: z.number()
@@ -42,29 +71,317 @@ export const PlaceQuerySchema = z.object({
     .min(100, 'Radius must be at least 100 meters')
     .max(5000, 'Radius cannot exceed 5000 meters')
     .default(1000),
-  page: z.number().int().min(1).default(1),
+  // Opaque position of the next page, from the `nextCursor` of the previous one
+  cursor: z.string().min(1).optional(),
   limit: z.number().int().min(1).max(100).default(10),
-  cache: z.boolean().default(false)
+  cache: z.boolean().default(false),
+  minRating: z.number().min(1).max(5).optional(),
+  // Only places open now, or at `openAt`
+  openNow: z.boolean().optional(),
+  openAt: z.coerce.date().optional(),
+  // Category IDs, each including the categories below it, see GET /categories
+  categories: z.array(z.string().trim().min(1)).min(1).max(20).optional(),
+  excludeCategories: z.array(z.string().trim().min(1)).min(1).max(20).optional(),
+  // Only places from these sources, 'mongodb' being user-contributed places
+  source: z.array(z.enum(['overpass', 'mongodb', 'geojson', 'nominatim'])).min(1).optional(),
+  // Language of place names, takes precedence over Accept-Language
+  lang: LanguageSchema.optional(),
+  // Order of results, nearest first by default, see server/Service/PlaceSort.ts
+  sort: z.enum(['distance', 'popularity', 'rating', 'recent', 'relevance']).default('distance')
+});
+
+// Place language schema - query of the single place endpoints
+export const PlaceLanguageQuerySchema = PlaceQuerySchema.pick({ lang: true });
+
+// Place search schemas - query of GET /places/search and GET /places/autocomplete
+// Without `lat` and `lon`, places are ranked by name only
+const PlaceSearchBaseSchema = z.object({
+  q: z.string()
+    .trim()
+    .min(2, 'Query must be at least 2 characters')
+    .max(100, 'Query cannot exceed 100 characters'),
+  lat: PlaceQuerySchema.shape.lat.optional(),
+  lon: PlaceQuerySchema.shape.lon.optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+  lang: LanguageSchema.optional()
+});
+
+const hasWholeAnchor = ({ lat, lon }: { lat?: number; lon?: number }) => (lat === undefined) === (lon === undefined);
+
+export const PlaceSearchQuerySchema = PlaceSearchBaseSchema
+  .refine(hasWholeAnchor, { message: '`lat` and `lon` must be given together', path: ['lat'] });
+
+export const PlaceAutocompleteQuerySchema = PlaceSearchBaseSchema
+  .extend({ limit: z.number().int().min(1).max(10).default(10) })
+  .refine(hasWholeAnchor, { message: '`lat` and `lon` must be given together', path: ['lat'] });
+
+// Area search schemas - GET /places/bbox and POST /places/within
+// Areas are capped at about the area of the largest radius search, 5 km
+export const MAX_AREA_KM2 = 80;
+const MAX_AREA_POSITIONS = 1000;
+
+// Query of both area searches; results are not paginated, `truncated` tells there are more
+export const PlaceAreaQuerySchema = PlaceQuerySchema
+  .pick({ minRating: true, categories: true, excludeCategories: true, source: true, lang: true })
+  .extend({ limit: z.number().int().min(1).max(500).default(100) });
+
+export const BoundingBoxQuerySchema = PlaceAreaQuerySchema
+  .extend({
+    minLat: PlaceQuerySchema.shape.lat,
+    minLon: PlaceQuerySchema.shape.lon,
+    maxLat: PlaceQuerySchema.shape.lat,
+    maxLon: PlaceQuerySchema.shape.lon
+  })
+  .refine(({ minLat, minLon, maxLat, maxLon }) => minLat < maxLat && minLon < maxLon, {
+    message: 'Minimums must be below maximums, boxes across the antimeridian are not supported',
+    path: ['minLat']
+  })
+  .refine(bounds => polygonArea([boundingBoxRing(bounds)]) <= MAX_AREA_KM2 * 1e6, {
+    message: `Bounding box cannot exceed ${MAX_AREA_KM2} km²`,
+    path: ['maxLat']
+  });
+
+// Body of POST /places/within
+export const GeoJSONAreaSchema = z.discriminatedUnion('type', [GeoJSONPolygonSchema, GeoJSONMultiPolygonSchema])
+  .refine(area => polygonsOf(area).flat(2).length <= MAX_AREA_POSITIONS, {
+    message: `Areas cannot have more than ${MAX_AREA_POSITIONS} positions`,
+    path: ['coordinates']
+  })
+  .refine(area => polygonsOf(area).reduce((total, rings) => total + polygonArea(rings), 0) <= MAX_AREA_KM2 * 1e6, {
+    message: `Area cannot exceed ${MAX_AREA_KM2} km²`,
+    path: ['coordinates']
+  });
+
+// Structured address of a place, from OSM `addr:*` tags completed by reverse geocoding
+export const AddressSchema = z.object({
+  housenumber: z.string().trim().min(1).max(20).optional(),
+  street: z.string().trim().min(1).max(200).optional(),
+  city: z.string().trim().min(1).max(100).optional(),
+  postcode: z.string().trim().min(1).max(20).optional(),
+  state: z.string().trim().min(1).max(100).optional(),
+  country: z.string().trim().toUpperCase().length(2, 'Country must be an ISO 3166-1 alpha-2 code').optional()
+});
+
+// Opening interval in minutes since midnight, closing past 1440 when it ends after midnight
+export const OpeningIntervalSchema = z.tuple([
+  z.number().int().min(0).max(1440),
+  z.number().int().min(1).max(2880)
+]);
+
+// Weekly schedule parsed from the OSM `opening_hours` tag, see server/Service/OpeningHours.ts
+export const OpeningHoursSchema = z.object({
+  // The tag as found in OSM
+  raw: z.string(),
+  // Intervals of each weekday, Monday first
+  week: z.array(z.array(OpeningIntervalSchema)).length(7),
+  // Intervals on public holidays when a `PH` rule sets them, empty when closed
+  publicHolidays: z.array(OpeningIntervalSchema).optional()
 });
 
+// Reverse geocoding query schema - query of GET /reverse
+export const ReverseQuerySchema = CoordinateSchema;
+
 // Place document schema for database operations
 export const PlaceDocumentSchema = z.object({
   _id: zId().optional(), // ObjectId, optional for new documents
   name: z.string().min(1, 'Name is required'),
+  // Localized names keyed by language, `name` being the canonical name
+  names: z.record(LanguageSchema, z.string().trim().min(1)).optional(),
+  // Formatted display address
   address: z.string().default('Unknown address'),
+  addressComponents: AddressSchema.optional(),
   coordinates: GeoJSONPointSchema,
   category: z.string().min(1, 'Category is required'),
-  source: z.enum(['overpass', 'mongodb']),
+  // IDs of the category and its ancestors in the taxonomy, root first
+  categoryPath: z.array(z.string()).optional(),
+  country: z.string().trim().toUpperCase().length(2, 'Country must be an ISO 3166-1 alpha-2 code').optional(),
+  // 'mongodb' marks user-contributed places, the others name the provider the place came from
+  source: z.enum(['overpass', 'mongodb', 'geojson', 'nominatim']),
+  osmType: z.enum(['node', 'way', 'relation']).optional(),
+  osmId: z.number().int().positive().optional(),
+  osmVersion: z.number().int().positive().optional(),
+  openingHours: OpeningHoursSchema.optional(),
+  // IANA time zone opening hours are evaluated in
+  timezone: z.string().optional(),
+  // Computed from openingHours for results, unset when the hours are unknown
+  openNow: z.boolean().optional(),
+  nextChange: z.string().datetime().nullable().optional(),
   updatedAt: z.date(),
-  distance: z.number().optional()
+  distance: z.number().optional(),
+  // Relevance of search results, from 0 to 1, see PlaceSearch
+  score: z.number().optional(),
+  ratingAverage: z.number().min(0).max(5).optional(),
+  ratingCount: z.number().int().min(0).optional(),
+  checkinCount: z.number().int().min(0).optional(),
+  coverPhotoUrl: z.string().optional()
+});
+
+// Account registration schema - body of POST /auth/register
+export const RegisterSchema = z.object({
+  username: z.string()
+    .trim()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username cannot exceed 30 characters')
+    .regex(/^[a-zA-Z0-9_]+$/, 'Username may only contain letters, numbers and underscores'),
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password cannot exceed 128 characters')
+});
+
+// Login schema - body of POST /auth/login
+export const LoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required')
+});
+
+// Check-in creation schema - body of POST /checkins
+export const CheckinCreateSchema = CoordinateSchema.extend({
+  placeId: zId(),
+  message: z.string().trim().max(280, 'Message cannot exceed 280 characters').optional()
+});
+
+// OSM element params schema - params of GET /places/osm/:type/:id
+export const OsmElementParamsSchema = z.object({
+  type: z.enum(['node', 'way', 'relation']),
+  id: z.number().int().positive()
+});
+
+// Check-in timeline schema - query of GET /users/:id/checkins and GET /me/checkins
+export const CheckinTimelineQuerySchema = CursorPaginationSchema.extend({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  category: z.string().min(1).optional()
+}).refine(
+  ({ from, to }) => !from || !to || from <= to,
+  { message: '`from` must be before `to`', path: ['from'] }
+);
+
+// Flagged check-ins schema - query of GET /admin/checkins/flagged
+export const FlaggedCheckinQuerySchema = CursorPaginationSchema.extend({
+  flag: z.enum(['impossible_travel', 'high_velocity', 'rapid_fire']).optional(),
+  minScore: z.number().min(0).max(1).optional()
+});
+
+// User-contributed place schemas - bodies of POST /places and PATCH /places/:id
+export const PlaceCreateSchema = PlaceDocumentSchema.pick({
+  name: true,
+  names: true,
+  address: true,
+  addressComponents: true,
+  coordinates: true,
+  category: true,
+  country: true
+}).extend({
+  name: PlaceDocumentSchema.shape.name.trim().max(200, 'Name cannot exceed 200 characters'),
+  category: PlaceDocumentSchema.shape.category.trim().max(100, 'Category cannot exceed 100 characters')
+});
+
+export const PlaceUpdateSchema = PlaceCreateSchema
+  .partial()
+  .refine(update => Object.keys(update).length > 0, { message: 'At least one field must be updated' });
+
+// Review schemas - body of POST /places/:id/reviews and query of GET /places/:id/reviews
+export const ReviewCreateSchema = z.object({
+  rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+  text: z.string().trim().max(2000, 'Review cannot exceed 2000 characters').optional()
+});
+
+export const ReviewQuerySchema = CursorPaginationSchema;
+
+// Photo upload schema - multipart body of POST /places/:id/photos
+export const PhotoUploadSchema = z.object({
+  file: z.instanceof(File, { message: 'A photo file is required' }),
+  caption: z.string().trim().max(500, 'Caption cannot exceed 500 characters').optional()
+});
+
+export const PhotoQuerySchema = CursorPaginationSchema;
+
+// Leaderboard schemas - query of GET /places/:id/leaderboard and GET /leaderboards
+export const PlaceLeaderboardQuerySchema = z.object({
+  limit: z.number().int().min(1).max(100).default(10)
+});
+
+export const LeaderboardQuerySchema = PlaceLeaderboardQuerySchema.extend({
+  category: z.string().trim().min(1).optional(),
+  period: z.enum(['week', 'month', 'year', 'all']).default('month')
+});
+
+// Badge rule schema - definitions loaded from server/data/badges.json
+export const BadgeRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Badge IDs must be lowercase slugs'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  icon: z.string().optional(),
+  criteria: z.object({
+    // checkins: number of check-ins, distinct_places: number of different places,
+    // distinct_values: number of different values of a place `field`
+    metric: z.enum(['checkins', 'distinct_places', 'distinct_values']),
+    field: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_.]*$/, 'Field must be a plain place field path').optional(),
+    // Only count check-ins at places in these categories
+    categories: z.array(z.string().min(1)).min(1).optional(),
+    threshold: z.number().int().min(1)
+  }).refine(
+    ({ metric, field }) => (metric === 'distinct_values') === (field !== undefined),
+    { message: '`field` is required by, and only allowed for, the distinct_values metric', path: ['field'] }
+  )
+});
+
+export const BadgeRulesSchema = z.array(BadgeRuleSchema).refine(
+  rules => new Set(rules.map(rule => rule.id)).size === rules.length,
+  { message: 'Badge IDs must be unique' }
+);
+
+// Category taxonomy schemas - see server/data/categories.json
+export interface CategoryNode {
+  id: string;
+  icon?: string;
+  labels: Record<string, string>;
+  // OSM tag sets identifying the category, `*` matches any value of a tag
+  match?: Record<string, string>[];
+  children?: CategoryNode[];
+}
+
+export const CategoryNodeSchema: z.ZodType<CategoryNode> = z.lazy(() => z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Category IDs must be lowercase snake_case'),
+  icon: z.string().optional(),
+  labels: z.record(z.string().min(1)).refine(labels => 'en' in labels, { message: 'An English label is required' }),
+  match: z.array(z.record(z.string().min(1)).refine(
+    tags => Object.keys(tags).length > 0,
+    { message: 'A match needs at least one tag' }
+  )).optional(),
+  children: z.array(CategoryNodeSchema).optional()
+}));
+
+export const CategoryTaxonomySchema = z.array(CategoryNodeSchema).superRefine((categories, context) => {
+  const ids: string[] = [];
+  const collect = (nodes: CategoryNode[]) => nodes.forEach(node => {
+    ids.push(node.id);
+    collect(node.children ?? []);
+  });
+  collect(categories);
+
+  if (new Set(ids).size !== ids.length) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: 'Category IDs must be unique' });
+  }
+  if (!categories.some(category => category.id === 'other')) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: 'A top-level `other` category is required for unmatched places' });
+  }
+});
+
+// Categories query schema - query of GET /categories
+export const CategoryQuerySchema = z.object({
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Locale must be a language code such as `en` or `pt-BR`').optional()
 });
 
 // Response schemas for API endpoints
 export const PlaceResponseSchema = z.object({
-  page: z.number(),
   limit: z.number(),
   results: z.array(PlaceDocumentSchema),
-  total: z.number()
+  // Estimated until the last page
+  total: z.number(),
+  nextCursor: z.string().nullable(),
+  hasMore: z.boolean()
 });
 
 export const HealthCheckResponseSchema = z.object({
@@ -83,9 +400,39 @@ export const ErrorResponseSchema = z.object({
 // Type exports for TypeScript integration
 export type CoordinateInput = z.infer<typeof CoordinateSchema>;
 export type GeoJSONPoint = z.infer<typeof GeoJSONPointSchema>;
+export type GeoJSONPolygon = z.infer<typeof GeoJSONPolygonSchema>;
+export type GeoJSONMultiPolygon = z.infer<typeof GeoJSONMultiPolygonSchema>;
 export type PaginationInput = z.infer<typeof PaginationSchema>;
+export type CursorPaginationInput = z.infer<typeof CursorPaginationSchema>;
 export type PlaceQueryInput = z.infer<typeof PlaceQuerySchema>;
+export type PlaceAddress = z.infer<typeof AddressSchema>;
+export type ReverseQueryInput = z.infer<typeof ReverseQuerySchema>;
+export type OpeningInterval = z.infer<typeof OpeningIntervalSchema>;
+export type OpeningHours = z.infer<typeof OpeningHoursSchema>;
+export type PlaceLanguageQueryInput = z.infer<typeof PlaceLanguageQuerySchema>;
+export type PlaceSearchQueryInput = z.infer<typeof PlaceSearchQuerySchema>;
+export type PlaceAreaQueryInput = z.infer<typeof PlaceAreaQuerySchema>;
+export type BoundingBoxQueryInput = z.infer<typeof BoundingBoxQuerySchema>;
+export type GeoJSONArea = z.infer<typeof GeoJSONAreaSchema>;
 export type PlaceDocument = z.infer<typeof PlaceDocumentSchema>;
+export type RegisterInput = z.infer<typeof RegisterSchema>;
+export type LoginInput = z.infer<typeof LoginSchema>;
+export type CheckinCreateInput = z.infer<typeof CheckinCreateSchema>;
+export type OsmElementParamsInput = z.infer<typeof OsmElementParamsSchema>;
+export type OsmElementType = OsmElementParamsInput['type'];
+export type CheckinTimelineQueryInput = z.infer<typeof CheckinTimelineQuerySchema>;
+export type FlaggedCheckinQueryInput = z.infer<typeof FlaggedCheckinQuerySchema>;
+export type PlaceCreateInput = z.infer<typeof PlaceCreateSchema>;
+export type PlaceUpdateInput = z.infer<typeof PlaceUpdateSchema>;
+export type ReviewCreateInput = z.infer<typeof ReviewCreateSchema>;
+export type ReviewQueryInput = z.infer<typeof ReviewQuerySchema>;
+export type PhotoUploadInput = z.infer<typeof PhotoUploadSchema>;
+export type PhotoQueryInput = z.infer<typeof PhotoQuerySchema>;
+export type PlaceLeaderboardQueryInput = z.infer<typeof PlaceLeaderboardQuerySchema>;
+export type LeaderboardQueryInput = z.infer<typeof LeaderboardQuerySchema>;
+export type LeaderboardPeriod = LeaderboardQueryInput['period'];
+export type BadgeRule = z.infer<typeof BadgeRuleSchema>;
+export type CategoryQueryInput = z.infer<typeof CategoryQuerySchema>;
 export type PlaceResponse = z.infer<typeof PlaceResponseSchema>;
 export type HealthCheckResponse = z.infer<typeof HealthCheckResponseSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
@@ -97,4 +444,9 @@ export const validateCoordinates = (lat: number, lon: number): boolean => {
 
 export const validateRadius = (radius: number): boolean => {
   return radius >= 100 && radius <= 5000;
-};
\ No newline at end of file
+};
+
+// Polygons of an area, each as its rings
+export const polygonsOf = (area: GeoJSONPolygon | GeoJSONMultiPolygon): GeoJSONPolygon['coordinates'][] => {
+  return area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+};
@@ -1,3 +1,6 @@
+import { Types } from 'mongoose';
+import type { CursorPaginatedResponse, DistancePaginatedResponse, PlaceAddress } from '../types';
+
 /**
  * Calcula a distância entre duas coordenadas geográficas usando a fórmula de Haversine.
  * @param {number} lat1 - Latitude do primeiro ponto em graus.
@@ -23,3 +26,521 @@ export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2
   const distancia = R * c;
   return distancia;
 }
+
+/**
+ * Encode a pagination position into an opaque, URL-safe cursor.
+ * @param {Record<string, unknown>} position - Sort key values of the last returned item.
+ * @returns {string} - Base64url encoded cursor.
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`.
+ * @param {string} cursor - Opaque cursor received from a client.
+ * @returns {T | null} - The decoded position, or null when the cursor is malformed.
+ */
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string): T | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' && !Array.isArray(position) ? position as T : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether an error is a MongoDB duplicate key violation.
+ * @param {unknown} error - Error thrown by a write operation.
+ * @param {string} [indexName] - Only match violations of this unique index.
+ * @returns {boolean} - True for E11000 errors (on the given index, when provided).
+ */
+export function isDuplicateKeyError(error: unknown, indexName?: string): boolean {
+  const mongoError = error as { code?: number; message?: string } | null;
+  if (!mongoError || mongoError.code !== 11000) return false;
+  return !indexName || Boolean(mongoError.message?.includes(indexName));
+}
+
+/**
+ * Build the conditions selecting items strictly after a recency cursor.
+ * Recency cursors order items by `createdAt` then `_id`, both descending.
+ * @param {string} cursor - Cursor produced by `toRecencyPage`.
+ * @returns {Record<string, unknown>[] | null} - `$or` conditions, or null when the cursor is malformed.
+ */
+export function recencyCursorConditions(cursor: string): Record<string, unknown>[] | null {
+  const position = decodeCursor<{ createdAt: string; id: string }>(cursor);
+
+  if (!position || !Types.ObjectId.isValid(position.id) || isNaN(Date.parse(position.createdAt))) {
+    return null;
+  }
+
+  const createdAt = new Date(position.createdAt);
+  return [
+    { createdAt: { $lt: createdAt } },
+    { createdAt, _id: { $lt: new Types.ObjectId(position.id) } }
+  ];
+}
+
+/**
+ * Turn `limit + 1` items sorted by recency into a page with its next cursor.
+ * @param {T[]} items - Items fetched with one extra item to detect further pages.
+ * @param {number} limit - Page size requested by the client.
+ * @returns {CursorPaginatedResponse<T>} - The page of at most `limit` items.
+ */
+export function toRecencyPage<T extends { _id: unknown; createdAt: Date }>(items: T[], limit: number): CursorPaginatedResponse<T> {
+  const hasMore = items.length > limit;
+  const results = hasMore ? items.slice(0, limit) : items;
+  const last = results[results.length - 1];
+
+  return {
+    limit,
+    results,
+    nextCursor: hasMore && last
+      ? encodeCursor({ createdAt: last.createdAt.toISOString(), id: String(last._id) })
+      : null,
+    hasMore
+  };
+}
+
+// Position of a distance cursor: the last returned place and how many places were returned so far
+export type DistanceCursor = {
+  distance: number;
+  id: string;
+  offset: number;
+  // Sort value of the last place, for orders ranking places by a value before their distance
+  value?: number;
+  // Providers stored the places of the radius on an earlier page, later pages only search MongoDB
+  stored?: boolean;
+};
+
+/**
+ * Decode a distance cursor.
+ * Distance cursors order places by `distance` then `_id`, both ascending, after their `value`,
+ * descending, when they have one.
+ * @param {string} cursor - Cursor produced by `toDistancePage`.
+ * @returns {DistanceCursor | null} - The position, or null when the cursor is malformed.
+ */
+export function decodeDistanceCursor(cursor: string): DistanceCursor | null {
+  const position = decodeCursor<DistanceCursor>(cursor);
+
+  if (
+    !position ||
+    typeof position.distance !== 'number' || !(position.distance >= 0) ||
+    typeof position.id !== 'string' || !Types.ObjectId.isValid(position.id) ||
+    !Number.isInteger(position.offset) || position.offset < 0 ||
+    (position.value !== undefined && !Number.isFinite(position.value)) ||
+    (position.stored !== undefined && typeof position.stored !== 'boolean')
+  ) {
+    return null;
+  }
+
+  return position;
+}
+
+/**
+ * Order of distance cursors, nearest first and by `_id` among places at the same distance.
+ * ObjectId hex strings sort like the ObjectIds themselves.
+ * @returns {number} - Negative when `a` comes first.
+ */
+export function compareByDistance(a: { distance?: number; _id: unknown }, b: { distance?: number; _id: unknown }): number {
+  const [idA, idB] = [String(a._id), String(b._id)];
+  return (a.distance ?? 0) - (b.distance ?? 0) || (idA < idB ? -1 : idA > idB ? 1 : 0);
+}
+
+/**
+ * Order of distance cursors with a sort value, highest value first, then nearest first and by `_id`.
+ * @returns {number} - Negative when `a` comes first.
+ */
+export function compareByValue(
+  a: { value?: number; distance?: number; _id: unknown },
+  b: { value?: number; distance?: number; _id: unknown }
+): number {
+  return (b.value ?? 0) - (a.value ?? 0) || compareByDistance(a, b);
+}
+
+/**
+ * Turn `limit + 1` places sorted by `compareByDistance` into a page with its next cursor.
+ * @param {T[]} items - Places fetched with one extra place to detect further pages.
+ * @param {number} limit - Page size requested by the client.
+ * @param {number} estimatedTotal - Estimate of the number of places over all pages.
+ * @param {DistanceCursor} [after] - Position of the page, absent for the first one.
+ * @param {(item: T) => number} [valueOf] - Sort value of a place when sorted by `compareByValue` instead.
+ * @param {Pick<DistanceCursor, 'stored'>} [state] - State of the search carried over to the next page.
+ * @returns {DistancePaginatedResponse<T>} - The page of at most `limit` places, with a total that is
+ * exact on the last page and at least the places returned so far otherwise.
+ */
+export function toDistancePage<T extends { _id: unknown; distance?: number }>(
+  items: T[],
+  limit: number,
+  estimatedTotal: number,
+  after?: DistanceCursor,
+  valueOf?: (item: T) => number,
+  state?: Pick<DistanceCursor, 'stored'>
+): DistancePaginatedResponse<T> {
+  const hasMore = items.length > limit;
+  const results = hasMore ? items.slice(0, limit) : items;
+  const last = results[results.length - 1];
+  const offset = (after?.offset ?? 0) + results.length;
+
+  return {
+    limit,
+    total: hasMore ? Math.max(estimatedTotal, offset + 1) : offset,
+    results,
+    nextCursor: hasMore && last
+      ? encodeCursor({ distance: last.distance ?? 0, id: String(last._id), offset, ...(valueOf && { value: valueOf(last) }), ...state })
+      : null,
+    hasMore
+  };
+}
+
+// Nearest places a radius query needs: `limit` of them, beyond `minDistance` meters when given
+export interface NearbyBound {
+  limit: number;
+  minDistance?: number;
+}
+
+/**
+ * Places within a radius of a point, nearest first.
+ * @param {T[]} places - Places in any order.
+ * @param {number} lat - Latitude of the point in degrees.
+ * @param {number} lon - Longitude of the point in degrees.
+ * @param {number} radius - Radius in meters.
+ * @param {NearbyBound} [bound] - Only keep the nearest places beyond a distance.
+ * @returns {T[]} - The places within the radius and the bound.
+ */
+export function nearestPlaces<T extends { coordinates: { coordinates: number[] } }>(
+  places: T[],
+  lat: number,
+  lon: number,
+  radius: number,
+  bound?: NearbyBound
+): T[] {
+  const nearby = places
+    .map(place => ({ place, distance: calculateDistance(lat, lon, place.coordinates.coordinates[1], place.coordinates.coordinates[0]) }))
+    .filter(({ distance }) => distance <= radius && distance >= (bound?.minDistance ?? 0))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ place }) => place);
+
+  return bound ? nearby.slice(0, bound.limit) : nearby;
+}
+
+// Base32 alphabet of geohashes
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Bounding box of a geohash tile in degrees
+export interface GeohashBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * Encode a position as a geohash.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} lon - Longitude in degrees.
+ * @param {number} precision - Number of characters, each one narrows the tile 32 times.
+ * @returns {string} - Geohash of the tile containing the position.
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+  let [minLat, maxLat, minLon, maxLon] = [-90, 90, -180, 180];
+  let hash = '';
+  let bits = 0;
+  let index = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    if (evenBit) {
+      const mid = (minLon + maxLon) / 2;
+      index = index * 2 + (lon >= mid ? 1 : 0);
+      if (lon >= mid) minLon = mid; else maxLon = mid;
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      index = index * 2 + (lat >= mid ? 1 : 0);
+      if (lat >= mid) minLat = mid; else maxLat = mid;
+    }
+
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Decode the bounding box of a geohash tile.
+ * @param {string} geohash - Geohash produced by `encodeGeohash`.
+ * @returns {GeohashBounds} - Bounds of the tile.
+ * @throws {Error} - When the geohash contains characters outside the geohash alphabet.
+ */
+export function geohashBounds(geohash: string): GeohashBounds {
+  let [minLat, maxLat, minLon, maxLon] = [-90, 90, -180, 180];
+  let evenBit = true;
+
+  for (const char of geohash.toLowerCase()) {
+    const index = GEOHASH_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid geohash ${geohash}`);
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (index >> bit) & 1;
+
+      if (evenBit) {
+        const mid = (minLon + maxLon) / 2;
+        if (isSet) minLon = mid; else maxLon = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (isSet) minLat = mid; else maxLat = mid;
+      }
+
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+/**
+ * List the geohash tiles intersecting a circle.
+ * @param {number} lat - Latitude of the center in degrees.
+ * @param {number} lon - Longitude of the center in degrees.
+ * @param {number} radius - Radius in meters.
+ * @param {number} precision - Geohash length of the tiles.
+ * @returns {string[]} - Geohashes of the tiles, without duplicates.
+ */
+export function geohashesInRadius(lat: number, lon: number, radius: number, precision: number): string[] {
+  // Tile size in degrees: longitude gets the extra bit of odd precisions
+  const lonBits = Math.ceil(precision * 5 / 2);
+  const latBits = Math.floor(precision * 5 / 2);
+  const tileHeight = 180 / 2 ** latBits;
+  const tileWidth = 360 / 2 ** lonBits;
+
+  // Degrees spanned by the radius; longitude degrees shrink towards the poles
+  const latDelta = radius / 111320;
+  const lonDelta = Math.min(radius / (111320 * Math.max(Math.cos(lat * Math.PI / 180), 0.01)), 180);
+
+  const firstRow = Math.floor((Math.max(lat - latDelta, -90) + 90) / tileHeight);
+  const lastRow = Math.min(Math.floor((Math.min(lat + latDelta, 90) + 90) / tileHeight), 2 ** latBits - 1);
+  const firstColumn = Math.floor((lon - lonDelta + 180) / tileWidth);
+  const lastColumn = Math.floor((lon + lonDelta + 180) / tileWidth);
+
+  const geohashes = new Set<string>();
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const minLat = -90 + row * tileHeight;
+
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const minLon = -180 + column * tileWidth;
+
+      // Skip corner tiles of the bounding box outside the circle; unwrapped longitudes keep
+      // tiles across the antimeridian next to the center
+      const nearestLat = Math.min(Math.max(lat, minLat), minLat + tileHeight);
+      const nearestLon = Math.min(Math.max(lon, minLon), minLon + tileWidth);
+      if (calculateDistance(lat, lon, nearestLat, nearestLon) > radius) continue;
+
+      // Wrap the tile center around the antimeridian
+      const centerLon = ((minLon + tileWidth / 2 + 540) % 360) - 180;
+      geohashes.add(encodeGeohash(minLat + tileHeight / 2, centerLon, precision));
+    }
+  }
+
+  return [...geohashes];
+}
+
+/**
+ * List the geohash tiles intersecting a bounding box.
+ * @param {GeohashBounds} bounds - Bounding box in degrees, not crossing the antimeridian.
+ * @param {number} precision - Geohash length of the tiles.
+ * @returns {string[]} - Geohashes of the tiles.
+ */
+export function geohashesInBounds({ minLat, maxLat, minLon, maxLon }: GeohashBounds, precision: number): string[] {
+  // Tile size in degrees: longitude gets the extra bit of odd precisions
+  const lonBits = Math.ceil(precision * 5 / 2);
+  const latBits = Math.floor(precision * 5 / 2);
+  const tileHeight = 180 / 2 ** latBits;
+  const tileWidth = 360 / 2 ** lonBits;
+
+  const firstRow = Math.floor((minLat + 90) / tileHeight);
+  const lastRow = Math.min(Math.floor((maxLat + 90) / tileHeight), 2 ** latBits - 1);
+  const firstColumn = Math.floor((minLon + 180) / tileWidth);
+  const lastColumn = Math.min(Math.floor((maxLon + 180) / tileWidth), 2 ** lonBits - 1);
+
+  const geohashes: string[] = [];
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      geohashes.push(encodeGeohash(-90 + (row + 0.5) * tileHeight, -180 + (column + 0.5) * tileWidth, precision));
+    }
+  }
+
+  return geohashes;
+}
+
+// GeoJSON position, longitude first
+export type Position = [number, number];
+
+/**
+ * Closed ring of a bounding box, counterclockwise as GeoJSON expects of outlines.
+ * @param {GeohashBounds} bounds - Bounding box in degrees.
+ * @returns {Position[]} - Its corners, the first one repeated last.
+ */
+export function boundingBoxRing({ minLat, maxLat, minLon, maxLon }: GeohashBounds): Position[] {
+  return [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]];
+}
+
+/**
+ * Bounding box of rings.
+ * @param {Position[][]} rings - Rings of one or more polygons.
+ * @returns {GeohashBounds} - Smallest bounding box containing every position.
+ */
+export function ringsBounds(rings: Position[][]): GeohashBounds {
+  const positions = rings.flat();
+  return {
+    minLat: Math.min(...positions.map(([, lat]) => lat)),
+    maxLat: Math.max(...positions.map(([, lat]) => lat)),
+    minLon: Math.min(...positions.map(([lon]) => lon)),
+    maxLon: Math.max(...positions.map(([lon]) => lon))
+  };
+}
+
+/**
+ * Whether a position lies inside a ring, by casting a ray along its parallel.
+ * Edges are straight in degrees, which is close to MongoDB's great circles for small areas.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} lon - Longitude in degrees.
+ * @param {Position[]} ring - Closed ring.
+ * @returns {boolean} - True inside the ring, false outside; positions on edges may go either way.
+ */
+export function isInRing(lat: number, lon: number, ring: Position[]): boolean {
+  let inside = false;
+
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const [lonA, latA] = ring[index];
+    const [lonB, latB] = ring[previous];
+
+    if ((latA > lat) !== (latB > lat) && lon < lonA + (lat - latA) * (lonB - lonA) / (latB - latA)) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Whether a position lies inside a polygon.
+ * @param {number} lat - Latitude in degrees.
+ * @param {number} lon - Longitude in degrees.
+ * @param {Position[][]} rings - Outline of the polygon followed by its holes, each closed.
+ * @returns {boolean} - True inside the outline and outside every hole.
+ */
+export function isInPolygon(lat: number, lon: number, [outline, ...holes]: Position[][]): boolean {
+  return isInRing(lat, lon, outline) && !holes.some(hole => isInRing(lat, lon, hole));
+}
+
+/**
+ * Area of a polygon on the sphere.
+ * @param {Position[][]} rings - Outline of the polygon followed by its holes, each closed.
+ * @returns {number} - Area in square meters, that of the holes excluded.
+ */
+export function polygonArea([outline, ...holes]: Position[][]): number {
+  return holes.reduce((area, hole) => area - ringArea(hole), ringArea(outline));
+}
+
+/**
+ * Area enclosed by a ring on a sphere of the Earth's equatorial radius, see
+ * Chamberlain & Duquette, "Some Algorithms for Polygons on a Sphere" (2007).
+ */
+function ringArea(ring: Position[]): number {
+  const R = 6378137;
+  const toRad = (value: number) => value * Math.PI / 180;
+  // The closing position repeats the first one
+  const positions = ring.slice(0, -1);
+
+  let sum = 0;
+  positions.forEach(([, lat], index) => {
+    const [nextLon] = positions[(index + 1) % positions.length];
+    const [previousLon] = positions[(index - 1 + positions.length) % positions.length];
+    sum += toRad(nextLon - previousLon) * Math.sin(toRad(lat));
+  });
+
+  return Math.abs(sum * R * R / 2);
+}
+
+/**
+ * List the languages of an Accept-Language header by preference.
+ * @param {string} [header] - Header value, e.g. `pt-BR,pt;q=0.9,en;q=0.8`.
+ * @returns {string[]} - Language tags, most preferred first, without `*` and refused (`q=0`) languages.
+ */
+export function parseAcceptLanguage(header?: string): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: tag.trim(), q: quality ? parseFloat(quality.slice(2)) : 1, index };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Pick the best name of a place for a list of preferred languages.
+ * Each language is tried exactly, then by its base language (`pt` for `pt-BR`), then through
+ * any regional variant of it (`pt-PT` for `pt`); the canonical name comes last.
+ * @param {string} name - Canonical name.
+ * @param {Record<string, string>} [names] - Localized names keyed by language.
+ * @param {string[]} languages - Preferred languages, most preferred first.
+ * @returns {string} - The localized name, or the canonical name when none matches.
+ */
+export function pickLocalizedName(name: string, names: Record<string, string> | undefined, languages: string[]): string {
+  if (!names) return name;
+
+  const entries = Object.entries(names).map(([language, value]) => [language.toLowerCase(), value] as const);
+
+  for (const language of languages.map(language => language.toLowerCase())) {
+    const base = language.split('-')[0];
+    const match = entries.find(([key]) => key === language) ??
+      entries.find(([key]) => key === base) ??
+      entries.find(([key]) => key.split('-')[0] === base);
+
+    if (match) return match[1];
+  }
+
+  return name;
+}
+
+// Countries writing the house number before the street, e.g. `10 Downing Street`
+const HOUSENUMBER_FIRST_COUNTRIES = ['US', 'GB', 'IE', 'FR', 'CA', 'AU', 'NZ', 'IN', 'ZA'];
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+/**
+ * Format a structured address as a single display line.
+ * The house number goes before the street in countries writing it so, after it otherwise.
+ * @param {PlaceAddress} [address] - Structured address.
+ * @returns {string} - E.g. `Rua Augusta, 123, 1100-053 Lisboa, Portugal`, or `Unknown address` when empty.
+ */
+export function formatAddress(address?: PlaceAddress): string {
+  if (!address) return 'Unknown address';
+
+  const { housenumber, street, city, postcode, state, country } = address;
+
+  const streetLine = street && housenumber
+    ? (country && HOUSENUMBER_FIRST_COUNTRIES.includes(country) ? `${housenumber} ${street}` : `${street}, ${housenumber}`)
+    : street;
+  const cityLine = [postcode, city].filter(Boolean).join(' ');
+  const countryName = country ? (countryNames.of(country) ?? country) : undefined;
+
+  const parts = [streetLine, cityLine, state !== city ? state : undefined, countryName].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : 'Unknown address';
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'bun:test';
+import { formatAddress } from '../server/utils';
+import { addressFromTags } from '../server/Service/OsmTags';
+import type { AddressedPlace } from '../server/Service/ReverseGeocoder';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Boundary model answering every lookup with the same boundaries
+const boundaryModel = (boundaries: unknown[], onFind: () => void = () => {}) => ({
+  find: () => {
+    onFind();
+    return {
+      select: () => ({
+        sort: () => ({
+          lean: () => Promise.resolve(boundaries)
+        })
+      })
+    };
+  }
+});
+
+const LISBON_BOUNDARIES = [
+  { name: 'Portugal', adminLevel: 2, countryCode: 'PT' },
+  { name: 'Lisboa', adminLevel: 6 },
+  { name: 'Santa Maria Maior', adminLevel: 8 }
+];
+
+describe('Addresses', () => {
+  it('should read structured addresses from addr:* tags', () => {
+    expect(addressFromTags({
+      name: 'Arco da Rua Augusta',
+      'addr:street': 'Rua Augusta',
+      'addr:housenumber': '2',
+      'addr:postcode': '1100-053',
+      'addr:city': 'Lisboa',
+      'addr:country': 'pt'
+    })).toEqual({ housenumber: '2', street: 'Rua Augusta', city: 'Lisboa', postcode: '1100-053', country: 'PT' });
+
+    // Addresses without a street belong to a named place
+    expect(addressFromTags({ 'addr:place': 'Praça do Comércio', 'addr:province': 'Lisboa' }))
+      .toEqual({ street: 'Praça do Comércio', state: 'Lisboa' });
+    expect(addressFromTags({ name: 'Untagged' })).toEqual({});
+  });
+
+  it('should format addresses by country convention', () => {
+    expect(formatAddress({ housenumber: '10', street: 'Downing Street', city: 'London', postcode: 'SW1A 2AA', country: 'GB' }))
+      .toBe('10 Downing Street, SW1A 2AA London, United Kingdom');
+    expect(formatAddress({ housenumber: '2', street: 'Rua Augusta', city: 'Lisboa', postcode: '1100-053', country: 'PT' }))
+      .toBe('Rua Augusta, 2, 1100-053 Lisboa, Portugal');
+    expect(formatAddress({ city: 'São Paulo', state: 'São Paulo', country: 'BR' })).toBe('São Paulo, Brazil');
+    expect(formatAddress({})).toBe('Unknown address');
+    expect(formatAddress()).toBe('Unknown address');
+  });
+
+  it('should format the address of parsed OSM elements', async () => {
+    const { placeFromOsmElement } = await import('../server/Service/PlaceParsers');
+
+    const { place } = placeFromOsmElement({
+      type: 'node',
+      id: 1,
+      lat: '38.7080',
+      lon: '-9.1366',
+      tags: { name: 'Arco da Rua Augusta', tourism: 'attraction', 'addr:street': 'Rua Augusta', 'addr:housenumber': '2', 'addr:country': 'PT' }
+    }, 'overpass');
+
+    expect(place!.address).toBe('Rua Augusta, 2, Portugal');
+    expect(place!.addressComponents).toEqual({ housenumber: '2', street: 'Rua Augusta', country: 'PT' });
+    expect(place!.country).toBe('PT');
+  });
+});
+
+describe('Reverse Geocoder', () => {
+  it('should pick the city, state and country by admin level', async () => {
+    const { ReverseGeocoder } = await import('../server/Service/ReverseGeocoder');
+    const geocoder = new ReverseGeocoder(boundaryModel([
+      ...LISBON_BOUNDARIES,
+      { name: 'Área Metropolitana de Lisboa', adminLevel: 5 }
+    ]) as any);
+
+    const result = await geocoder.reverse(38.7080, -9.1366);
+
+    // Level 8 is more local than level 6, and level 5 stands in for a missing level 4
+    expect(result.address).toEqual({ city: 'Santa Maria Maior', state: 'Área Metropolitana de Lisboa', country: 'PT' });
+    expect(result.formatted).toBe('Santa Maria Maior, Área Metropolitana de Lisboa, Portugal');
+    expect(result.boundaries).toHaveLength(4);
+  });
+
+  it('should complete missing components and keep tagged ones', async () => {
+    const { ReverseGeocoder } = await import('../server/Service/ReverseGeocoder');
+    let lookups = 0;
+    const geocoder = new ReverseGeocoder(boundaryModel(LISBON_BOUNDARIES, () => lookups++) as any);
+
+    const tagged = {
+      address: 'Rua Augusta, 2, Lisboa',
+      addressComponents: { housenumber: '2', street: 'Rua Augusta', city: 'Lisboa' },
+      coordinates: { type: 'Point' as const, coordinates: [-9.1366, 38.7080] as [number, number] }
+    };
+    const described = {
+      address: 'Next to the arch',
+      coordinates: { type: 'Point' as const, coordinates: [-9.1367, 38.7081] as [number, number] }
+    };
+
+    const [completed, kept] = await geocoder.complete<AddressedPlace>([tagged, described]);
+
+    expect(completed.addressComponents).toEqual({ housenumber: '2', street: 'Rua Augusta', city: 'Lisboa', country: 'PT' });
+    expect(completed.address).toBe('Rua Augusta, 2, Lisboa, Portugal');
+    expect(completed.country).toBe('PT');
+    // Addresses given as text are kept
+    expect(kept.address).toBe('Next to the arch');
+    expect(kept.addressComponents?.city).toBe('Santa Maria Maior');
+    // Both places are in the same tile
+    expect(lookups).toBe(1);
+  });
+
+  it('should leave places unchanged when lookups fail', async () => {
+    const { ReverseGeocoder } = await import('../server/Service/ReverseGeocoder');
+    const geocoder = new ReverseGeocoder({ find: () => { throw new Error('connection lost'); } } as any);
+
+    const place = { address: 'Unknown address', coordinates: { type: 'Point' as const, coordinates: [0, 0] as [number, number] } };
+
+    expect(await geocoder.complete([place])).toEqual([place]);
+  });
+
+  it('should respond 404 outside of stored boundaries', async () => {
+    const { ReverseGeocoder } = await import('../server/Service/ReverseGeocoder');
+    const { ReverseController } = await import('../server/Controller/Reverse');
+    const controller = new ReverseController(new ReverseGeocoder(boundaryModel([]) as any), mockLogger as any);
+
+    const context = {
+      query: { lat: 0, lon: -30 },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+    const response = await controller.reverse(context);
+
+    expect(context.set.status).toBe(404);
+    expect(response.data).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import axios from 'axios';
+import { Types } from 'mongoose';
+import { BoundingBoxQuerySchema, GeoJSONAreaSchema } from '../server/schemas/validation';
+import { GeoPlaceController } from '../server/Controller/Geoplace';
+import { OverpassProvider } from '../server/Service/OverpassProvider';
+import { OverpassClient } from '../server/Service/OverpassClient';
+import TileCoverage from '../server/Service/TileCoverage';
+import PlaceStore from '../server/Service/PlaceStore';
+import { geohashBounds } from '../server/utils';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const place = (name: string, lon: number, lat: number, source = 'overpass') => ({
+  _id: new Types.ObjectId(),
+  name,
+  coordinates: { type: 'Point', coordinates: [lon, lat] },
+  category: 'cafe',
+  source
+});
+
+// Triangle around the Champ de Mars, about 4 km²
+const TRIANGLE = {
+  type: 'Polygon' as const,
+  coordinates: [[[2.28, 48.85], [2.32, 48.85], [2.3, 48.875], [2.28, 48.85]] as [number, number][]]
+};
+
+// Place model answering every find with the same places, recording filters
+const placeModel = (places: unknown[], filters: any[] = []) => ({
+  find: (filter: any) => {
+    filters.push(filter);
+    const query = {
+      limit: (limit: number) => {
+        filters.push({ limit });
+        return query;
+      },
+      lean: () => Promise.resolve(places)
+    };
+    return query;
+  }
+});
+
+const createController = (model: unknown, providers: unknown[] = []) => new GeoPlaceController(
+  model as any,
+  { get: () => undefined, set: () => {}, has: () => false, clear: () => {} } as any,
+  mockLogger as any,
+  providers as any
+);
+
+const areaContext = (query: Record<string, unknown>, body: unknown = {}) => ({
+  query: { limit: 100, ...query },
+  params: {},
+  body,
+  headers: {},
+  set: { status: 200, headers: {} }
+});
+
+describe('Area validation', () => {
+  it('should reject inverted and oversized bounding boxes', () => {
+    const box = { minLat: 48.85, minLon: 2.28, maxLat: 48.87, maxLon: 2.31 };
+
+    expect(BoundingBoxQuerySchema.safeParse(box).success).toBe(true);
+    expect(BoundingBoxQuerySchema.parse(box).limit).toBe(100);
+    expect(BoundingBoxQuerySchema.safeParse({ ...box, minLat: 48.88 }).success).toBe(false);
+
+    const large = BoundingBoxQuerySchema.safeParse({ minLat: 48.8, minLon: 2.2, maxLat: 48.9, maxLon: 2.4 });
+    expect(large.success).toBe(false);
+    expect(large.error?.issues[0].message).toContain('cannot exceed 80 km²');
+  });
+
+  it('should reject open rings and oversized polygons', () => {
+    expect(GeoJSONAreaSchema.safeParse(TRIANGLE).success).toBe(true);
+    expect(GeoJSONAreaSchema.safeParse({ type: 'MultiPolygon', coordinates: [TRIANGLE.coordinates] }).success).toBe(true);
+
+    const open = GeoJSONAreaSchema.safeParse({ type: 'Polygon', coordinates: [TRIANGLE.coordinates[0].slice(0, 3)] });
+    expect(open.success).toBe(false);
+
+    const large = GeoJSONAreaSchema.safeParse({
+      type: 'Polygon',
+      coordinates: [[[2.2, 48.8], [2.4, 48.8], [2.4, 48.9], [2.2, 48.9], [2.2, 48.8]]]
+    });
+    expect(large.success).toBe(false);
+    expect(GeoJSONAreaSchema.safeParse({ type: 'Point', coordinates: [2.29, 48.85] }).success).toBe(false);
+  });
+});
+
+describe('Area tiles', () => {
+  it('should tell tiles inside polygons from tiles across their outlines', () => {
+    const { tiles, inside } = TileCoverage.tilesInPolygons([TRIANGLE.coordinates[0]]);
+
+    expect(inside.length).toBeGreaterThan(0);
+    expect(tiles.length).toBeGreaterThan(inside.length);
+    for (const geohash of inside) {
+      const { minLat, maxLat } = geohashBounds(geohash);
+      expect(minLat).toBeGreaterThanOrEqual(48.85);
+      expect(maxLat).toBeLessThanOrEqual(48.875);
+    }
+  });
+});
+
+describe('Overpass area queries', () => {
+  it('should fetch missing tiles with a poly query and serve the stored places of the polygon', async () => {
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']), { enqueue: () => true } as any);
+    const { tiles, inside } = TileCoverage.tilesInPolygons([TRIANGLE.coordinates[0]]);
+    const across = tiles.find(geohash => !inside.includes(geohash))!;
+    const stored = [place('Café du Champ de Mars', 2.295, 48.855)] as any[];
+
+    const statesOf = spyOn(TileCoverage, 'statesOf').mockResolvedValue({ tiles, missing: [inside[0], across], stale: [] });
+    const recordQueries = spyOn(TileCoverage, 'recordQueries').mockResolvedValue();
+    const markFetched = spyOn(TileCoverage, 'markFetched').mockResolvedValue();
+    const findWithin = spyOn(PlaceStore, 'findWithin').mockResolvedValue(stored);
+    const post = spyOn(axios, 'post').mockResolvedValue({ data: { elements: [] } });
+
+    try {
+      expect(await provider.queryPolygon(TRIANGLE, 10)).toBe(stored);
+
+      const query = String(post.mock.calls[0][1]);
+      expect(query).toContain('node["name"](poly:"48.85 2.28 48.85 2.32 48.875 2.3");');
+      const { minLat, minLon, maxLat, maxLon } = geohashBounds(across);
+      expect(query).toContain(`node["name"](${minLat},${minLon},${maxLat},${maxLon});`);
+
+      expect(markFetched).toHaveBeenCalledWith('overpass', [inside[0], across], []);
+      expect(findWithin).toHaveBeenCalledWith('overpass', TRIANGLE, 10);
+    } finally {
+      statesOf.mockRestore();
+      recordQueries.mockRestore();
+      markFetched.mockRestore();
+      findWithin.mockRestore();
+      post.mockRestore();
+    }
+  });
+});
+
+describe('Area search', () => {
+  it('should serve MongoDB places inside the area and tell when there are more', async () => {
+    const filters: any[] = [];
+    const queried: unknown[] = [];
+    const places = [place('Café A', 2.295, 48.855, 'mongodb'), place('Café B', 2.296, 48.856, 'mongodb'), place('Café C', 2.297, 48.857, 'mongodb')];
+    // Asked even though MongoDB has enough places, so the uncovered tiles of the area get fetched
+    const provider = { name: 'overpass', queryPlaces: async () => [], queryPolygon: async (area: unknown) => queried.push(area) && [] };
+    const controller = createController(placeModel(places, filters), [provider]);
+
+    const response = await controller.getPlacesWithin(areaContext({ limit: 2, categories: ['cafe'] }, TRIANGLE)) as any;
+
+    expect(response).toEqual({ limit: 2, truncated: true, results: expect.any(Array) });
+    expect(queried).toEqual([TRIANGLE]);
+    expect(response.results.map((result: any) => result.name)).toEqual(['Café A', 'Café B']);
+    expect(filters[0].coordinates).toEqual({ $geoWithin: { $geometry: TRIANGLE } });
+    expect(filters[0].category.$in).toContain('cafe');
+    expect(filters[1]).toEqual({ limit: 3 });
+  });
+
+  it('should complete sparse areas with the providers supporting area queries', async () => {
+    const bounds: unknown[] = [];
+    const overpass = {
+      name: 'overpass',
+      queryPlaces: async () => [],
+      queryBoundingBox: async (box: unknown, limit: number) => {
+        bounds.push(box, limit);
+        return [place('Tour Eiffel', 2.2945, 48.8584)];
+      }
+    };
+    // Without area queries, only its stored places are served
+    const geojson = { name: 'geojson', queryPlaces: async () => { throw new Error('Not queried'); } };
+    const controller = createController(placeModel([place('Café A', 2.295, 48.855, 'mongodb')]), [overpass, geojson]);
+    const box = { minLat: 48.85, minLon: 2.28, maxLat: 48.87, maxLon: 2.31 };
+
+    const response = await controller.getPlacesInBoundingBox(areaContext({ ...box, limit: 10 })) as any;
+
+    expect(response).toMatchObject({ limit: 10, truncated: false });
+    expect(response.results.map((result: any) => result.name)).toEqual(['Café A', 'Tour Eiffel']);
+    expect(bounds).toEqual([box, 11]);
+  });
+
+  it('should serve MongoDB places while providers are failing, and respond 503 without any', async () => {
+    const overpass = { name: 'overpass', queryPlaces: async () => [], queryBoundingBox: async () => { throw Object.assign(new Error('Overpass is unavailable'), { statusCode: 503 }); } };
+    const box = { minLat: 48.85, minLon: 2.28, maxLat: 48.87, maxLon: 2.31 };
+
+    const stored = createController(placeModel([place('Café A', 2.295, 48.855, 'mongodb')]), [overpass]);
+    const response = await stored.getPlacesInBoundingBox(areaContext({ ...box, limit: 10 })) as any;
+    expect(response.results.map((result: any) => result.name)).toEqual(['Café A']);
+
+    const context = areaContext({ ...box, limit: 10 });
+    const empty = createController(placeModel([]), [overpass]);
+    expect(await empty.getPlacesInBoundingBox(context)).toMatchObject({ data: null, error: 'Service Unavailable' });
+    expect(context.set.status).toBe(503);
+  });
+});
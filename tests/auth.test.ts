@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { Elysia } from 'elysia';
+import { TokenService } from '../server/Service/TokenService';
+import { authPlugin, requireAuth } from '../server/Middlewares/AuthMiddleware';
+
+describe('Token Service', () => {
+  it('should verify a token it signed', async () => {
+    const token = await TokenService.sign({ id: '64b7f0c2a1b2c3d4e5f60718', username: 'traveller' });
+    const user = await TokenService.verify(token);
+
+    expect(user).toEqual({ id: '64b7f0c2a1b2c3d4e5f60718', username: 'traveller' });
+  });
+
+  it('should reject a tampered token', async () => {
+    const token = await TokenService.sign({ id: '64b7f0c2a1b2c3d4e5f60718', username: 'traveller' });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: 'someone-else', username: 'admin' })).toString('base64url');
+
+    expect(await TokenService.verify(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', async () => {
+    expect(await TokenService.verify('not-a-token')).toBeNull();
+  });
+});
+
+describe('Auth Middleware', () => {
+  const app = new Elysia({ prefix: '/api/v1' })
+    .use(authPlugin)
+    .get('/protected', ({ currentUser }) => ({ currentUser }), { beforeHandle: requireAuth });
+
+  it('should reject anonymous requests with 401', async () => {
+    const response = await app.handle(
+      new Request('http://localhost:3000/api/v1/protected')
+    );
+
+    expect(response.status).toBe(401);
+
+    const body = await response.json();
+    expect(body.error).toBe('Unauthorized');
+  });
+
+  it('should reject requests with an invalid bearer token', async () => {
+    const response = await app.handle(
+      new Request('http://localhost:3000/api/v1/protected', {
+        headers: { Authorization: 'Bearer invalid.token.value' }
+      })
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
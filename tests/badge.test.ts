@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { BadgeRulesSchema, type BadgeRule } from '../server/schemas/validation';
+
+const userId = String(new Types.ObjectId());
+
+const rules: BadgeRule[] = [
+  {
+    id: 'first-checkin',
+    name: 'Newcomer',
+    description: 'Check in for the first time',
+    criteria: { metric: 'checkins', threshold: 1 }
+  },
+  {
+    id: 'museum-goer',
+    name: 'Museum Goer',
+    description: 'Check in at museums 5 times',
+    criteria: { metric: 'checkins', categories: ['museum'], threshold: 5 }
+  },
+  {
+    id: 'globetrotter',
+    name: 'Globetrotter',
+    description: 'Check in in 3 countries',
+    criteria: { metric: 'distinct_values', field: 'country', threshold: 3 }
+  }
+];
+
+// Mock check-in model answering every progress aggregation with the same count
+const createCheckinModel = (count: number) => ({
+  aggregate: () => Promise.resolve(count > 0 ? [{ count }] : [])
+});
+
+// Mock user badge model recording awarded badges
+const createUserBadgeModel = (held: string[] = []) => {
+  const created: string[] = [];
+  return {
+    created,
+    find: () => ({ distinct: () => Promise.resolve(held) }),
+    create: ({ badgeId }: { badgeId: string }) => {
+      created.push(badgeId);
+      return Promise.resolve({ badgeId });
+    }
+  };
+};
+
+describe('Badge Rules', () => {
+  it('should load the shipped badge definitions', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+
+    expect(BadgeService.loadRules().length).toBeGreaterThan(0);
+  });
+
+  it('should reject distinct_values rules without a field', () => {
+    const result = BadgeRulesSchema.safeParse([
+      { id: 'countries', name: 'Countries', description: 'Many countries', criteria: { metric: 'distinct_values', threshold: 3 } }
+    ]);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject duplicate badge IDs', () => {
+    expect(BadgeRulesSchema.safeParse([rules[0], rules[0]]).success).toBe(false);
+  });
+});
+
+describe('Badge Service', () => {
+  it('should only count unflagged check-ins in the rule categories', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+    const service = new BadgeService(createCheckinModel(0) as any, createUserBadgeModel() as any, rules);
+
+    const [match] = service.buildProgressPipeline(rules[1], userId) as any[];
+
+    expect(match.$match['flags.0']).toEqual({ $exists: false });
+    expect(match.$match.category).toEqual({ $in: ['museum'] });
+  });
+
+  it('should count distinct place field values through the places collection', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+    const service = new BadgeService(createCheckinModel(0) as any, createUserBadgeModel() as any, rules, 'places');
+
+    const pipeline = service.buildProgressPipeline(rules[2], userId) as any[];
+    const lookup = pipeline.find(stage => stage.$lookup);
+
+    expect(lookup.$lookup.from).toBe('places');
+    expect(lookup.$lookup.pipeline).toEqual([{ $project: { value: '$country' } }]);
+  });
+
+  it('should award badges once their threshold is reached', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+    const userBadgeModel = createUserBadgeModel();
+    const service = new BadgeService(createCheckinModel(3) as any, userBadgeModel as any, rules);
+
+    const awarded = await service.evaluate(userId, 'cafe');
+
+    // museum-goer is skipped for cafe check-ins, and needs 5 anyway
+    expect(awarded.map(rule => rule.id)).toEqual(['first-checkin', 'globetrotter']);
+    expect(userBadgeModel.created).toEqual(['first-checkin', 'globetrotter']);
+  });
+
+  it('should not award badges the user already holds', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+    const userBadgeModel = createUserBadgeModel(['first-checkin', 'globetrotter']);
+    const service = new BadgeService(createCheckinModel(10) as any, userBadgeModel as any, rules);
+
+    const awarded = await service.evaluate(userId, 'museum');
+
+    expect(awarded.map(rule => rule.id)).toEqual(['museum-goer']);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'bun:test';
+import { CategoryTaxonomySchema } from '../server/schemas/validation';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Mock cache
+const mockCache = {
+  get: () => undefined,
+  set: () => {},
+  has: () => false,
+  clear: () => {}
+};
+
+// Reverse geocoder without stored boundaries
+const mockGeocoder = {
+  complete: (places: unknown[]) => Promise.resolve(places)
+};
+
+describe('Category Taxonomy', () => {
+  it('should load the shipped taxonomy', async () => {
+    const { CategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+    const taxonomy = CategoryTaxonomy.load();
+
+    expect(taxonomy.has('restaurant')).toBe(true);
+    expect(taxonomy.pathOf('italian')).toEqual(['food', 'restaurant', 'italian']);
+    expect(taxonomy.pathOf('unknown')).toBeUndefined();
+  });
+
+  it('should pick the most specific matching category', async () => {
+    const { getCategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+    const taxonomy = getCategoryTaxonomy();
+
+    expect(taxonomy.categorize({ amenity: 'restaurant', cuisine: 'italian' }).categoryPath).toEqual(['food', 'restaurant', 'italian']);
+    expect(taxonomy.categorize({ amenity: 'restaurant', cuisine: 'burger;pizza' }).category).toBe('italian');
+    expect(taxonomy.categorize({ amenity: 'restaurant', cuisine: 'burger' }).category).toBe('restaurant');
+    expect(taxonomy.categorize({ tourism: 'museum', building: 'yes' }).category).toBe('museum');
+    expect(taxonomy.categorize({ historic: 'yes' }).category).toBe('heritage');
+    expect(taxonomy.categorize({ building: 'apartments' }).categoryPath).toEqual(['other', 'building']);
+    expect(taxonomy.categorize({ historic: 'no' }).category).toBe('other');
+    expect(taxonomy.categorize({}).category).toBe('other');
+  });
+
+  it('should map legacy categories to the taxonomy', async () => {
+    const { getCategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+    const taxonomy = getCategoryTaxonomy();
+
+    expect(taxonomy.resolve('museum').category).toBe('museum');
+    expect(taxonomy.resolve('pub').category).toBe('bar');
+    expect(taxonomy.resolve('archaeological_site').category).toBe('ruins');
+    // From historic=yes
+    expect(taxonomy.resolve('historic').category).toBe('heritage');
+    expect(taxonomy.resolve('apartments').category).toBe('other');
+  });
+
+  it('should list subcategories', async () => {
+    const { getCategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+
+    expect(getCategoryTaxonomy().descendantsOf('restaurant')).toEqual(['restaurant', 'italian', 'japanese', 'brazilian', 'french']);
+  });
+
+  it('should label categories in the requested locale', async () => {
+    const { getCategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+    const taxonomy = getCategoryTaxonomy();
+
+    const food = taxonomy.localized('pt-BR').find(category => category.id === 'food');
+    expect(food?.label).toBe('Comida e Bebida');
+    expect(food?.children[0]).toMatchObject({ id: 'restaurant', label: 'Restaurante', path: ['food', 'restaurant'] });
+    expect(taxonomy.localized('de').find(category => category.id === 'food')?.label).toBe('Food & Drink');
+  });
+
+  it('should reject invalid taxonomies', () => {
+    const other = { id: 'other', labels: { en: 'Other' } };
+
+    expect(CategoryTaxonomySchema.safeParse([other, { id: 'cafe', labels: { en: 'Café' }, children: [{ id: 'cafe', labels: { en: 'Café' } }] }]).success).toBe(false);
+    expect(CategoryTaxonomySchema.safeParse([{ id: 'cafe', labels: { en: 'Café' } }]).success).toBe(false);
+    expect(CategoryTaxonomySchema.safeParse([other, { id: 'cafe', labels: { pt: 'Café' } }]).success).toBe(false);
+    expect(CategoryTaxonomySchema.safeParse([other, { id: 'cafe', labels: { en: 'Café' }, match: [{}] }]).success).toBe(false);
+  });
+});
+
+describe('Category usage', () => {
+  it('should count subcategories towards badge categories', async () => {
+    const { BadgeService } = await import('../server/Service/BadgeService');
+    const { getCategoryTaxonomy } = await import('../server/Service/CategoryTaxonomy');
+    const rule = {
+      id: 'history-buff',
+      name: 'History Buff',
+      description: 'Check in at historic places',
+      criteria: { metric: 'distinct_places' as const, categories: ['heritage'], threshold: 10 }
+    };
+
+    const [expanded] = BadgeService.expandCategories([rule], getCategoryTaxonomy());
+    expect(expanded.criteria.categories).toEqual(['heritage', 'monument', 'memorial', 'castle', 'ruins']);
+
+    const unknown = { ...rule, criteria: { ...rule.criteria, categories: ['historic'] } };
+    expect(() => BadgeService.expandCategories([unknown], getCategoryTaxonomy())).toThrow('unknown categories: historic');
+  });
+
+  it('should reject places in unknown categories', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    const placeModel = { create: () => { throw new Error('should not create'); } };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const context = {
+      query: {},
+      params: {},
+      body: { name: 'Corner Spot', category: 'apartments', coordinates: { type: 'Point', coordinates: [2.35, 48.85] } },
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+    const response = await controller.createPlace(context);
+
+    expect(context.set.status).toBe(400);
+    expect(response.message).toContain('Unknown category "apartments"');
+  });
+
+  it('should store the category path of new places', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    let created: Record<string, unknown> = {};
+    const placeModel = {
+      create: (place: Record<string, unknown>) => {
+        created = place;
+        return Promise.resolve({ toJSON: () => place });
+      }
+    };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any, [], undefined, mockGeocoder as any);
+
+    const context = {
+      query: {},
+      params: {},
+      body: { name: 'Cantina', category: 'italian', coordinates: { type: 'Point', coordinates: [2.35, 48.85] } },
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+    await controller.createPlace(context);
+
+    expect(context.set.status).toBe(201);
+    expect(created.categoryPath).toEqual(['food', 'restaurant', 'italian']);
+  });
+
+  it('should filter places on categories with their descendants and on sources', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const { Types } = await import('mongoose');
+
+    const place = (name: string, category: string, source: string) => ({
+      _id: new Types.ObjectId(),
+      name,
+      category,
+      source,
+      coordinates: { type: 'Point', coordinates: [2.2945, 48.8584] }
+    });
+
+    let pipeline: any[] = [];
+    const placeModel = {
+      aggregate: (stages: any[]) => {
+        pipeline = stages;
+        return Promise.resolve([]);
+      },
+      countDocuments: () => Promise.resolve(0)
+    };
+    let nominatimQueried = false;
+    const providers = [
+      {
+        name: 'overpass' as const,
+        queryPlaces: () => Promise.resolve([
+          place('Cantina', 'italian', 'overpass'),
+          place('Le Café', 'cafe', 'overpass'),
+          place('Le Bar', 'bar', 'overpass')
+        ] as any[])
+      },
+      { name: 'nominatim' as const, queryPlaces: () => { nominatimQueried = true; return Promise.resolve([]); } }
+    ];
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any, providers);
+
+    const response = await controller.getPlaces({
+      query: { lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false, categories: ['food'], excludeCategories: ['restaurant'], source: ['overpass', 'mongodb'] },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    }) as any;
+
+    const { category, source } = pipeline[0].$geoNear.query;
+    expect(category.$in).toContain('cafe');
+    expect(category.$in).toContain('italian');
+    expect(category.$nin).toEqual(['restaurant', 'italian', 'japanese', 'brazilian', 'french']);
+    expect(source).toEqual({ $in: ['overpass', 'mongodb'] });
+
+    // Provider results get the same filters, and providers of other sources are not queried
+    expect(response.results.map((result: any) => result.name)).toEqual(['Le Café']);
+    expect(nominatimQueried).toBe(false);
+  });
+
+  it('should reject filters on unknown categories', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const controller = new GeoPlaceController({} as any, mockCache as any, mockLogger as any);
+
+    const context = {
+      query: { lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false, excludeCategories: ['coffee'] },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+    const response = await controller.getPlaces(context) as any;
+
+    expect(context.set.status).toBe(400);
+    expect(response.message).toContain('Unknown category "coffee"');
+  });
+});
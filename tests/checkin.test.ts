@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Eiffel Tower
+const place = {
+  _id: new Types.ObjectId(),
+  name: 'Eiffel Tower',
+  category: 'attraction',
+  coordinates: { type: 'Point', coordinates: [2.2945, 48.8584] }
+};
+
+// Updates of places, e.g. check-in counts
+const placeUpdates: any[] = [];
+
+// Mock place model returning the place above for its own ID only
+const mockPlaceModel = {
+  findById: (id: string) => ({
+    lean: () => Promise.resolve(String(id) === String(place._id) ? place : null)
+  }),
+  updateOne: (filter: any, update: any) => {
+    placeUpdates.push({ filter, update });
+    return Promise.resolve({ modifiedCount: 1 });
+  }
+};
+
+// Previous check-in returned by the mock check-in model
+let previousCheckin: any = null;
+
+// Mock check-in model echoing the created document
+const mockCheckinModel = {
+  findOne: () => ({
+    sort: () => ({
+      lean: () => Promise.resolve(previousCheckin)
+    })
+  }),
+  find: () => ({
+    lean: () => Promise.resolve(previousCheckin ? [previousCheckin] : [])
+  }),
+  create: (doc: any) => Promise.resolve({
+    _id: new Types.ObjectId(),
+    ...doc,
+    toJSON() { return { ...doc, id: this._id }; }
+  })
+};
+
+const createContext = (body: Record<string, unknown>) => ({
+  query: {},
+  params: {},
+  body,
+  headers: {},
+  set: { status: 200, headers: {} },
+  currentUser: { id: String(new Types.ObjectId()), username: 'traveller', role: 'user' as const }
+});
+
+describe('Checkin Controller', () => {
+  it('should accept a check-in made next to the place', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, mockPlaceModel as any, mockLogger as any, 200);
+
+    const context = createContext({ placeId: String(place._id), lat: 48.8585, lon: 2.2946 });
+    const response = await controller.createCheckin(context);
+
+    expect(context.set.status).toBe(201);
+    expect(response.data).toBeDefined();
+    expect((response.data as any).user).toBe(context.currentUser.id);
+    expect((response.data as any).distance).toBeLessThan(200);
+    expect(placeUpdates).toContainEqual({ filter: { _id: place._id }, update: { $inc: { checkinCount: 1 } } });
+  });
+
+  it('should return the badges awarded by a check-in', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const badgeService = {
+      evaluate: () => Promise.resolve([
+        { id: 'first-checkin', name: 'Newcomer', description: 'Check in for the first time', criteria: { metric: 'checkins', threshold: 1 } }
+      ])
+    };
+    const controller = new CheckinController(mockCheckinModel as any, mockPlaceModel as any, mockLogger as any, 200, badgeService as any);
+
+    const context = createContext({ placeId: String(place._id), lat: 48.8585, lon: 2.2946 });
+    const response = await controller.createCheckin(context);
+
+    expect(response.badges).toEqual([
+      { id: 'first-checkin', name: 'Newcomer', description: 'Check in for the first time', icon: undefined }
+    ]);
+  });
+
+  it('should reject a check-in made too far from the place', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, mockPlaceModel as any, mockLogger as any, 200);
+
+    // Arc de Triomphe, ~2km away
+    const context = createContext({ placeId: String(place._id), lat: 48.8738, lon: 2.2950 });
+    const response = await controller.createCheckin(context);
+
+    expect(context.set.status).toBe(422);
+    expect(response.data).toBeUndefined();
+    expect(response.error).toBe('Check-in Rejected');
+  });
+
+  it('should refuse a maximum check-in distance that is not a positive number', async () => {
+    const { parseMaxCheckinDistance } = await import('../server/Controller/Checkin');
+
+    expect(parseMaxCheckinDistance('200')).toBe(200);
+    expect(parseMaxCheckinDistance('75.5')).toBe(75.5);
+    for (const value of ['', 'far', '200m', '0', '-50', 'Infinity']) {
+      expect(() => parseMaxCheckinDistance(value)).toThrow('Invalid check-in distance');
+    }
+  });
+
+  it('should reject a check-in implying impossible travel', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, mockPlaceModel as any, mockLogger as any, 200);
+
+    // Checked in at Christ the Redeemer five minutes ago
+    previousCheckin = {
+      place: new Types.ObjectId(),
+      coordinates: { type: 'Point', coordinates: [-43.2105, -22.9519] },
+      createdAt: new Date(Date.now() - 5 * 60 * 1000)
+    };
+
+    const context = createContext({ placeId: String(place._id), lat: 48.8584, lon: 2.2945 });
+    const response = await controller.createCheckin(context);
+    previousCheckin = null;
+
+    expect(context.set.status).toBe(422);
+    expect(response.error).toBe('Check-in Rejected');
+  });
+
+  it('should return 404 for an unknown place', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, mockPlaceModel as any, mockLogger as any, 200);
+
+    const context = createContext({ placeId: String(new Types.ObjectId()), lat: 48.8584, lon: 2.2945 });
+    await controller.createCheckin(context);
+
+    expect(context.set.status).toBe(404);
+  });
+
+  it('should only show check-in coordinates to the user and the anti-spoofing assessment to administrators', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const owner = { _id: new Types.ObjectId(), username: 'traveller' };
+    const checkin = {
+      _id: new Types.ObjectId(),
+      user: owner,
+      place,
+      coordinates: { type: 'Point', coordinates: [2.2946, 48.8585] },
+      fraudScore: 0.8,
+      flags: ['impossible_travel']
+    };
+
+    // Check-in model honouring the projection of the query
+    const checkinModel = {
+      findById: () => {
+        let fields = '';
+        const chain: any = {
+          populate: () => chain,
+          select: (selected: string) => { fields = selected; return chain; },
+          lean: () => Promise.resolve(Object.fromEntries(Object.entries(checkin)
+            .filter(([field]) => !fields.split(' ').includes(`-${field}`))))
+        };
+        return chain;
+      }
+    };
+    const controller = new CheckinController(checkinModel as any, mockPlaceModel as any, mockLogger as any, 200);
+    const fetchAs = async (currentUser?: { id: string; username: string; role: 'user' | 'admin' }) => {
+      const response = await controller.getCheckinById({ ...createContext({}), params: { id: String(checkin._id) }, currentUser });
+      return response.data as any;
+    };
+
+    for (const data of [await fetchAs(), await fetchAs(createContext({}).currentUser)]) {
+      expect(data.user.username).toBe('traveller');
+      expect(data.coordinates).toBeUndefined();
+      expect(data.fraudScore).toBeUndefined();
+      expect(data.flags).toBeUndefined();
+    }
+
+    const own = await fetchAs({ id: String(owner._id), username: 'traveller', role: 'user' });
+    expect(own.coordinates).toEqual(checkin.coordinates);
+    expect(own.fraudScore).toBeUndefined();
+
+    const reviewed = await fetchAs({ id: String(new Types.ObjectId()), username: 'moderator', role: 'admin' });
+    expect(reviewed.coordinates).toEqual(checkin.coordinates);
+    expect(reviewed.flags).toEqual(['impossible_travel']);
+  });
+});
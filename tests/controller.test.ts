@@ -57,4 +57,66 @@ describe('GeoPlace Controller', () => {
     expect(controller.cache).toBe(mockCache);
     expect(controller.logger).toBe(mockLogger);
   });
-});
\ No newline at end of file
+});
+
+describe('GeoPlace Controller writes', () => {
+  const createContext = (params: Record<string, string>, body: unknown = {}) => ({
+    query: {},
+    params,
+    body,
+    headers: {},
+    set: { status: 200, headers: {} },
+    currentUser: { id: '64b7f0c2a1b2c3d4e5f60718', username: 'traveller', role: 'user' as const }
+  });
+
+  it('should respond 409 when a new place collides with an existing one', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    const duplicateError = Object.assign(new Error('E11000 duplicate key error index: unique_place_name_coords'), { code: 11000 });
+    const placeModel = { create: () => Promise.reject(duplicateError) };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const context = createContext({}, { name: 'Eiffel Tower', category: 'attraction' });
+    const response = await controller.createPlace(context);
+
+    expect(context.set.status).toBe(409);
+    expect(response.error).toBe('Conflict');
+  });
+
+  it('should refuse to modify places imported from Overpass', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    const placeModel = {
+      findById: () => ({
+        select: () => ({
+          lean: () => Promise.resolve({ source: 'overpass' })
+        })
+      })
+    };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const context = createContext({ id: '64b7f0c2a1b2c3d4e5f60719' }, { name: 'Renamed' });
+    await controller.updatePlace(context);
+
+    expect(context.set.status).toBe(403);
+  });
+
+  it("should refuse to delete another user's place", async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    const placeModel = {
+      findById: () => ({
+        select: () => ({
+          lean: () => Promise.resolve({ source: 'mongodb', createdBy: '64b7f0c2a1b2c3d4e5f60720' })
+        })
+      }),
+      deleteOne: () => { throw new Error('should not delete'); }
+    };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const context = createContext({ id: '64b7f0c2a1b2c3d4e5f60719' });
+    await controller.deletePlace(context);
+
+    expect(context.set.status).toBe(403);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test';
+import { FraudDetectionService } from '../server/Service/FraudDetectionService';
+
+const minutesAgo = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 12, 0) - minutes * 60 * 1000);
+
+const checkinAt = (place: string, lon: number, lat: number, createdAt: Date) => ({
+  place,
+  coordinates: { coordinates: [lon, lat] },
+  createdAt
+});
+
+describe('Fraud Detection', () => {
+  it('should not flag a plausible trip', () => {
+    // Statue of Liberty to Empire State Building (~8km) in an hour
+    const previous = checkinAt('liberty', -74.0445, 40.6892, minutesAgo(60));
+    const candidate = checkinAt('empire', -73.9857, 40.7484, minutesAgo(0));
+
+    const assessment = FraudDetectionService.assess(candidate, previous, [previous]);
+
+    expect(assessment).toEqual({ fraudScore: 0, flags: [] });
+  });
+
+  it('should flag and reject impossible travel', () => {
+    // Rio de Janeiro to Paris (~9000km) in ten minutes
+    const previous = checkinAt('redeemer', -43.2105, -22.9519, minutesAgo(10));
+    const candidate = checkinAt('eiffel', 2.2945, 48.8584, minutesAgo(0));
+
+    const assessment = FraudDetectionService.assess(candidate, previous, [previous]);
+
+    expect(assessment.flags).toContain('impossible_travel');
+    expect(FraudDetectionService.shouldReject(assessment)).toBe(true);
+  });
+
+  it('should flag suspiciously fast travel without rejecting it', () => {
+    // ~8km in one minute is 480 km/h
+    const previous = checkinAt('liberty', -74.0445, 40.6892, minutesAgo(1));
+    const candidate = checkinAt('empire', -73.9857, 40.7484, minutesAgo(0));
+
+    const assessment = FraudDetectionService.assess(candidate, previous, [previous]);
+
+    expect(assessment.flags).toEqual(['high_velocity']);
+    expect(FraudDetectionService.shouldReject(assessment)).toBe(false);
+  });
+
+  it('should ignore GPS jitter between nearby check-ins', () => {
+    const previous = checkinAt('cafe', 2.2945, 48.8584, minutesAgo(0));
+    const candidate = checkinAt('bakery', 2.2950, 48.8586, minutesAgo(0));
+
+    expect(FraudDetectionService.impliedSpeed(previous, candidate)).toBe(0);
+  });
+
+  it('should flag rapid-fire check-ins at many places in a small radius', () => {
+    const recent = [1, 2, 3, 4].map(i => checkinAt(`place-${i}`, 2.2945 + i * 0.0005, 48.8584, minutesAgo(i)));
+    const candidate = checkinAt('place-5', 2.2945, 48.8584, minutesAgo(0));
+
+    const assessment = FraudDetectionService.assess(candidate, recent[0], recent);
+
+    expect(assessment.flags).toEqual(['rapid_fire']);
+    expect(assessment.fraudScore).toBeGreaterThan(0);
+  });
+
+  it('should not count repeated check-ins at the same place as rapid fire', () => {
+    const recent = [1, 2, 3, 4].map(i => checkinAt('same-place', 2.2945, 48.8584, minutesAgo(i)));
+    const candidate = checkinAt('same-place', 2.2945, 48.8584, minutesAgo(0));
+
+    expect(FraudDetectionService.assess(candidate, recent[0], recent).flags).toEqual([]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'bun:test';
-import { calculateDistance } from '../server/utils';
+import { calculateDistance, encodeGeohash, geohashBounds, geohashesInRadius } from '../server/utils';
 
 describe('Geo Functions', () => {
   it('should calculate distance correctly using Haversine formula', () => {
@@ -36,4 +36,53 @@ describe('Geo Functions', () => {
     expect(distance).toBeGreaterThan(20000000); // 20,000 km in meters
     expect(distance).toBeLessThan(21000000);   // 21,000 km in meters
   });
-});
\ No newline at end of file
+});
+
+describe('Geohash Functions', () => {
+  it('should encode positions as geohashes', () => {
+    // Reference values from the original geohash.org implementation
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash(48.8584, 2.2945, 6)).toBe('u09tun');
+  });
+
+  it('should decode the tile containing the encoded position', () => {
+    const bounds = geohashBounds(encodeGeohash(48.8584, 2.2945, 6));
+
+    expect(bounds.minLat).toBeLessThanOrEqual(48.8584);
+    expect(bounds.maxLat).toBeGreaterThan(48.8584);
+    expect(bounds.minLon).toBeLessThanOrEqual(2.2945);
+    expect(bounds.maxLon).toBeGreaterThan(2.2945);
+    expect(() => geohashBounds('u09a')).toThrow('Invalid geohash');
+  });
+
+  it('should list every tile intersecting a circle', () => {
+    const geohashes = geohashesInRadius(48.8584, 2.2945, 1000, 6);
+
+    expect(geohashes).toContain('u09tun');
+    expect(new Set(geohashes).size).toBe(geohashes.length);
+
+    // Points on the circle fall in listed tiles
+    for (const [lat, lon] of [[48.8674, 2.2945], [48.8494, 2.2945], [48.8584, 2.3081], [48.8584, 2.2809]]) {
+      expect(geohashes).toContain(encodeGeohash(lat, lon, 6));
+    }
+
+    // Tiles far from the center are not listed
+    expect(geohashes).not.toContain(encodeGeohash(48.8584, 2.35, 6));
+  });
+
+  it('should wrap around the antimeridian', () => {
+    const geohashes = geohashesInRadius(0, 179.999, 1000, 6);
+
+    expect(geohashes).toContain(encodeGeohash(0, 179.999, 6));
+    expect(geohashes).toContain(encodeGeohash(0, -179.999, 6));
+  });
+});
+
+describe('Accept-Language', () => {
+  it('should order languages by preference', async () => {
+    const { parseAcceptLanguage } = await import('../server/utils');
+
+    expect(parseAcceptLanguage('en;q=0.5, pt-BR, ja;q=0.8, *;q=0.1, fr;q=0')).toEqual(['pt-BR', 'ja', 'en']);
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+});
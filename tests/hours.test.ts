@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { openingStateAt, parseOpeningHours, timezoneOf } from '../server/Service/OpeningHours';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Mock cache
+const mockCache = {
+  get: () => undefined,
+  set: () => {},
+  has: () => false,
+  clear: () => {}
+};
+
+const ALL_DAY: [number, number] = [0, 1440];
+
+describe('Opening Hours', () => {
+  it('should parse day ranges and several intervals', () => {
+    const hours = parseOpeningHours('Mo-Fr 08:00-12:00,13:00-17:30; Sa 10:00-14:00');
+
+    expect(hours!.week[0]).toEqual([[480, 720], [780, 1050]]);
+    expect(hours!.week[4]).toEqual([[480, 720], [780, 1050]]);
+    expect(hours!.week[5]).toEqual([[600, 840]]);
+    expect(hours!.week[6]).toEqual([]);
+  });
+
+  it('should parse 24/7, off, public holidays and additional rules', () => {
+    expect(parseOpeningHours('24/7')!.week).toEqual(Array(7).fill([ALL_DAY]));
+
+    const hours = parseOpeningHours('Mo-Su 09:00-18:00; We off; PH closed');
+    expect(hours!.week[2]).toEqual([]);
+    expect(hours!.week[6]).toEqual([[540, 1080]]);
+    expect(hours!.publicHolidays).toEqual([]);
+
+    // Additional rules add to the days of the rule
+    expect(parseOpeningHours('Mo 09:00-12:00, Mo 14:00-18:00')!.week[0]).toEqual([[540, 720], [840, 1080]]);
+    // Wrapping day ranges and intervals past midnight
+    const bar = parseOpeningHours('Fr-Mo 18:00-02:00');
+    expect(bar!.week[6]).toEqual([[1080, 1560]]);
+    expect(bar!.week[2]).toEqual([]);
+  });
+
+  it('should reject unsupported syntax', () => {
+    expect(parseOpeningHours('Jan-Mar 10:00-16:00')).toBeNull();
+    expect(parseOpeningHours('sunrise-sunset')).toBeNull();
+    expect(parseOpeningHours('Mo-Fr 25:00-26:00')).toBeNull();
+    expect(parseOpeningHours('')).toBeNull();
+  });
+
+  it('should tell whether a place is open in its time zone and when that changes', () => {
+    const hours = parseOpeningHours('Mo-Fr 09:00-17:00')!;
+
+    // Monday 2 June 2025, 11:00 in Lisbon (UTC+1)
+    expect(openingStateAt(hours, new Date('2025-06-02T10:00:00Z'), 'Europe/Lisbon'))
+      .toEqual({ open: true, nextChange: new Date('2025-06-02T16:00:00Z') });
+    // Friday evening, opening again on Monday
+    expect(openingStateAt(hours, new Date('2025-06-06T17:00:00Z'), 'Europe/Lisbon'))
+      .toEqual({ open: false, nextChange: new Date('2025-06-09T08:00:00Z') });
+
+    // Saturday 1:00, still open from Friday evening
+    const bar = parseOpeningHours('Fr 18:00-02:00')!;
+    expect(openingStateAt(bar, new Date('2025-06-07T00:00:00Z'), 'Europe/Lisbon'))
+      .toEqual({ open: true, nextChange: new Date('2025-06-07T01:00:00Z') });
+
+    expect(openingStateAt(parseOpeningHours('24/7')!, new Date(), 'UTC')).toEqual({ open: true, nextChange: null });
+    expect(openingStateAt(parseOpeningHours('off')!, new Date(), 'UTC')).toEqual({ open: false, nextChange: null });
+  });
+
+  it('should fall back to the time zone of the longitude', () => {
+    expect(timezoneOf({ timezone: 'Asia/Tokyo', coordinates: { coordinates: [139.7, 35.7] } })).toBe('Asia/Tokyo');
+    expect(timezoneOf({ coordinates: { coordinates: [139.7, 35.7] } })).toBe('Etc/GMT-9');
+    expect(timezoneOf({ coordinates: { coordinates: [-74, 40.7] } })).toBe('Etc/GMT+5');
+    expect(timezoneOf({ coordinates: { coordinates: [2.29, 48.85] } })).toBe('Etc/GMT');
+  });
+
+  it('should read opening hours and time zones from OSM tags', async () => {
+    const { placeFromOsmElement } = await import('../server/Service/PlaceParsers');
+
+    const { place } = placeFromOsmElement({
+      lat: '48.8606',
+      lon: '2.3376',
+      tags: { name: 'Louvre', tourism: 'museum', opening_hours: 'Mo,We-Su 09:00-18:00; Tu off', timezone: 'Europe/Paris' }
+    }, 'overpass');
+    expect(place!.openingHours!.week[1]).toEqual([]);
+    expect(place!.timezone).toBe('Europe/Paris');
+
+    const { place: unparsed } = placeFromOsmElement({
+      lat: '48.8606',
+      lon: '2.3376',
+      tags: { name: 'Louvre', tourism: 'museum', opening_hours: 'Apr-Sep 09:00-18:00', timezone: 'Paris' }
+    }, 'overpass');
+    expect(unparsed!.openingHours).toBeUndefined();
+    expect(unparsed!.timezone).toBeUndefined();
+  });
+
+  it('should only return open places with their opening state', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+
+    const place = (name: string, openingHours?: string) => ({
+      _id: new Types.ObjectId(),
+      name,
+      coordinates: { type: 'Point', coordinates: [2.2945, 48.8584] },
+      timezone: 'Europe/Paris',
+      ...(openingHours && { openingHours: parseOpeningHours(openingHours) })
+    });
+
+    let pipeline: any[] = [];
+    const placeModel = {
+      aggregate: (stages: any[]) => {
+        pipeline = stages;
+        return Promise.resolve([place('Night Bar', 'Mo-Su 20:00-02:00'), place('Bakery', 'Mo-Su 07:00-13:00')]);
+      },
+      countDocuments: () => Promise.resolve(2)
+    };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const response = await controller.getPlaces({
+      // 23:00 in Paris
+      query: { lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false, openAt: new Date('2025-06-02T21:00:00Z') },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    }) as any;
+
+    expect(pipeline[0].$geoNear.query).toEqual({ openingHours: { $exists: true } });
+    expect(response.results.map((result: any) => result.name)).toEqual(['Night Bar']);
+    expect(typeof response.results[0].openNow).toBe('boolean');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'bun:test';
+import type { PlaceData } from '../types';
+
+// In-memory store recording every batch
+const createStore = () => {
+  const batches: PlaceData[][] = [];
+  return {
+    batches,
+    store: (places: PlaceData[]) => {
+      batches.push(places);
+      return Promise.resolve({ inserted: places.length, updated: 0, skipped: 0, failed: 0 });
+    }
+  };
+};
+
+// Split input into small chunks to exercise streaming across chunk boundaries
+const chunked = async function* (text: string, size = 16) {
+  for (let i = 0; i < text.length; i += size) {
+    yield Buffer.from(text.slice(i, i + size));
+  }
+};
+
+const featureCollection = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', id: 'way/5013364', geometry: { type: 'Point', coordinates: [2.2945, 48.8584] }, properties: { name: 'Eiffel Tower', tourism: 'attraction' } },
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [2.3376, 48.8606] }, properties: { name: 'Louvre Museum', tourism: 'museum' } },
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [2.3266, 48.8600] }, properties: { name: 'Café de Flore', category: 'cafe' } },
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [2.35, 48.85] }, properties: { name: 'Bench', amenity: 'bench' } },
+    { type: 'Feature', id: 'seine', geometry: { type: 'LineString', coordinates: [[2.3, 48.8], [2.4, 48.9]] }, properties: { name: 'Seine' } },
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [200, 48.85] }, properties: { name: 'Nowhere', tourism: 'attraction' } }
+  ]
+});
+
+const osmExtract = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6">
+  <node id="1" version="7" lat="48.8584" lon="2.2945">
+    <tag k="name" v="Tour Eiffel"/>
+    <tag k="name:en" v="Eiffel Tower"/>
+    <tag k="tourism" v="attraction"/>
+  </node>
+  <node id="2" lat="48.8600" lon="2.3300"/>
+  <node id="3" lat="48.8620" lon="2.3400"/>
+  <node id="4" lat="48.8500" lon="2.3500">
+    <tag k="amenity" v="bench"/>
+  </node>
+  <way id="10">
+    <nd ref="2"/>
+    <nd ref="3"/>
+    <tag k="name" v="Musée du Louvre"/>
+    <tag k="tourism" v="museum"/>
+  </way>
+  <relation id="20">
+    <member type="way" ref="10" role="outer"/>
+    <member type="node" ref="1" role=""/>
+    <tag k="name" v="Paris Landmarks"/>
+    <tag k="historic" v="yes"/>
+  </relation>
+</osm>`;
+
+describe('Place Importer', () => {
+  it('should import GeoJSON features in batches and report rejections', async () => {
+    const { PlaceImporter } = await import('../server/Service/PlaceImporter');
+    const { batches, store } = createStore();
+    const progress: number[] = [];
+
+    const report = await PlaceImporter.importStream(chunked(featureCollection), {
+      format: 'geojson',
+      batchSize: 2,
+      store,
+      onProgress: ({ inserted }) => progress.push(inserted)
+    });
+
+    expect(batches.map(batch => batch.map(place => place.name))).toEqual([
+      ['Eiffel Tower', 'Louvre Museum'],
+      ['Café de Flore']
+    ]);
+    expect(batches[1][0].category).toBe('cafe');
+    expect(batches[0][0].source).toBe('geojson');
+    expect(batches[0][0]).toMatchObject({ osmType: 'way', osmId: 5013364 });
+    expect(progress).toEqual([2, 3]);
+    expect(report.processed).toBe(6);
+    expect(report.inserted).toBe(3);
+    expect(report.rejected).toBe(3);
+    expect(report.rejections).toEqual({ not_relevant: 1, unsupported_geometry: 1, invalid_coordinates: 1 });
+    expect(report.samples).toContainEqual({ id: 'seine', reason: 'unsupported_geometry' });
+  });
+
+  it('should import OSM XML nodes, ways and relations at their centers', async () => {
+    const { PlaceImporter } = await import('../server/Service/PlaceImporter');
+    const { batches, store } = createStore();
+
+    const report = await PlaceImporter.importStream(chunked(osmExtract), { format: 'osm', store });
+    const places = batches.flat();
+
+    expect(places.map(({ name, category }) => ({ name, category }))).toEqual([
+      { name: 'Tour Eiffel', category: 'attraction' },
+      { name: 'Musée du Louvre', category: 'museum' },
+      { name: 'Paris Landmarks', category: 'heritage' }
+    ]);
+    const [lon, lat] = places[1].coordinates.coordinates;
+    expect(lon).toBeCloseTo(2.335);
+    expect(lat).toBeCloseTo(48.861);
+    expect(places[0].source).toBe('overpass');
+    expect(places[0].names).toEqual({ en: 'Eiffel Tower' });
+    expect(places.map(({ osmType, osmId, osmVersion }) => ({ osmType, osmId, osmVersion }))).toEqual([
+      { osmType: 'node', osmId: 1, osmVersion: 7 },
+      { osmType: 'way', osmId: 10, osmVersion: undefined },
+      { osmType: 'relation', osmId: 20, osmVersion: undefined }
+    ]);
+    expect(report.rejections).toEqual({ missing_name: 1 });
+  });
+
+  it('should fail on malformed GeoJSON', async () => {
+    const { PlaceImporter } = await import('../server/Service/PlaceImporter');
+
+    await expect(PlaceImporter.importStream(chunked('{"type":"FeatureCollection","features":[{"type":'), {
+      format: 'geojson',
+      store: createStore().store
+    })).rejects.toThrow();
+  });
+
+  it('should detect the format from the file extension', async () => {
+    const { PlaceImporter } = await import('../server/Service/PlaceImporter');
+
+    expect(PlaceImporter.detectFormat('paris.geojson')).toBe('geojson');
+    expect(PlaceImporter.detectFormat('paris.osm')).toBe('osm');
+    expect(() => PlaceImporter.detectFormat('paris.pbf')).toThrow();
+  });
+});
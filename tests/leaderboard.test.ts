@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { LRUCache } from 'lru-cache';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const placeId = String(new Types.ObjectId());
+const alice = { _id: new Types.ObjectId(), username: 'alice' };
+const bob = { _id: new Types.ObjectId(), username: 'bob' };
+
+// Mock check-in model recording the aggregation pipelines it runs
+const createCheckinModel = () => {
+  const pipelines: any[][] = [];
+  return {
+    pipelines,
+    aggregate: (pipeline: any[]) => {
+      pipelines.push(pipeline);
+      return Promise.resolve([
+        { user: alice, checkinCount: 5, lastCheckinAt: new Date() },
+        { user: bob, checkinCount: 2, lastCheckinAt: new Date() }
+      ]);
+    }
+  };
+};
+
+const mockPlaceModel = {
+  exists: ({ _id }: { _id: string }) => Promise.resolve(_id === placeId ? { _id } : null)
+};
+
+const mockUserModel = {
+  collection: { name: 'users' }
+};
+
+const createCache = () => new LRUCache<string, any>({ max: 10 });
+
+const createContext = (params: Record<string, string>, query: Record<string, unknown>) => ({
+  query,
+  params,
+  body: {},
+  headers: {},
+  set: { status: 200, headers: {} }
+});
+
+describe('Leaderboard Controller', () => {
+  it('should crown the top user of a place as mayor', async () => {
+    const { LeaderboardController } = await import('../server/Controller/Leaderboard');
+    const controller = new LeaderboardController(createCheckinModel() as any, mockPlaceModel as any, mockUserModel as any, createCache(), mockLogger as any);
+
+    const response = await controller.getPlaceLeaderboard(createContext({ id: placeId }, { limit: 10 }));
+
+    expect(response.data?.mayor?.user.username).toBe('alice');
+    expect(response.data?.leaderboard.map(entry => entry.rank)).toEqual([1, 2]);
+  });
+
+  it('should return 404 for an unknown place', async () => {
+    const { LeaderboardController } = await import('../server/Controller/Leaderboard');
+    const controller = new LeaderboardController(createCheckinModel() as any, mockPlaceModel as any, mockUserModel as any, createCache(), mockLogger as any);
+
+    const context = createContext({ id: String(new Types.ObjectId()) }, { limit: 10 });
+    await controller.getPlaceLeaderboard(context);
+
+    expect(context.set.status).toBe(404);
+  });
+
+  it('should filter by category and period and ignore flagged check-ins', async () => {
+    const { LeaderboardController } = await import('../server/Controller/Leaderboard');
+    const checkinModel = createCheckinModel();
+    const controller = new LeaderboardController(checkinModel as any, mockPlaceModel as any, mockUserModel as any, createCache(), mockLogger as any);
+
+    await controller.getLeaderboard(createContext({}, { category: 'cafe', period: 'week', limit: 10 }));
+
+    const { $match } = checkinModel.pipelines[0][0];
+    expect($match.category).toBe('cafe');
+    expect($match.createdAt.$gte.getTime()).toBeGreaterThan(Date.now() - 8 * 24 * 60 * 60 * 1000);
+    expect($match['flags.0']).toEqual({ $exists: false });
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const { LeaderboardController } = await import('../server/Controller/Leaderboard');
+    const checkinModel = createCheckinModel();
+    const controller = new LeaderboardController(checkinModel as any, mockPlaceModel as any, mockUserModel as any, createCache(), mockLogger as any);
+
+    await controller.getLeaderboard(createContext({}, { period: 'all', limit: 10 }));
+    await controller.getLeaderboard(createContext({}, { period: 'all', limit: 10 }));
+
+    expect(checkinModel.pipelines).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { CircuitBreaker } from '../server/Service/CircuitBreaker';
+import { OverpassClient, OverpassUnavailableError } from '../server/Service/OverpassClient';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const MIRRORS = ['http://one.invalid', 'http://two.invalid'];
+
+// Axios error of an HTTP response
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers: new AxiosHeaders(headers),
+    config: { headers: new AxiosHeaders() },
+    data: ''
+  });
+
+// Client that records its waits instead of sleeping
+const createClient = (options: Record<string, number> = {}) => {
+  const waits: number[] = [];
+  const client = new OverpassClient(MIRRORS, {
+    maxRetries: 3,
+    failureThreshold: 2,
+    cooldownMs: 60000,
+    ...options,
+    sleep: async ms => { waits.push(ms); }
+  });
+  return { client, waits };
+};
+
+describe('Circuit Breaker', () => {
+  it('should open after consecutive failures and half-open after the cool-down', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure('timeout', 0);
+    expect(breaker.canRequest(0)).toBe(true);
+    breaker.recordFailure('timeout', 10);
+    expect(breaker.canRequest(10)).toBe(false);
+    expect(breaker.status(10)).toMatchObject({ state: 'open', failures: 2, errorRate: 1, lastError: 'timeout' });
+
+    // One trial request after the cool-down, failing reopens straight away
+    expect(breaker.canRequest(1010)).toBe(true);
+    breaker.recordFailure('timeout', 1010);
+    expect(breaker.canRequest(1020)).toBe(false);
+
+    expect(breaker.canRequest(2010)).toBe(true);
+    breaker.recordSuccess(2010);
+    expect(breaker.status(2010)).toMatchObject({ state: 'closed', consecutiveFailures: 0, requests: 4, failures: 3, errorRate: 0.75 });
+  });
+});
+
+describe('Overpass Client', () => {
+  it('should retry failed queries on the next mirror', async () => {
+    const { client, waits } = createClient();
+    const post = spyOn(axios, 'post')
+      .mockRejectedValueOnce(httpError(504))
+      .mockResolvedValueOnce({ data: { elements: [{ type: 'node', id: 1 }] } });
+
+    try {
+      expect(await client.query('[out:json];')).toEqual({ elements: [{ type: 'node', id: 1 }] });
+      expect(post.mock.calls.map(call => call[0])).toEqual(MIRRORS);
+      // Backoff of half to all of the base delay before the first retry
+      expect(waits).toHaveLength(1);
+      expect(waits[0]).toBeGreaterThanOrEqual(500);
+      expect(waits[0]).toBeLessThanOrEqual(1000);
+    } finally {
+      post.mockRestore();
+    }
+  });
+
+  it('should honour Retry-After and treat runtime errors as failures', async () => {
+    const { client, waits } = createClient({ baseDelayMs: 0 });
+    const post = spyOn(axios, 'post')
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '5' }))
+      .mockResolvedValueOnce({ data: { elements: [], remark: 'runtime error: Query timed out in "query" at line 3' } })
+      .mockRejectedValueOnce(new Error('timeout of 30000ms exceeded'))
+      .mockResolvedValueOnce({ data: { elements: [] } });
+
+    try {
+      await client.query('[out:json];');
+
+      // The throttling mirror is avoided, then waited for once the other one is open
+      expect(post.mock.calls.map(call => call[0])).toEqual([MIRRORS[0], MIRRORS[1], MIRRORS[1], MIRRORS[0]]);
+      expect(waits).toHaveLength(1);
+      expect(waits[0]).toBeGreaterThan(4000);
+      expect(client.status()[1]).toMatchObject({ state: 'open', failures: 2, errorRate: 1 });
+    } finally {
+      post.mockRestore();
+    }
+  });
+
+  it('should not retry invalid queries', async () => {
+    const { client } = createClient();
+    const post = spyOn(axios, 'post').mockRejectedValue(httpError(400));
+
+    try {
+      await expect(client.query('invalid')).rejects.toThrow('status code 400');
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(client.status()[0].failures).toBe(0);
+    } finally {
+      post.mockRestore();
+    }
+  });
+
+  it('should open the circuit of failing mirrors and fail fast once all are open', async () => {
+    const { client } = createClient();
+    const post = spyOn(axios, 'post').mockRejectedValue(new Error('socket hang up'));
+
+    try {
+      await expect(client.query('[out:json];')).rejects.toBeInstanceOf(OverpassUnavailableError);
+      expect(post).toHaveBeenCalledTimes(4);
+      expect(client.status().map(mirror => mirror.state)).toEqual(['open', 'open']);
+
+      // No mirror is asked while every circuit is open
+      await expect(client.query('[out:json];')).rejects.toThrow('no mirror available');
+      expect(post).toHaveBeenCalledTimes(4);
+    } finally {
+      post.mockRestore();
+    }
+  });
+
+  it('should report mirror health and respond 503 without cached places', async () => {
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { PlaceStore } = await import('../server/Service/PlaceStore');
+    const { TileCoverage } = await import('../server/Service/TileCoverage');
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const { client } = createClient({ maxRetries: 1, failureThreshold: 1 });
+    const provider = new OverpassProvider(client);
+
+    const tileStates = spyOn(TileCoverage, 'tileStates').mockResolvedValue({ tiles: ['u09tun'], missing: ['u09tun'], stale: [] });
+    const recordQueries = spyOn(TileCoverage, 'recordQueries').mockResolvedValue();
+    const findNearby = spyOn(PlaceStore, 'findNearby').mockResolvedValue([]);
+    const post = spyOn(axios, 'post').mockRejectedValue(httpError(503));
+
+    const controller = new GeoPlaceController(
+      { aggregate: () => Promise.resolve([]), countDocuments: () => Promise.resolve(0) } as any,
+      { get: () => undefined, set: () => {}, has: () => false, clear: () => {} } as any,
+      mockLogger as any,
+      [provider]
+    );
+    const context = {
+      query: { lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+
+    try {
+      const response = await controller.getPlaces(context);
+      expect(context.set.status).toBe(503);
+      expect(response).toMatchObject({ data: null, error: 'Service Unavailable' });
+
+      expect(provider.health()).toMatchObject({
+        healthy: false,
+        endpoints: [
+          { url: MIRRORS[0], state: 'open', errorRate: 1 },
+          { url: MIRRORS[1], state: 'open', errorRate: 1 }
+        ]
+      });
+    } finally {
+      tileStates.mockRestore();
+      recordQueries.mockRestore();
+      findNearby.mockRestore();
+      post.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { encodeCursor, decodeCursor, decodeDistanceCursor, compareByDistance, toDistancePage } from '../server/utils';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Three check-ins, newest first, one minute apart
+const userId = new Types.ObjectId();
+const checkins = [0, 1, 2].map(minutes => ({
+  _id: new Types.ObjectId(),
+  user: userId,
+  category: 'museum',
+  createdAt: new Date(Date.UTC(2024, 0, 1, 12, 10 - minutes))
+}));
+
+// Mock check-in model recording the last filter and projection it was queried with
+let lastFilter: any;
+let lastFields: string | undefined;
+const mockCheckinModel = {
+  find: (filter: any) => {
+    lastFilter = filter;
+    lastFields = undefined;
+    const chain = {
+      sort: () => chain,
+      limit: (n: number) => { (chain as any).n = n; return chain; },
+      populate: () => chain,
+      select: (fields: string) => { lastFields = fields; return chain; },
+      lean: () => Promise.resolve(checkins.slice(0, (chain as any).n))
+    };
+    return chain;
+  }
+};
+
+const createContext = (query: Record<string, unknown>, currentUser?: { id: string; username: string; role: 'user' | 'admin' }) => ({
+  query,
+  params: { id: String(userId) },
+  body: {},
+  headers: {},
+  set: { status: 200, headers: {} },
+  currentUser
+});
+
+describe('Cursor Helpers', () => {
+  it('should round-trip a position through an opaque cursor', () => {
+    const position = { createdAt: '2024-01-01T12:00:00.000Z', id: '64b7f0c2a1b2c3d4e5f60718' };
+    const cursor = encodeCursor(position);
+
+    expect(cursor).not.toContain('createdAt');
+    expect(decodeCursor(cursor)).toEqual(position);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeCursor('not json at all')).toBeNull();
+    expect(decodeCursor(Buffer.from('[1,2]').toString('base64url'))).toBeNull();
+  });
+});
+
+describe('Check-in Timeline', () => {
+  it('should return a next cursor when more check-ins exist', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, {} as any, mockLogger as any);
+
+    const response = await controller.getUserCheckins(createContext({ limit: 2 })) as any;
+
+    expect(response.results).toHaveLength(2);
+    expect(response.hasMore).toBe(true);
+    expect(decodeCursor(response.nextCursor)).toEqual({
+      createdAt: checkins[1].createdAt.toISOString(),
+      id: String(checkins[1]._id)
+    });
+  });
+
+  it('should continue after the cursor position', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, {} as any, mockLogger as any);
+
+    const cursor = encodeCursor({ createdAt: checkins[1].createdAt.toISOString(), id: String(checkins[1]._id) });
+    await controller.getUserCheckins(createContext({ limit: 2, cursor, category: 'museum' }));
+
+    expect(lastFilter.category).toBe('museum');
+    expect(lastFilter.$or[0].createdAt.$lt).toEqual(checkins[1].createdAt);
+    expect(String(lastFilter.$or[1]._id.$lt)).toBe(String(checkins[1]._id));
+  });
+
+  it('should only show coordinates to the user and the anti-spoofing assessment to administrators', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, {} as any, mockLogger as any);
+
+    await controller.getUserCheckins(createContext({ limit: 2 }));
+    expect(lastFields).toBe('-fraudScore -flags -coordinates');
+
+    await controller.getUserCheckins(createContext({ limit: 2 }, { id: String(userId), username: 'traveller', role: 'user' }));
+    expect(lastFields).toBe('-fraudScore -flags');
+
+    await controller.getUserCheckins(createContext({ limit: 2 }, { id: String(new Types.ObjectId()), username: 'admin', role: 'admin' }));
+    expect(lastFields).toBeUndefined();
+  });
+
+  it('should reject an invalid cursor with 400', async () => {
+    const { CheckinController } = await import('../server/Controller/Checkin');
+    const controller = new CheckinController(mockCheckinModel as any, {} as any, mockLogger as any);
+
+    const context = createContext({ limit: 2, cursor: encodeCursor({ createdAt: 'yesterday', id: 'nope' }) });
+    await controller.getUserCheckins(context);
+
+    expect(context.set.status).toBe(400);
+  });
+});
+
+// Places north of the Eiffel Tower, `meters` away from it
+const placeAt = (name: string, meters: number, id = new Types.ObjectId()) => ({
+  _id: id,
+  name,
+  coordinates: { type: 'Point', coordinates: [2.2945, 48.8584 + meters / 111195] },
+  category: 'attraction',
+  source: 'overpass'
+});
+
+// Place model sorting by distance and honouring the cursor stage of the pipeline
+const distanceModel = (places: any[]) => ({
+  aggregate: (stages: any[]) => {
+    const match = stages.find(stage => stage.$match)?.$match;
+    const limit = stages.find(stage => stage.$limit).$limit;
+    const after = match && { distance: match.$or[0].distance.$gt, _id: String(match._id.$ne) };
+
+    return Promise.resolve(places
+      .filter(place => !after || compareByDistance(place, after) > 0)
+      .sort(compareByDistance)
+      .slice(0, limit));
+  },
+  countDocuments: () => Promise.resolve(places.length)
+});
+
+const mockCache = {
+  get: () => undefined,
+  set: () => {},
+  has: () => false,
+  clear: () => {}
+};
+
+describe('Place Pagination', () => {
+  it('should build distance pages with a total exact on the last page', () => {
+    const places = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+
+    const first = toDistancePage(places, 2, 1);
+    expect(first).toMatchObject({ limit: 2, total: 3, hasMore: true });
+    const after = decodeDistanceCursor(first.nextCursor!);
+    expect(after).toEqual({ distance: 200, id: String(places[1]._id), offset: 2 });
+
+    expect(toDistancePage(places.slice(2), 2, 10, after!)).toMatchObject({ total: 3, hasMore: false, nextCursor: null });
+    expect(decodeDistanceCursor(encodeCursor({ distance: -1, id: String(places[0]._id), offset: 0 }))).toBeNull();
+    expect(decodeDistanceCursor(encodeCursor({ createdAt: '2024-01-01T12:00:00.000Z', id: String(places[0]._id) }))).toBeNull();
+  });
+
+  it('should page through MongoDB and provider places without repeating any', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const stored = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+    const bounds: any[] = [];
+    // Providers store the places they fetch and return them, B being one MongoDB already has
+    const providers = [{
+      name: 'overpass' as const,
+      queryPlaces: (_lat: number, _lon: number, _radius: number, bound: any) => {
+        bounds.push(bound);
+        const fetched = [{ ...placeAt('D', 250), distance: 250 }, { ...placeAt('E', 400), distance: 400 }];
+        stored.push(...fetched.filter(place => !stored.some(other => other.name === place.name)));
+        return Promise.resolve([fetched[0], placeAt('B', 200, stored[1]._id), fetched[1]] as any[]);
+      }
+    }];
+    const controller = new GeoPlaceController(distanceModel(stored) as any, mockCache as any, mockLogger as any, providers);
+
+    const names: string[] = [];
+    const totals: number[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, limit: 2, cache: false, cursor })) as any;
+      names.push(...response.results.map((result: any) => result.name));
+      totals.push(response.total);
+      cursor = response.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(names).toEqual(['A', 'B', 'D', 'C', 'E']);
+    expect(totals).toEqual([5, 5, 5]);
+    // Only the first page queries providers, for the nearest places a page needs
+    expect(bounds).toEqual([{ limit: 3 }]);
+  });
+
+  it('should query providers on later pages until they stored the places', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const stored = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+    const bounds: any[] = [];
+    let failing = true;
+    const providers = [{
+      name: 'overpass' as const,
+      queryPlaces: (_lat: number, _lon: number, _radius: number, bound: any) => {
+        bounds.push(bound);
+        return failing ? Promise.reject(new Error('Overpass unavailable')) : Promise.resolve([]);
+      }
+    }];
+    const controller = new GeoPlaceController(distanceModel(stored) as any, mockCache as any, mockLogger as any, providers);
+    const query = { lat: 48.8584, lon: 2.2945, radius: 1000, limit: 1, cache: false };
+
+    const first = await controller.getPlaces(createContext(query)) as any;
+    failing = false;
+    const second = await controller.getPlaces(createContext({ ...query, cursor: first.nextCursor })) as any;
+    await controller.getPlaces(createContext({ ...query, cursor: second.nextCursor }));
+
+    expect([first, second].map(page => page.results[0].name)).toEqual(['A', 'B']);
+    // The second page only needs places beyond the first one
+    expect(bounds).toEqual([{ limit: 2 }, { limit: 2, minDistance: first.results[0].distance }]);
+    expect(decodeDistanceCursor(first.nextCursor)?.stored).toBeUndefined();
+    expect(decodeDistanceCursor(second.nextCursor)?.stored).toBe(true);
+  });
+
+  it('should cache pages with their total', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const { LRUCache } = await import('lru-cache');
+    const stored = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+    const model = distanceModel(stored);
+    let counts = 0;
+    const countDocuments = model.countDocuments;
+    model.countDocuments = () => { counts++; return countDocuments(); };
+    const controller = new GeoPlaceController(model as any, new LRUCache<string, any>({ max: 10 }), mockLogger as any);
+    const query = { lat: 48.8584, lon: 2.2945, radius: 1000, limit: 2 };
+
+    const first = await controller.getPlaces(createContext(query)) as any;
+    const cached = await controller.getPlaces(createContext(query)) as any;
+
+    expect(cached).toEqual(first);
+    expect(cached.total).toBe(3);
+    expect(counts).toBe(1);
+  });
+
+  it('should rank provider places with MongoDB places from the first page', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const stored = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+    // Fetched by the provider on the first page, nearer than every stored place
+    const providers = [{ name: 'overpass' as const, queryPlaces: () => Promise.resolve([placeAt('D', 50)] as any[]) }];
+    const controller = new GeoPlaceController(distanceModel(stored) as any, mockCache as any, mockLogger as any, providers);
+
+    const response = await controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, limit: 2, cache: false })) as any;
+
+    expect(response.results.map((result: any) => result.name)).toEqual(['D', 'A']);
+    expect(response.hasMore).toBe(true);
+  });
+
+  it('should serve MongoDB places while providers are failing', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const stored = [placeAt('A', 100), placeAt('B', 200), placeAt('C', 300)].map((place, index) => ({ ...place, distance: (index + 1) * 100 }));
+    const providers = [{ name: 'overpass' as const, queryPlaces: () => Promise.reject(new Error('Overpass unavailable')) }];
+    const controller = new GeoPlaceController(distanceModel(stored) as any, mockCache as any, mockLogger as any, providers);
+
+    const response = await controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, limit: 2, cache: false })) as any;
+
+    expect(response.results.map((result: any) => result.name)).toEqual(['A', 'B']);
+  });
+
+  it('should reject an invalid place cursor with 400', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const controller = new GeoPlaceController(distanceModel([]) as any, mockCache as any, mockLogger as any);
+
+    const context = createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, limit: 2, cursor: 'not-a-cursor' });
+    const response = await controller.getPlaces(context) as any;
+
+    expect(context.set.status).toBe(400);
+    expect(response.message).toBe('Invalid cursor');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { LRUCache } from 'lru-cache';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import type { StorageAdapter } from '../server/Service/StorageAdapter';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// In-memory storage adapter
+const createMemoryStorage = (): StorageAdapter & { files: Map<string, Uint8Array> } => {
+  const files = new Map<string, Uint8Array>();
+  return {
+    files,
+    put: async (key, data) => { files.set(key, data); },
+    get: async key => files.get(key) ?? null,
+    delete: async key => { files.delete(key); },
+    url: key => `/files/${key}`
+  };
+};
+
+const createJpeg = async (width: number, height: number) => new File(
+  [await sharp({ create: { width, height, channels: 3, background: '#3366ff' } }).jpeg().toBuffer()],
+  'photo.jpg',
+  { type: 'image/jpeg' }
+);
+
+const placeId = String(new Types.ObjectId());
+
+describe('Photo Service', () => {
+  it('should store a photo with thumbnail variants', async () => {
+    const { PhotoService } = await import('../server/Service/PhotoService');
+    const storage = createMemoryStorage();
+    const service = new PhotoService(storage);
+
+    const stored = await service.store(placeId, await createJpeg(2000, 1000));
+
+    expect(stored.width).toBe(2000);
+    expect(stored.height).toBe(1000);
+    expect(stored.variants.map(({ name, width, height }) => ({ name, width, height }))).toEqual([
+      { name: 'small', width: 256, height: 128 },
+      { name: 'medium', width: 1024, height: 512 }
+    ]);
+    expect(storage.files.size).toBe(3);
+  });
+
+  it('should reject files whose content does not match their content type', async () => {
+    const { PhotoService, PhotoUploadError } = await import('../server/Service/PhotoService');
+    const service = new PhotoService(createMemoryStorage());
+
+    const fake = new File(['<svg xmlns="http://www.w3.org/2000/svg"/>'], 'photo.jpg', { type: 'image/jpeg' });
+    const error = await service.store(placeId, fake).catch(error => error);
+
+    expect(error).toBeInstanceOf(PhotoUploadError);
+    expect(error.statusCode).toBe(415);
+  });
+
+  it('should reject unsupported content types', async () => {
+    const { PhotoService } = await import('../server/Service/PhotoService');
+    const service = new PhotoService(createMemoryStorage());
+
+    const error = await service.store(placeId, new File(['GIF89a'], 'photo.gif', { type: 'image/gif' })).catch(error => error);
+
+    expect(error.statusCode).toBe(415);
+  });
+
+  it('should reject oversized files', async () => {
+    const { PhotoService } = await import('../server/Service/PhotoService');
+    const service = new PhotoService(createMemoryStorage());
+
+    const huge = new File([new Uint8Array(PhotoService.MAX_BYTES + 1)], 'photo.jpg', { type: 'image/jpeg' });
+    const error = await service.store(placeId, huge).catch(error => error);
+
+    expect(error.statusCode).toBe(413);
+  });
+});
+
+describe('Local Disk Storage', () => {
+  it('should round-trip files and refuse keys outside its root', async () => {
+    const { LocalDiskStorage } = await import('../server/Service/LocalDiskStorage');
+    const rootDir = await mkdtemp(path.join(tmpdir(), 'checkinmate-'));
+    const storage = new LocalDiskStorage(rootDir, '/files/');
+
+    try {
+      await storage.put('places/a/original.jpg', new Uint8Array([1, 2, 3]), 'image/jpeg');
+
+      expect(Array.from(await storage.get('places/a/original.jpg') ?? [])).toEqual([1, 2, 3]);
+      expect(await storage.get('places/b/original.jpg')).toBeNull();
+      expect(storage.url('places/a/original.jpg')).toBe('/files/places/a/original.jpg');
+      await expect(storage.get('../secret')).rejects.toThrow('Invalid storage key');
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Photo Controller', () => {
+  it('should make the first photo of a place its cover photo', async () => {
+    const { PhotoController } = await import('../server/Controller/Photo');
+    const { PhotoService } = await import('../server/Service/PhotoService');
+
+    let coverUpdate: any;
+    const mockPlaceModel = {
+      findById: () => ({ select: () => ({ lean: () => Promise.resolve({ _id: placeId }) }) }),
+      updateOne: (_filter: any, update: any) => {
+        coverUpdate = update;
+        return Promise.resolve({ modifiedCount: 1 });
+      }
+    };
+    const mockPlacePhotoModel = {
+      create: (doc: any) => Promise.resolve({ toJSON: () => doc })
+    };
+
+    const cache = new LRUCache<string, any>({ max: 10 });
+    cache.set('places', []);
+
+    const controller = new PhotoController(
+      mockPlacePhotoModel as any,
+      mockPlaceModel as any,
+      new PhotoService(createMemoryStorage()),
+      cache,
+      mockLogger as any
+    );
+
+    const context = {
+      query: {},
+      params: { id: placeId },
+      body: { file: await createJpeg(400, 300) },
+      headers: {},
+      set: { status: 200, headers: {} },
+      currentUser: { id: String(new Types.ObjectId()), username: 'photographer', role: 'user' as const }
+    };
+    const response = await controller.uploadPhoto(context);
+
+    expect(context.set.status).toBe(201);
+    expect(String(response.data?.uploadedBy)).toBe(context.currentUser.id);
+    expect(coverUpdate.$set.coverPhotoUrl).toEndWith('/medium.webp');
+    expect(cache.size).toBe(0);
+  });
+
+  it('should return 404 for an unknown place', async () => {
+    const { PhotoController } = await import('../server/Controller/Photo');
+    const { PhotoService } = await import('../server/Service/PhotoService');
+
+    const mockPlaceModel = {
+      findById: () => ({ select: () => ({ lean: () => Promise.resolve(null) }) })
+    };
+
+    const controller = new PhotoController({} as any, mockPlaceModel as any, new PhotoService(createMemoryStorage()), new LRUCache<string, any>({ max: 10 }), mockLogger as any);
+
+    const context = {
+      query: {},
+      params: { id: placeId },
+      body: { file: await createJpeg(10, 10) },
+      headers: {},
+      set: { status: 200, headers: {} }
+    };
+    await controller.uploadPhoto(context);
+
+    expect(context.set.status).toBe(404);
+  });
+});
@@ -0,0 +1,386 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import { Types } from 'mongoose';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+// Mock cache
+const mockCache = {
+  get: () => undefined,
+  set: () => {},
+  has: () => false,
+  clear: () => {}
+};
+
+// Mock place model without any stored place
+const mockPlaceModel = {
+  aggregate: () => Promise.resolve([]),
+  countDocuments: () => Promise.resolve(0)
+};
+
+const place = (name: string, lon: number, lat: number) => ({
+  _id: new Types.ObjectId(),
+  name,
+  address: 'Unknown address',
+  coordinates: { type: 'Point', coordinates: [lon, lat] },
+  category: 'attraction',
+  source: 'geojson',
+  updatedAt: new Date()
+});
+
+const createContext = (query: Record<string, unknown>) => ({
+  query,
+  params: {},
+  body: {},
+  headers: {},
+  set: { status: 200, headers: {} }
+});
+
+describe('Place Provider Registry', () => {
+  it('should create the listed providers', async () => {
+    const { createPlaceProviders } = await import('../server/Service/PlaceProvider');
+
+    expect(createPlaceProviders('geojson, nominatim').map(provider => provider.name)).toEqual(['geojson', 'nominatim']);
+    expect(createPlaceProviders('')).toEqual([]);
+  });
+
+  it('should reject unknown providers', async () => {
+    const { createPlaceProviders } = await import('../server/Service/PlaceProvider');
+
+    expect(() => createPlaceProviders('overpass,foursquare')).toThrow('Unknown place provider "foursquare"');
+  });
+});
+
+describe('GeoJSON Provider', () => {
+  it('should return the places of the file within the radius', async () => {
+    const { GeoJSONProvider } = await import('../server/Service/GeoJSONProvider');
+    const provider = new GeoJSONProvider(undefined, false);
+
+    // Next to the Eiffel Tower, the Arc de Triomphe is ~1.7km away
+    const nearby = await provider.queryPlaces(48.8584, 2.2945, 500);
+    const wider = await provider.queryPlaces(48.8584, 2.2945, 2000);
+
+    expect(nearby.map(place => place.name)).toEqual(['Eiffel Tower']);
+    expect(wider.map(place => place.name)).toContain('Arc de Triomphe');
+    expect(nearby[0].category).toBe('attraction');
+    expect(nearby[0].source).toBe('geojson');
+
+    // Nearest first, only as many as bounded beyond a distance
+    expect((await provider.queryPlaces(48.8584, 2.2945, 2000, { limit: 1 })).map(place => place.name)).toEqual(['Eiffel Tower']);
+    const beyond = await provider.queryPlaces(48.8584, 2.2945, 2000, { limit: 1, minDistance: 100 });
+    expect(beyond).toHaveLength(1);
+    expect(beyond[0].name).not.toBe('Eiffel Tower');
+  });
+
+  it('should give features stable IDs', async () => {
+    const { placeFromGeoJSONFeature } = await import('../server/Service/PlaceParsers');
+    const feature = { geometry: { type: 'Point', coordinates: [2.3376, 48.8606] }, properties: { name: 'Louvre Museum', tourism: 'museum' } };
+
+    expect(String(placeFromGeoJSONFeature(feature, 'geojson').place?._id)).toBe(String(placeFromGeoJSONFeature(feature, 'geojson').place?._id));
+    expect(placeFromGeoJSONFeature({ geometry: { type: 'LineString', coordinates: [] }, properties: { name: 'Seine' } }, 'geojson').rejected)
+      .toBe('unsupported_geometry');
+  });
+});
+
+describe('Overpass Provider', () => {
+  it('should parse named points of interest and skip excluded ones', async () => {
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { OverpassClient } = await import('../server/Service/OverpassClient');
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']));
+
+    const places = provider.parseResponse({
+      elements: [
+        { type: 'node', id: 5013364, version: 42, lat: '48.8584', lon: '2.2945', tags: { name: 'Tour Eiffel', 'name:en': 'Eiffel Tower', 'name:ja': 'エッフェル塔', 'name:etymology': 'Gustave Eiffel', tourism: 'attraction', 'addr:country': 'fr' } },
+        { lat: '48.8585', lon: '2.2946', tags: { name: 'Bench', amenity: 'bench' } },
+        { center: { lat: '48.8738', lon: '2.2950' }, tags: { name: 'Arc de Triomphe', historic: 'yes' } }
+      ]
+    });
+
+    expect(places.map(({ name, category, country }) => ({ name, category, country }))).toEqual([
+      { name: 'Tour Eiffel', category: 'attraction', country: 'FR' },
+      { name: 'Arc de Triomphe', category: 'heritage', country: undefined }
+    ]);
+    expect(places[0]).toMatchObject({ osmType: 'node', osmId: 5013364, osmVersion: 42 });
+    expect(places[0].names).toEqual({ en: 'Eiffel Tower', ja: 'エッフェル塔' });
+    expect(places[1].osmId).toBeUndefined();
+  });
+
+  it('should give OSM elements stable IDs', async () => {
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { OverpassClient } = await import('../server/Service/OverpassClient');
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']));
+    const element = { type: 'way' as const, id: 1234, center: { lat: '48.8606', lon: '2.3376' }, tags: { name: 'Louvre', tourism: 'museum' } };
+
+    const [first] = provider.parseResponse({ elements: [element] });
+    // Renamed and slightly moved, still the same element
+    const [second] = provider.parseResponse({ elements: [{ ...element, center: { lat: '48.8607', lon: '2.3377' }, tags: { ...element.tags, name: 'Musée du Louvre' } }] });
+
+    expect(String(first._id)).toBe(String(second._id));
+  });
+
+  it('should only fetch missing tiles and record them even when empty', async () => {
+    const { default: axios } = await import('axios');
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { OverpassClient } = await import('../server/Service/OverpassClient');
+    const { TileCoverage } = await import('../server/Service/TileCoverage');
+    const { PlaceStore } = await import('../server/Service/PlaceStore');
+    const { geohashBounds } = await import('../server/utils');
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']));
+
+    const tileStates = spyOn(TileCoverage, 'tileStates').mockResolvedValue({ tiles: ['u09tun'], missing: ['u09tun'], stale: [] });
+    const recordQueries = spyOn(TileCoverage, 'recordQueries').mockResolvedValue();
+    const markFetched = spyOn(TileCoverage, 'markFetched').mockResolvedValue();
+    const findNearby = spyOn(PlaceStore, 'findNearby').mockResolvedValue([]);
+    const post = spyOn(axios, 'post').mockResolvedValue({ data: { elements: [] } });
+
+    try {
+      expect(await provider.queryPlaces(48.8584, 2.2945, 1000)).toEqual([]);
+
+      // The query covers the missing tile only
+      const { minLat, minLon, maxLat, maxLon } = geohashBounds('u09tun');
+      expect(post.mock.calls[0][1]).toContain(`(${minLat},${minLon},${maxLat},${maxLon})`);
+      expect(markFetched).toHaveBeenCalledWith('overpass', ['u09tun'], []);
+
+      // Nothing is fetched once every tile is fresh
+      tileStates.mockResolvedValue({ tiles: ['u09tun'], missing: [], stale: [] });
+      await provider.queryPlaces(48.8584, 2.2945, 1000);
+      expect(post).toHaveBeenCalledTimes(1);
+    } finally {
+      tileStates.mockRestore();
+      recordQueries.mockRestore();
+      markFetched.mockRestore();
+      findNearby.mockRestore();
+      post.mockRestore();
+    }
+  });
+
+  it('should record tiles as fetched when some places fail to store', async () => {
+    const { default: axios } = await import('axios');
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { OverpassClient } = await import('../server/Service/OverpassClient');
+    const { TileCoverage } = await import('../server/Service/TileCoverage');
+    const { PlaceStore } = await import('../server/Service/PlaceStore');
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']));
+    const elements = [
+      { type: 'node', id: 5013364, lat: '48.8584', lon: '2.2945', tags: { name: 'Tour Eiffel', tourism: 'attraction' } },
+      { type: 'node', id: 1234, lat: '48.8738', lon: '2.2950', tags: { name: 'Arc de Triomphe', historic: 'monument' } }
+    ];
+
+    const tileStates = spyOn(TileCoverage, 'tileStates').mockResolvedValue({ tiles: ['u09tun'], missing: ['u09tun'], stale: [] });
+    const recordQueries = spyOn(TileCoverage, 'recordQueries').mockResolvedValue();
+    const markFetched = spyOn(TileCoverage, 'markFetched').mockResolvedValue();
+    // A duplicate key error on one of the places
+    const upsert = spyOn(PlaceStore, 'upsert').mockResolvedValue({ inserted: 1, updated: 0, skipped: 0, failed: 1 });
+    const findNearby = spyOn(PlaceStore, 'findNearby').mockResolvedValue([]);
+    const post = spyOn(axios, 'post').mockResolvedValue({ data: { elements } });
+
+    try {
+      await provider.queryPlaces(48.8584, 2.2945, 1000);
+
+      expect(upsert).toHaveBeenCalledTimes(1);
+      expect(markFetched).toHaveBeenCalledTimes(1);
+      expect(markFetched.mock.calls[0][1]).toEqual(['u09tun']);
+      expect(markFetched.mock.calls[0][2]).toHaveLength(2);
+    } finally {
+      tileStates.mockRestore();
+      recordQueries.mockRestore();
+      markFetched.mockRestore();
+      upsert.mockRestore();
+      findNearby.mockRestore();
+      post.mockRestore();
+    }
+  });
+});
+
+describe('Place Store', () => {
+  it('should upsert places of OSM elements by OSM identity', async () => {
+    const { PlaceStore } = await import('../server/Service/PlaceStore');
+    const { getPlaceModel } = await import('../server/Model/Place');
+    const { getReverseGeocoder } = await import('../server/Service/ReverseGeocoder');
+    const PlaceModel = getPlaceModel();
+
+    const find = spyOn(PlaceModel, 'find').mockReturnValue({ select: () => ({ lean: () => Promise.resolve([]) }) } as any);
+    const bulkWrite = spyOn(PlaceModel, 'bulkWrite').mockResolvedValue({ upsertedCount: 1, matchedCount: 1 } as any);
+    const complete = spyOn(getReverseGeocoder(), 'complete').mockImplementation(places => Promise.resolve(places));
+
+    try {
+      const result = await PlaceStore.upsert([
+        { ...place('Eiffel Tower', 2.2945, 48.8584), source: 'overpass', osmType: 'way', osmId: 5013364 },
+        { ...place('Louvre Museum', 2.3376, 48.8606), source: 'geojson' }
+      ] as any);
+
+      const [osmOp, positionOp] = bulkWrite.mock.calls[0][0] as any[];
+      expect(osmOp.updateOne.filter.$or[0]).toEqual({ osmType: 'way', osmId: 5013364 });
+      // Places stored before they had an OSM identity are adopted
+      expect(osmOp.updateOne.filter.$or[1]).toMatchObject({ name: { $in: ['Eiffel Tower'] }, osmId: { $exists: false } });
+      expect(positionOp.updateOne.filter).toMatchObject({ name: { $in: ['Louvre Museum'] }, source: 'geojson' });
+      // Stored places are indexed for search
+      expect(positionOp.updateOne.update.$set.nameTokens).toEqual(['louvre', 'museum']);
+      expect(result).toEqual({ inserted: 1, updated: 1, skipped: 0, failed: 0 });
+    } finally {
+      find.mockRestore();
+      bulkWrite.mockRestore();
+      complete.mockRestore();
+    }
+  });
+});
+
+describe('Nominatim Provider', () => {
+  it('should parse search results', async () => {
+    const { NominatimProvider } = await import('../server/Service/NominatimProvider');
+    const provider = new NominatimProvider('http://nominatim.invalid', ['museum']);
+
+    const [parsed] = provider.parseResults([{
+      lat: '48.8606',
+      lon: '2.3376',
+      name: 'Musée du Louvre',
+      display_name: 'Musée du Louvre, Rue de Rivoli, Paris, France',
+      category: 'tourism',
+      type: 'museum',
+      address: { house_number: '99', road: 'Rue de Rivoli', city: 'Paris', postcode: '75001', country_code: 'fr' }
+    }]);
+
+    expect(parsed.coordinates.coordinates).toEqual([2.3376, 48.8606]);
+    expect(parsed.category).toBe('museum');
+    expect(parsed.address).toBe('99 Rue de Rivoli, 75001 Paris, France');
+    expect(parsed.addressComponents).toEqual({ housenumber: '99', street: 'Rue de Rivoli', city: 'Paris', postcode: '75001', country: 'FR' });
+    expect(parsed.country).toBe('FR');
+  });
+
+  it('should serve stored places with their persisted IDs once results are stored', async () => {
+    const { default: axios } = await import('axios');
+    const { NominatimProvider } = await import('../server/Service/NominatimProvider');
+    const { PlaceStore } = await import('../server/Service/PlaceStore');
+    const provider = new NominatimProvider('http://nominatim.invalid', ['museum']);
+    const stored = { ...place('Musée Rodin', 2.3158, 48.8553), _id: new Types.ObjectId(), source: 'nominatim', updatedAt: new Date(0) };
+
+    const get = spyOn(axios, 'get').mockResolvedValue({
+      data: [{ lat: '48.8553', lon: '2.3158', name: 'Musée Rodin', display_name: 'Musée Rodin, Paris', category: 'tourism', type: 'museum' }]
+    });
+    const upsert = spyOn(PlaceStore, 'upsert').mockResolvedValue({ inserted: 0, updated: 1, skipped: 0, failed: 0 });
+    // Stale before the search, stored again after it
+    const findNearby = spyOn(PlaceStore, 'findNearby').mockResolvedValue([stored] as any);
+
+    try {
+      const [result] = await provider.queryPlaces(48.8553, 2.3158, 500);
+
+      expect(upsert).toHaveBeenCalledTimes(1);
+      expect(String(result._id)).toBe(String(stored._id));
+    } finally {
+      get.mockRestore();
+      upsert.mockRestore();
+      findNearby.mockRestore();
+    }
+  });
+});
+
+describe('GeoPlace Controller providers', () => {
+  it('should merge the results of every provider, skipping failed ones', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const providers = [
+      { name: 'geojson' as const, queryPlaces: () => Promise.resolve([place('Eiffel Tower', 2.2945, 48.8584)] as any) },
+      { name: 'nominatim' as const, queryPlaces: () => Promise.resolve([place('Champ de Mars', 2.2986, 48.8556)] as any) },
+      { name: 'overpass' as const, queryPlaces: () => Promise.reject(new Error('Overpass unavailable')) }
+    ];
+    const controller = new GeoPlaceController(mockPlaceModel as any, mockCache as any, mockLogger as any, providers);
+
+    const response = await controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false })) as any;
+
+    expect(response.results.map((result: any) => result.name)).toEqual(['Eiffel Tower', 'Champ de Mars']);
+  });
+
+  it('should fail when every provider fails', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const providers = [
+      { name: 'overpass' as const, queryPlaces: () => Promise.reject(new Error('Overpass unavailable')) }
+    ];
+    const controller = new GeoPlaceController(mockPlaceModel as any, mockCache as any, mockLogger as any, providers);
+
+    await expect(controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false })))
+      .rejects.toThrow('Failed to fetch places');
+  });
+
+  it('should only use MongoDB without providers', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const controller = new GeoPlaceController(mockPlaceModel as any, mockCache as any, mockLogger as any);
+
+    const response = await controller.getPlaces(createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, page: 1, limit: 10, cache: false })) as any;
+
+    expect(response.results).toEqual([]);
+  });
+});
+
+describe('GeoPlace Controller OSM lookup', () => {
+  it('should find places by OSM element', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const stored = { ...place('Eiffel Tower', 2.2945, 48.8584), osmType: 'way', osmId: 5013364 };
+    let filter: Record<string, unknown> = {};
+    const placeModel = {
+      findOne: (query: Record<string, unknown>) => {
+        filter = query;
+        return { lean: () => Promise.resolve(query.osmId === 5013364 ? stored : null) };
+      }
+    };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const found = await controller.getPlaceByOsmId({ ...createContext({}), params: { type: 'way', id: '5013364' } });
+    expect(found.data?.name).toBe('Eiffel Tower');
+    expect(filter).toEqual({ osmType: 'way', osmId: 5013364 });
+
+    const context = { ...createContext({}), params: { type: 'node', id: '1' } };
+    const missing = await controller.getPlaceByOsmId(context);
+    expect(context.set.status).toBe(404);
+    expect(missing.error).toBe('Not Found');
+  });
+});
+
+describe('GeoPlace Controller localized names', () => {
+  const eiffelTower = {
+    ...place('Tour Eiffel', 2.2945, 48.8584),
+    names: { en: 'Eiffel Tower', 'pt-BR': 'Torre Eiffel', ja: 'エッフェル塔' }
+  };
+
+  const getPlace = async (query: Record<string, unknown>, acceptLanguage?: string) => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const placeModel = { findById: () => ({ lean: () => Promise.resolve(eiffelTower) }) };
+    const controller = new GeoPlaceController(placeModel as any, mockCache as any, mockLogger as any);
+
+    const context = {
+      ...createContext(query),
+      params: { id: String(eiffelTower._id) },
+      headers: acceptLanguage ? { 'accept-language': acceptLanguage } : {}
+    };
+    return (await controller.getPlaceById(context)).data;
+  };
+
+  it('should name places in the preferred language', async () => {
+    expect((await getPlace({}, 'ja,en;q=0.8'))?.name).toBe('エッフェル塔');
+    expect((await getPlace({}, 'pt'))?.name).toBe('Torre Eiffel');
+    expect((await getPlace({ lang: 'pt-PT' }, 'ja'))?.name).toBe('Torre Eiffel');
+    expect((await getPlace({}, 'de'))?.name).toBe('Eiffel Tower');
+    expect((await getPlace({}))?.names).toEqual(eiffelTower.names);
+  });
+
+  it('should fall back to the canonical name', async () => {
+    const { pickLocalizedName } = await import('../server/utils');
+
+    expect(pickLocalizedName('Tour Eiffel', { ja: 'エッフェル塔' }, ['de', 'en'])).toBe('Tour Eiffel');
+    expect(pickLocalizedName('Tour Eiffel', undefined, ['ja'])).toBe('Tour Eiffel');
+  });
+
+  it('should dedupe on canonical and localized names', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const legacy = { ...place('Eiffel Tower', 2.2945, 48.8584), source: 'overpass', distance: 0 };
+    const providers = [{ name: 'overpass', queryPlaces: () => Promise.resolve([eiffelTower]) }];
+    const controller = new GeoPlaceController({ aggregate: () => Promise.resolve([legacy]), countDocuments: () => Promise.resolve(1) } as any, mockCache as any, mockLogger as any, providers as any);
+
+    const response = await controller.getPlaces({ ...createContext({ lat: 48.8584, lon: 2.2945, radius: 1000, limit: 10, lang: 'ja' }) }) as any;
+
+    expect(response.results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import { RefreshQueue, type TileRefresher } from '../server/Service/RefreshQueue';
+import { RefreshScheduler, parseOffPeakHours } from '../server/Service/RefreshScheduler';
+import TileCoverage from '../server/Service/TileCoverage';
+import PlaceStore from '../server/Service/PlaceStore';
+
+// Refresher recording the tiles it refreshes, failing when asked to
+const createRefresher = (fail = false) => {
+  const refreshed: string[][] = [];
+  const refresher: TileRefresher = {
+    name: 'overpass',
+    refreshTiles: async geohashes => {
+      refreshed.push(geohashes);
+      if (fail) throw new Error('Overpass is unavailable');
+      return [];
+    }
+  };
+  return { refresher, refreshed };
+};
+
+describe('Refresh Queue', () => {
+  it('should refresh queued tiles once and skip tiles leased elsewhere', async () => {
+    const queue = new RefreshQueue();
+    const { refresher, refreshed } = createRefresher();
+    // Another instance is refreshing u09tuq
+    const acquireLeases = spyOn(TileCoverage, 'acquireLeases')
+      .mockImplementation(async (_, geohashes) => geohashes.filter(geohash => geohash !== 'u09tuq'));
+
+    try {
+      expect(queue.enqueue(refresher, ['u09tun', 'u09tuq'])).toBe(true);
+      // Already queued
+      expect(queue.enqueue(refresher, ['u09tun'])).toBe(false);
+      expect(queue.enqueue(refresher, ['u09tun', 'u09tuy'])).toBe(true);
+      await queue.idle();
+
+      expect(refreshed).toEqual([['u09tun'], ['u09tuy']]);
+      expect(queue.status()).toEqual({ pending: 0, running: false, refreshed: 2, failed: 0 });
+
+      // Refreshed tiles can be queued again
+      expect(queue.enqueue(refresher, ['u09tun'])).toBe(true);
+      await queue.idle();
+    } finally {
+      acquireLeases.mockRestore();
+    }
+  });
+
+  it('should release the leases of failed refreshes', async () => {
+    const queue = new RefreshQueue();
+    const { refresher } = createRefresher(true);
+    const acquireLeases = spyOn(TileCoverage, 'acquireLeases').mockImplementation(async (_, geohashes) => geohashes);
+    const releaseLeases = spyOn(TileCoverage, 'releaseLeases').mockResolvedValue();
+
+    try {
+      queue.enqueue(refresher, ['u09tun']);
+      await queue.idle();
+
+      expect(releaseLeases).toHaveBeenCalledWith('overpass', ['u09tun']);
+      expect(queue.status().failed).toBe(1);
+    } finally {
+      acquireLeases.mockRestore();
+      releaseLeases.mockRestore();
+    }
+  });
+});
+
+describe('Stale-while-revalidate', () => {
+  it('should serve stale places right away and refresh them in the background', async () => {
+    const { OverpassProvider } = await import('../server/Service/OverpassProvider');
+    const { OverpassClient } = await import('../server/Service/OverpassClient');
+    const queued: string[][] = [];
+    const queue = { enqueue: (_: TileRefresher, geohashes: string[]) => queued.push(geohashes) > 0 };
+    const provider = new OverpassProvider(new OverpassClient(['http://overpass.invalid']), queue as any);
+
+    const stored = [{ name: 'Eiffel Tower' }] as any[];
+    const tileStates = spyOn(TileCoverage, 'tileStates').mockResolvedValue({ tiles: ['u09tun', 'u09tuq'], missing: [], stale: ['u09tuq'] });
+    const recordQueries = spyOn(TileCoverage, 'recordQueries').mockResolvedValue();
+    const findNearby = spyOn(PlaceStore, 'findNearby').mockResolvedValue(stored);
+    const refreshTiles = spyOn(provider, 'refreshTiles');
+
+    try {
+      expect(await provider.queryPlaces(48.8584, 2.2945, 1000)).toBe(stored);
+      expect(queued).toEqual([['u09tuq']]);
+      expect(refreshTiles).not.toHaveBeenCalled();
+      expect(recordQueries).toHaveBeenCalledWith('overpass', ['u09tun', 'u09tuq']);
+    } finally {
+      tileStates.mockRestore();
+      recordQueries.mockRestore();
+      findNearby.mockRestore();
+    }
+  });
+});
+
+describe('Refresh Scheduler', () => {
+  it('should parse off-peak hours', () => {
+    expect(parseOffPeakHours('2-6')).toEqual([2, 6]);
+    expect(parseOffPeakHours('22-4')).toEqual([22, 4]);
+    expect(parseOffPeakHours('off')).toBeNull();
+    expect(() => parseOffPeakHours('2-25')).toThrow('Invalid off-peak hours');
+    expect(() => parseOffPeakHours('night')).toThrow('Invalid off-peak hours');
+  });
+
+  it('should queue the most queried tiles by parent tile during off-peak hours only', async () => {
+    const queued: string[][] = [];
+    const queue = { enqueue: (_: TileRefresher, geohashes: string[]) => queued.push(geohashes) > 0 };
+    const { refresher } = createRefresher();
+    const scheduler = new RefreshScheduler([refresher], queue as any, { offPeakHours: [22, 4], tilesPerRun: 3 });
+    const popularTiles = spyOn(TileCoverage, 'popularTiles').mockResolvedValue(['u09tun', 'gcpvj0', 'u09tuq']);
+
+    try {
+      expect(await scheduler.runOnce(new Date('2025-06-02T12:00:00Z'))).toBe(0);
+      expect(popularTiles).not.toHaveBeenCalled();
+
+      expect(await scheduler.runOnce(new Date('2025-06-02T01:00:00Z'))).toBe(3);
+      expect(queued).toEqual([['u09tun', 'u09tuq'], ['gcpvj0']]);
+      expect(popularTiles.mock.calls[0][1].limit).toBe(3);
+    } finally {
+      popularTiles.mockRestore();
+    }
+  });
+});
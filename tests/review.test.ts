@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const placeId = String(new Types.ObjectId());
+
+// Mock place model recording rating updates
+const ratingUpdates: any[] = [];
+const mockPlaceModel = {
+  exists: ({ _id }: { _id: string }) => Promise.resolve(_id === placeId ? { _id } : null),
+  updateOne: (_filter: unknown, update: any) => {
+    ratingUpdates.push(update.$set);
+    return Promise.resolve();
+  }
+};
+
+// Mock review model holding reviews in memory, enforcing one review per user and place
+const reviews: any[] = [];
+const mockReviewModel = {
+  create: (doc: any) => {
+    if (reviews.some(review => review.place === doc.place && review.user === doc.user)) {
+      return Promise.reject(Object.assign(new Error('E11000 duplicate key error index: unique_review_place_user'), { code: 11000 }));
+    }
+    reviews.push(doc);
+    return Promise.resolve({ ...doc, toJSON: () => doc });
+  },
+  aggregate: () => Promise.resolve([{
+    ratingAverage: reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length,
+    ratingCount: reviews.length
+  }])
+};
+
+const createContext = (params: Record<string, string>, body: unknown, userId: string) => ({
+  query: {},
+  params,
+  body,
+  headers: {},
+  set: { status: 200, headers: {} },
+  currentUser: { id: userId, username: 'traveller', role: 'user' as const }
+});
+
+describe('Review Controller', () => {
+  it('should create reviews and refresh the place rating', async () => {
+    const { ReviewController } = await import('../server/Controller/Review');
+    const controller = new ReviewController(mockReviewModel as any, mockPlaceModel as any, mockLogger as any);
+
+    const first = createContext({ id: placeId }, { rating: 5, text: 'Best pão de queijo in town' }, 'user-1');
+    await controller.createReview(first);
+    const second = createContext({ id: placeId }, { rating: 2 }, 'user-2');
+    await controller.createReview(second);
+
+    expect(first.set.status).toBe(201);
+    expect(second.set.status).toBe(201);
+    expect(ratingUpdates[ratingUpdates.length - 1]).toEqual({ ratingAverage: 3.5, ratingCount: 2 });
+  });
+
+  it('should respond 409 when reviewing the same place twice', async () => {
+    const { ReviewController } = await import('../server/Controller/Review');
+    const controller = new ReviewController(mockReviewModel as any, mockPlaceModel as any, mockLogger as any);
+
+    const context = createContext({ id: placeId }, { rating: 4 }, 'user-1');
+    const response = await controller.createReview(context);
+
+    expect(context.set.status).toBe(409);
+    expect(response.error).toBe('Conflict');
+  });
+
+  it('should respond 404 for an unknown place', async () => {
+    const { ReviewController } = await import('../server/Controller/Review');
+    const controller = new ReviewController(mockReviewModel as any, mockPlaceModel as any, mockLogger as any);
+
+    const context = createContext({ id: String(new Types.ObjectId()) }, { rating: 4 }, 'user-3');
+    await controller.createReview(context);
+
+    expect(context.set.status).toBe(404);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { nameMatchScore, normalizeSearchText, searchTermsOf, PlaceSearch } from '../server/Service/PlaceSearch';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const place = (name: string, lon: number, lat: number, names?: Record<string, string>) => ({
+  _id: new Types.ObjectId(),
+  name,
+  ...(names && { names }),
+  coordinates: { type: 'Point', coordinates: [lon, lat] },
+  category: 'bakery',
+  source: 'overpass'
+});
+
+// Place model answering every find with the same places, recording filters
+const placeModel = (places: unknown[], filters: any[] = []) => ({
+  find: (filter: any) => {
+    filters.push(filter);
+    const query = {
+      limit: () => query,
+      select: () => query,
+      lean: () => Promise.resolve(places)
+    };
+    return query;
+  }
+});
+
+describe('Search terms', () => {
+  it('should normalize accents, case and punctuation', () => {
+    expect(normalizeSearchText('  Café-Bar São João! ')).toBe('cafe bar sao joao');
+    expect(normalizeSearchText('Ærø Bäckerei')).toBe('ærø backerei');
+  });
+
+  it('should index the words of canonical and localized names', () => {
+    const terms = searchTermsOf('Padaria São João', { en: 'Saint John Bakery', pt: 'Padaria São João' });
+
+    expect(terms.nameTokens).toEqual(['padaria', 'sao', 'joao', 'saint', 'john', 'bakery']);
+    expect(terms.nameTrigrams).toContain('  p');
+    expect(terms.nameTrigrams).toContain('ria');
+    expect(searchTermsOf('Louvre', new Map([['el', 'Μουσείο του Λούβρου']])).nameTokens).toEqual(['louvre', 'μουσειο', 'του', 'λουβρου']);
+  });
+
+  it('should score whole names, prefixes, word prefixes and typos in that order', () => {
+    const scores = [
+      nameMatchScore('padaria', 'Padaria'),
+      nameMatchScore('padaria', 'Padaria Brasil'),
+      nameMatchScore('brasil', 'Padaria Brasil'),
+      nameMatchScore('padria', 'Padaria Brasil')
+    ];
+
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(scores[3]).toBeGreaterThan(0);
+    expect(nameMatchScore('padaria', 'Eiffel Tower')).toBe(0);
+  });
+});
+
+describe('Place Search', () => {
+  it('should rank by name match, accent-insensitive and tolerant to typos', async () => {
+    const search = new PlaceSearch(placeModel([
+      place('Eiffel Tower', 2.2945, 48.8584),
+      place('Padaria Brasil', -43.18, -22.90),
+      place('Padaria', -43.19, -22.91)
+    ]) as any);
+
+    const results = await search.search('PADÁRIA', { limit: 10 });
+    expect(results.map(result => result.name)).toEqual(['Padaria', 'Padaria Brasil']);
+    expect(results[0].score).toBe(1);
+
+    const typos = await search.search('padria', { limit: 10 });
+    expect(typos.map(result => result.name)).toEqual(['Padaria', 'Padaria Brasil']);
+  });
+
+  it('should favor nearby places around an anchor', async () => {
+    const filters: any[] = [];
+    const search = new PlaceSearch(placeModel([
+      place('Padaria Lisboa', -9.14, 38.71),
+      place('Padaria Copacabana', -43.18, -22.97)
+    ], filters) as any);
+
+    const results = await search.search('padaria', { lat: -22.97, lon: -43.18, limit: 10 });
+
+    expect(results[0].name).toBe('Padaria Copacabana');
+    expect(results[0].distance).toBe(0);
+    expect(results[1].distance).toBeGreaterThan(7000000);
+    expect(filters[0].coordinates.$nearSphere.$geometry.coordinates).toEqual([-43.18, -22.97]);
+    expect(filters[0].$and).toEqual([{ nameTokens: { $regex: '^padaria' } }]);
+  });
+
+  it('should suggest places by word prefixes in the preferred language', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const filters: any[] = [];
+    const search = new PlaceSearch(placeModel([
+      place('Padaria São João', -43.18, -22.97, { en: 'Saint John Bakery' })
+    ], filters) as any);
+    const controller = new GeoPlaceController({} as any, {} as any, mockLogger as any, [], undefined, undefined, search);
+
+    const response = await controller.autocompletePlaces({
+      query: { q: 'sao jo', limit: 10, lang: 'en' },
+      params: {},
+      body: {},
+      headers: {},
+      set: { status: 200, headers: {} }
+    });
+
+    expect(filters[0].$and).toEqual([{ nameTokens: { $regex: '^sao' } }, { nameTokens: { $regex: '^jo' } }]);
+    expect(response.data!.map(suggestion => suggestion.name)).toEqual(['Saint John Bakery']);
+  });
+});
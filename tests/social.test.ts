@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const me = String(new Types.ObjectId());
+const friend = new Types.ObjectId();
+
+// Mock follow model where the caller follows a single friend
+const mockFollowModel = {
+  find: ({ follower }: { follower: string }) => ({
+    distinct: () => Promise.resolve(follower === me ? [friend] : [])
+  }),
+  updateOne: () => Promise.resolve({ upsertedCount: 1 })
+};
+
+// Check-ins of the friend returned by the feed
+let friendCheckins: any[] = [];
+
+// Mock check-in model recording the last feed filter and honouring its projection
+let lastFilter: any;
+const mockCheckinModel = {
+  find: (filter: any) => {
+    lastFilter = filter;
+    let fields = '';
+    const chain: any = {
+      sort: () => chain,
+      limit: () => chain,
+      populate: () => chain,
+      select: (selected: string) => { fields = selected; return chain; },
+      lean: () => Promise.resolve(friendCheckins.map(checkin => Object.fromEntries(Object.entries(checkin)
+        .filter(([field]) => !fields.split(' ').includes(`-${field}`)))))
+    };
+    return chain;
+  }
+};
+
+const mockUserModel = {
+  exists: () => Promise.resolve({ _id: friend })
+};
+
+const createContext = (params: Record<string, string>, userId: string, query: Record<string, unknown> = {}) => ({
+  query,
+  params,
+  body: {},
+  headers: {},
+  set: { status: 200, headers: {} },
+  currentUser: { id: userId, username: 'traveller', role: 'user' as const }
+});
+
+describe('Social Controller', () => {
+  it('should not let users follow themselves', async () => {
+    const { SocialController } = await import('../server/Controller/Social');
+    const controller = new SocialController(mockFollowModel as any, mockCheckinModel as any, mockUserModel as any, mockLogger as any);
+
+    const context = createContext({ id: me }, me);
+    await controller.follow(context);
+
+    expect(context.set.status).toBe(400);
+  });
+
+  it('should follow another user', async () => {
+    const { SocialController } = await import('../server/Controller/Social');
+    const controller = new SocialController(mockFollowModel as any, mockCheckinModel as any, mockUserModel as any, mockLogger as any);
+
+    const context = createContext({ id: String(friend) }, me);
+    const response = await controller.follow(context);
+
+    expect(context.set.status).toBe(201);
+    expect(response.data).toEqual({ following: true });
+  });
+
+  it("should build the feed from followed users' check-ins", async () => {
+    const { SocialController } = await import('../server/Controller/Social');
+    const controller = new SocialController(mockFollowModel as any, mockCheckinModel as any, mockUserModel as any, mockLogger as any);
+
+    await controller.getFeed(createContext({}, me, { limit: 20 }));
+
+    expect(lastFilter.user.$in).toEqual([friend]);
+  });
+
+  it('should leave flagged check-ins, coordinates and the anti-spoofing assessment out of the feed', async () => {
+    const { SocialController } = await import('../server/Controller/Social');
+    const controller = new SocialController(mockFollowModel as any, mockCheckinModel as any, mockUserModel as any, mockLogger as any);
+
+    friendCheckins = [{
+      _id: new Types.ObjectId(),
+      user: { _id: friend, username: 'friend' },
+      place: new Types.ObjectId(),
+      coordinates: { type: 'Point', coordinates: [2.2946, 48.8585] },
+      fraudScore: 0,
+      flags: [],
+      createdAt: new Date()
+    }];
+
+    try {
+      const response = await controller.getFeed(createContext({}, me, { limit: 20 })) as any;
+
+      expect(lastFilter['flags.0']).toEqual({ $exists: false });
+      expect(response.results).toHaveLength(1);
+      expect(response.results[0].user.username).toBe('friend');
+      expect(response.results[0].coordinates).toBeUndefined();
+      expect(response.results[0].fraudScore).toBeUndefined();
+      expect(response.results[0].flags).toBeUndefined();
+    } finally {
+      friendCheckins = [];
+    }
+  });
+
+  it('should return an empty feed without querying check-ins when following nobody', async () => {
+    const { SocialController } = await import('../server/Controller/Social');
+    const controller = new SocialController(mockFollowModel as any, mockCheckinModel as any, mockUserModel as any, mockLogger as any);
+
+    lastFilter = undefined;
+    const response = await controller.getFeed(createContext({}, String(new Types.ObjectId()), { limit: 20 }));
+
+    expect(response).toEqual({ limit: 20, results: [], nextCursor: null, hasMore: false });
+    expect(lastFilter).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'bun:test';
+import { Types } from 'mongoose';
+import { comparePlaces, relevanceOf, sortValueOf, type ValueSort } from '../server/Service/PlaceSort';
+import { compareByValue, decodeDistanceCursor, encodeCursor } from '../server/utils';
+
+// Mock logger
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {}
+};
+
+const mockCache = {
+  get: () => undefined,
+  set: () => {},
+  has: () => false,
+  clear: () => {}
+};
+
+// Places north of the Eiffel Tower, `meters` away from it
+const placeAt = (name: string, meters: number, fields: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  name,
+  coordinates: { type: 'Point', coordinates: [2.2945, 48.8584 + meters / 111195] },
+  category: 'cafe',
+  categoryPath: ['food', 'cafe'],
+  source: 'overpass',
+  distance: meters,
+  ...fields
+});
+
+// Place model ranking in an order and honouring the cursor stage of the pipeline, recording the stages
+const sortedModel = (places: any[], pipelines: any[][] = [], sort: ValueSort = 'popularity') => ({
+  aggregate: (stages: any[]) => {
+    pipelines.push(stages);
+    const match = stages.find(stage => stage.$match)?.$match;
+    const limit = stages.find(stage => stage.$limit).$limit;
+    const position = (place: any) => ({ value: sortValueOf(place, sort), distance: place.distance, _id: place._id });
+    const after = match && { value: match.$or[0].sortValue.$lt, distance: match.$or[1].distance.$gt, _id: String(match._id.$ne) };
+
+    return Promise.resolve(places
+      .filter(place => !after || compareByValue(position(place), after) > 0)
+      .sort(comparePlaces(sort))
+      .slice(0, limit));
+  },
+  countDocuments: () => Promise.resolve(places.length)
+});
+
+const createContext = (query: Record<string, unknown>) => ({
+  query: { lat: 48.8584, lon: 2.2945, radius: 1000, cache: false, ...query },
+  params: {},
+  body: {},
+  headers: {},
+  set: { status: 200, headers: {} }
+});
+
+describe('Place Sort', () => {
+  it('should rank sights and heritage above generic buildings at the same distance', () => {
+    const building = placeAt('Immeuble', 300, { category: 'other', categoryPath: ['other'] });
+    const monument = placeAt('Monument', 300, { category: 'monument', categoryPath: ['heritage', 'monument'] });
+    const viewpoint = placeAt('Belvédère', 600, { category: 'viewpoint', categoryPath: ['sights', 'viewpoint'] });
+
+    expect([building, viewpoint, monument].sort(comparePlaces('relevance')).map(place => place.name))
+      .toEqual(['Monument', 'Belvédère', 'Immeuble']);
+    // Proximity still counts: a building next door beats a distant monument
+    expect(relevanceOf(50, 'other')).toBeGreaterThan(relevanceOf(4000, 'heritage'));
+    // Legacy categories missing from the taxonomy rank like `other`
+    expect(relevanceOf(100, 'attraction')).toBe(relevanceOf(100, 'other'));
+  });
+
+  it('should order by value then distance and ID', () => {
+    const recent = placeAt('Recent', 500, { updatedAt: new Date('2025-06-02T00:00:00Z') });
+    const older = placeAt('Older', 100, { updatedAt: new Date('2025-06-01T00:00:00Z') });
+    const near = placeAt('Near', 100, { ratingAverage: 4.5 });
+    const far = placeAt('Far', 900, { ratingAverage: 4.5 });
+
+    expect([older, recent].sort(comparePlaces('recent')).map(place => place.name)).toEqual(['Recent', 'Older']);
+    expect([far, near, recent].sort(comparePlaces('rating')).map(place => place.name)).toEqual(['Near', 'Far', 'Recent']);
+    expect([recent, older].sort(comparePlaces('distance')).map(place => place.name)).toEqual(['Older', 'Recent']);
+  });
+});
+
+describe('Sorted Place Search', () => {
+  it('should sort places by popularity in MongoDB and page through provider places after them', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const pipelines: any[][] = [];
+    const stored = [
+      placeAt('Quiet', 100, { checkinCount: 1 }),
+      placeAt('Busy', 400, { checkinCount: 12 }),
+      placeAt('Popular', 200, { checkinCount: 12 })
+    ];
+    const fresh = placeAt('New', 50);
+    // Providers store the places they fetch, and return places MongoDB already has without check-ins of their own
+    const providers = [{
+      name: 'overpass' as const,
+      queryPlaces: () => {
+        if (!stored.includes(fresh)) stored.push(fresh);
+        return Promise.resolve([fresh, { ...stored[0], checkinCount: undefined }] as any[]);
+      }
+    }];
+    const controller = new GeoPlaceController(sortedModel(stored, pipelines) as any, mockCache as any, mockLogger as any, providers);
+
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await controller.getPlaces(createContext({ limit: 2, sort: 'popularity', cursor })) as any;
+      names.push(...response.results.map((result: any) => result.name));
+      cursor = response.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(names).toEqual(['Popular', 'Busy', 'Quiet', 'New']);
+    expect(pipelines[0]).toContainEqual({ $addFields: { sortValue: { $ifNull: ['$checkinCount', 0] } } });
+    expect(pipelines[0]).toContainEqual({ $sort: { sortValue: -1, distance: 1, _id: 1 } });
+  });
+
+  it('should rank provider places with MongoDB places on every page', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const cafes = [100, 200, 300, 400, 500, 600].map(meters => placeAt(`Café ${meters}`, meters));
+    // A monument further away outranks the cafés from 300 m on
+    const monument = placeAt('Monument', 1000, { category: 'monument', categoryPath: ['heritage', 'monument'] });
+    // Stored by the provider on the first page
+    const providers = [{
+      name: 'overpass' as const,
+      queryPlaces: () => {
+        if (!cafes.includes(monument)) cafes.push(monument);
+        return Promise.resolve([monument] as any[]);
+      }
+    }];
+    const controller = new GeoPlaceController(sortedModel(cafes, [], 'relevance') as any, mockCache as any, mockLogger as any, providers);
+
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await controller.getPlaces(createContext({ radius: 2000, limit: 2, sort: 'relevance', cursor })) as any;
+      pages.push(response.results.map((result: any) => result.name));
+      cursor = response.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(pages).toEqual([['Café 100', 'Café 200'], ['Monument', 'Café 300'], ['Café 400', 'Café 500'], ['Café 600']]);
+  });
+
+  it('should reject cursors of another order with 400', async () => {
+    const { GeoPlaceController } = await import('../server/Controller/Geoplace');
+    const controller = new GeoPlaceController(sortedModel([]) as any, mockCache as any, mockLogger as any);
+    const distanceCursor = encodeCursor({ distance: 100, id: String(new Types.ObjectId()), offset: 2 });
+
+    const context = createContext({ limit: 2, sort: 'relevance', cursor: distanceCursor });
+    const response = await controller.getPlaces(context) as any;
+
+    expect(context.set.status).toBe(400);
+    expect(response.message).toBe('Invalid cursor');
+    expect(decodeDistanceCursor(encodeCursor({ distance: 100, id: String(new Types.ObjectId()), offset: 2, value: 'high' }))).toBeNull();
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'bun:test';
 import { 
   PlaceQuerySchema, 
   PaginationSchema, 
+  PlaceCreateSchema,
+  PlaceUpdateSchema,
   validateCoordinates, 
   validateRadius 
 } from '../server/schemas/validation';
@@ -48,6 +50,11 @@ describe('Validation Schemas', () => {
     expect(() => PlaceQuerySchema.parse({ lat: 40.7128, lon: -74.0060, radius: 6000 })).toThrow();
   });
 
+  it('should validate the minRating filter', () => {
+    expect(() => PlaceQuerySchema.parse({ lat: 40.7128, lon: -74.0060, minRating: 4.5 })).not.toThrow();
+    expect(() => PlaceQuerySchema.parse({ lat: 40.7128, lon: -74.0060, minRating: 6 })).toThrow();
+  });
+
   it('should validate correct pagination parameters', () => {
     const validData = {
       page: 1,
@@ -66,6 +73,38 @@ describe('Validation Schemas', () => {
   });
 });
 
+describe('Place Write Schemas', () => {
+  const validPlace = {
+    name: 'Padaria Santa Luzia',
+    category: 'bakery',
+    coordinates: { type: 'Point', coordinates: [-43.1729, -22.9068] }
+  };
+
+  it('should validate a new place and default its address', () => {
+    const place = PlaceCreateSchema.parse(validPlace);
+
+    expect(place.address).toBe('Unknown address');
+  });
+
+  it('should not let clients choose the source of a new place', () => {
+    const place = PlaceCreateSchema.parse({ ...validPlace, source: 'overpass' });
+
+    expect('source' in place).toBe(false);
+  });
+
+  it('should reject places with invalid coordinates', () => {
+    expect(() => PlaceCreateSchema.parse({
+      ...validPlace,
+      coordinates: { type: 'Point', coordinates: [-200, -22.9068] }
+    })).toThrow();
+  });
+
+  it('should accept partial updates but reject empty ones', () => {
+    expect(() => PlaceUpdateSchema.parse({ name: 'Padaria Nova' })).not.toThrow();
+    expect(() => PlaceUpdateSchema.parse({})).toThrow();
+  });
+});
+
 describe('Validation Helper Functions', () => {
   it('should validate correct coordinates', () => {
     expect(validateCoordinates(40.7128, -74.0060)).toBe(true);
@@ -5,23 +5,74 @@ import type {
   CoordinateInput,
   PlaceQueryInput,
   PlaceResponse,
+  PlaceAddress,
+  OpeningHours,
   HealthCheckResponse,
   ErrorResponse
 } from './server/schemas/validation';
 import type { Model } from 'mongoose';
 
 // Re-export Zod-derived types for consistency
-export type { GeoJSONPoint, CoordinateInput, PlaceQueryInput, PlaceResponse, HealthCheckResponse, ErrorResponse };
+export type { GeoJSONPoint, CoordinateInput, PlaceQueryInput, PlaceResponse, PlaceAddress, OpeningHours, HealthCheckResponse, ErrorResponse };
 
 // Enhanced PlaceDocument interface that extends both Zod type and Mongoose Document
 export interface PlaceDocument extends Omit<ZodPlaceDocument, 'updatedAt'>, Document {
   _id: Types.ObjectId; // Explicitly include ObjectId
   updatedAt: Date;
   distance?: number;
+  // Author of user-contributed places (source 'mongodb')
+  createdBy?: Types.ObjectId;
+  // Search index of the names, see PlaceSearch; not selected unless asked for
+  nameTokens?: string[];
+  nameTrigrams?: string[];
   // Mongoose-specific methods
   calculateDistance?(lat: number, lon: number): number;
 }
 
+// User account as stored in MongoDB
+export interface UserDocument extends Document {
+  _id: Types.ObjectId;
+  username: string;
+  email: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserRole = 'user' | 'admin';
+
+// Authenticated user derived from a bearer token
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+// Reasons a check-in was considered suspicious
+export type CheckinFlag = 'impossible_travel' | 'high_velocity' | 'rapid_fire';
+
+export interface FraudAssessment {
+  fraudScore: number;
+  flags: CheckinFlag[];
+}
+
+// Check-in document as stored in MongoDB
+export interface CheckinDocument extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId | UserDocument;
+  place: Types.ObjectId | PlaceDocument;
+  // Category of the place at check-in time, denormalized for timeline filters
+  category: string;
+  coordinates: GeoJSONPoint;
+  distance: number;
+  message?: string;
+  fraudScore: number;
+  flags: CheckinFlag[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Type for API responses (with string IDs)
 export type PlaceDocumentApiResponse = Omit<ZodPlaceDocument, '_id'> & { _id: string };
 
@@ -30,6 +81,129 @@ export interface PlaceModel extends Model<PlaceDocument> {
   findNearby(lat: number, lon: number, radius: number, limit?: number): Promise<PlaceDocument[]>;
 }
 
+// Place review, at most one per user and place
+export interface ReviewDocument extends Document {
+  _id: Types.ObjectId;
+  place: Types.ObjectId | PlaceDocument;
+  user: Types.ObjectId | UserDocument;
+  rating: number;
+  text?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Directed follow relation between two users
+export interface FollowDocument extends Document {
+  _id: Types.ObjectId;
+  follower: Types.ObjectId;
+  following: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Followed user who checked in at a place recently
+export interface FriendHere {
+  user: { _id: Types.ObjectId; username: string };
+  checkinCount: number;
+  lastCheckinAt: Date;
+}
+
+// User ranked by check-in count on a leaderboard
+export interface LeaderboardEntry {
+  rank: number;
+  user: { _id: Types.ObjectId; username: string };
+  checkinCount: number;
+  lastCheckinAt: Date;
+}
+
+// Leaderboard of a place; the mayor is the top user over the mayor window
+export interface PlaceLeaderboard {
+  mayor: LeaderboardEntry | null;
+  windowDays: number;
+  leaderboard: LeaderboardEntry[];
+}
+
+// Resized copy of a place photo
+export interface PhotoVariant {
+  name: string;
+  storageKey: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+// Photo uploaded to a place, files live behind the StorageAdapter
+export interface PlacePhotoDocument extends Document {
+  _id: Types.ObjectId;
+  place: Types.ObjectId;
+  uploadedBy: Types.ObjectId;
+  storageKey: string;
+  url: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  variants: PhotoVariant[];
+  caption?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Badge awarded to a user, see server/data/badges.json for definitions
+export interface UserBadgeDocument extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  badgeId: string;
+  awardedAt: Date;
+}
+
+// Geohash tile of a provider's coverage, recording when its places were last fetched
+export interface CoverageTileDocument extends Document {
+  _id: Types.ObjectId;
+  source: ProviderSource;
+  geohash: string;
+  // Unset for tiles that were queried but never fetched
+  fetchedAt?: Date;
+  placeCount: number;
+  // Requests covering the tile, so the most queried ones are refreshed first
+  queryCount: number;
+  lastQueriedAt?: Date;
+  // Lease of the instance refreshing the tile, expired leases are free to take
+  refreshingUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Administrative area (country, state, city...) used for offline reverse geocoding
+export interface AdminBoundaryDocument extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  names?: Map<string, string>;
+  // OSM `admin_level`: 2 for countries, 4 for states and provinces, 6 to 8 for counties and cities
+  adminLevel: number;
+  // ISO 3166-1 alpha-2 code of countries
+  countryCode?: string;
+  // IANA time zone, from the OSM `timezone` tag
+  timezone?: string;
+  geometry: {
+    type: 'Polygon' | 'MultiPolygon';
+    coordinates: number[][][] | number[][][][];
+  };
+  osmType?: 'node' | 'way' | 'relation';
+  osmId?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserModel = Model<UserDocument>;
+export type CheckinModel = Model<CheckinDocument>;
+export type ReviewModel = Model<ReviewDocument>;
+export type FollowModel = Model<FollowDocument>;
+export type UserBadgeModel = Model<UserBadgeDocument>;
+export type PlacePhotoModel = Model<PlacePhotoDocument>;
+export type CoverageTileModel = Model<CoverageTileDocument>;
+export type AdminBoundaryModel = Model<AdminBoundaryDocument>;
+
 // Service interfaces for dependency injection
 export interface CacheService<T> {
   get(key: string): T | undefined;
@@ -53,6 +227,7 @@ export interface ElysiaContext {
   body: unknown;
   headers: Record<string, string | undefined>;
   set: any;
+  currentUser?: AuthUser | null;
 }
 
 // API Response types
@@ -63,6 +238,20 @@ export interface ApiResponse<T = any> {
   timestamp: string;
 }
 
+// Response of POST /checkins, listing the badges the check-in earned
+export interface CheckinCreateResponse extends ApiResponse<CheckinDocument> {
+  badges?: Badge[];
+}
+
+// Public view of a badge definition, with the award date for held badges
+export interface Badge {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  awardedAt?: Date;
+}
+
 export interface PaginatedResponse<T> {
   page: number;
   limit: number;
@@ -70,6 +259,26 @@ export interface PaginatedResponse<T> {
   results: T[];
 }
 
+export interface CursorPaginatedResponse<T> {
+  limit: number;
+  results: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Cursor page with an estimate of the number of items over all pages, exact on the last page
+export interface DistancePaginatedResponse<T> extends CursorPaginatedResponse<T> {
+  // Estimate until the last page, see `hasMore`
+  total: number;
+}
+
+// Places of an area, at most `limit` of them; `truncated` tells the area holds more
+export interface AreaResponse<T> {
+  limit: number;
+  truncated: boolean;
+  results: T[];
+}
+
 // Configuration types
 export interface DatabaseConfig {
   uri: string;
@@ -112,21 +321,39 @@ export interface ApiError extends Error {
   details?: ValidationError[];
 }
 
+// Sources of places fetched by a PlaceProvider
+export type ProviderSource = 'overpass' | 'geojson' | 'nominatim';
+
 export interface PlaceData {
   _id: Types.ObjectId;
   name: string;
+  names?: Record<string, string>;
+  // Formatted display address
   address: string;
+  addressComponents?: PlaceAddress;
   coordinates: {
     type: 'Point';
     coordinates: [number, number];
   };
   category: string;
-  source: 'overpass';
+  categoryPath: string[];
+  country?: string;
+  source: ProviderSource;
+  osmType?: 'node' | 'way' | 'relation';
+  osmId?: number;
+  osmVersion?: number;
+  openingHours?: OpeningHours;
+  // IANA time zone, from the OSM `timezone` tag or the administrative boundaries
+  timezone?: string;
   updatedAt: Date;
 }
 
     
 export interface OverpassElement {
+  type?: 'node' | 'way' | 'relation';
+  id?: number;
+  // Only present with `out meta`
+  version?: number;
   tags?: Record<string, string>;
   lat?: string;
   lon?: string;